@@ -8,6 +8,8 @@ import ConstraintManager from './pages/ConstraintManager';
 import TableManager from './pages/TableManager';
 import SeatingPlanViewer from './pages/SeatingPlanViewer';
 import SavedSettings from './pages/SavedSettings';
+import PlanDiff from './pages/PlanDiff';
+import GuestLookup from './pages/GuestLookup';
 import PrivacyPolicy from './pages/PrivacyPolicy';
 import TermsOfService from './pages/TermsOfService';
 import AuthCallback from './pages/AuthCallback';
@@ -68,6 +70,8 @@ function App() {
                 <Route path="/tables" element={<TableManager />} />
                 <Route path="/seating" element={<SeatingPlanViewer />} />
                 <Route path="/saved-settings" element={<SavedSettings />} />
+                <Route path="/plan-diff" element={<PlanDiff />} />
+                <Route path="/lookup" element={<GuestLookup />} />
                 <Route path="/privacy" element={<PrivacyPolicy />} />
                 <Route path="/terms" element={<TermsOfService />} />
                 <Route path="/auth/callback" element={<AuthCallback />} />
@@ -0,0 +1,192 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp, SlidersHorizontal } from 'lucide-react';
+import { useApp } from '../context/AppContext';
+import { getDefaultGenerationOptions } from '../utils/seatingAlgorithm';
+import type { GenerationOptions } from '../types';
+
+// Tier caps on plan count (matches the "up to N plans" copy in the viewer)
+const MAX_TARGET_PLANS_FREE = 10;
+const MAX_TARGET_PLANS_PREMIUM = 30;
+
+type Solver = NonNullable<GenerationOptions['solver']>;
+type DraftKey = 'seed' | 'timeBudgetMs' | 'targetPlans' | 'maxAttemptsPerRun' | 'runsMultiplier' | 'adj' | 'util' | 'balance' | 'soft' | 'tags';
+type Draft = Record<DraftKey, string>;
+type ResolvedOptions = ReturnType<typeof getDefaultGenerationOptions>;
+
+const toDraft = (o: ResolvedOptions): Draft => ({
+  seed: String(o.seed),
+  timeBudgetMs: String(o.timeBudgetMs),
+  targetPlans: String(o.targetPlans),
+  maxAttemptsPerRun: String(o.maxAttemptsPerRun),
+  runsMultiplier: String(o.runsMultiplier),
+  adj: String(o.weights.adj),
+  util: String(o.weights.util),
+  balance: String(o.weights.balance),
+  soft: String(o.weights.soft),
+  tags: String(o.weights.tags),
+});
+
+const AdvancedGenerationPanel: React.FC = () => {
+  const { state, dispatch, mode } = useApp();
+  const isPremium = mode === 'premium';
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const defaults = useMemo(() => getDefaultGenerationOptions(isPremium), [isPremium]);
+  const effective = useMemo<ResolvedOptions>(() => {
+    const o = state.generationOptions || {};
+    return {
+      ...defaults,
+      ...o,
+      weights: { ...defaults.weights, ...(o.weights || {}) },
+    };
+  }, [defaults, state.generationOptions]);
+
+  const [draft, setDraft] = useState<Draft>(() => toDraft(effective));
+  const [solver, setSolver] = useState<Solver>(effective.solver);
+  const [localSearch, setLocalSearch] = useState(effective.localSearch);
+
+  // Re-sync when a setting is loaded or options are reset elsewhere
+  useEffect(() => {
+    setDraft(toDraft(effective));
+    setSolver(effective.solver);
+    setLocalSearch(effective.localSearch);
+    setError(null);
+  }, [effective]);
+
+  const maxTargetPlans = isPremium ? MAX_TARGET_PLANS_PREMIUM : MAX_TARGET_PLANS_FREE;
+  const hasOverrides = Object.keys(state.generationOptions || {}).length > 0;
+
+  const handleChange = (key: DraftKey) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = e.target.value;
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleApply = () => {
+    const n = (key: DraftKey) => Number(draft[key]);
+    const invalid = (Object.keys(draft) as DraftKey[]).find(k => draft[k].trim() === '' || !Number.isFinite(n(k)) || n(k) < 0);
+    if (invalid) {
+      setError('All values must be non-negative numbers.');
+      return;
+    }
+    if (n('adj') + n('util') + n('balance') + n('soft') + n('tags') <= 0) {
+      setError('At least one score weight must be greater than zero.');
+      return;
+    }
+
+    const next: ResolvedOptions = {
+      seed: Math.floor(n('seed')),
+      timeBudgetMs: Math.min(30000, Math.max(250, Math.floor(n('timeBudgetMs')))),
+      targetPlans: Math.min(maxTargetPlans, Math.max(1, Math.floor(n('targetPlans')))),
+      maxAttemptsPerRun: Math.max(100, Math.floor(n('maxAttemptsPerRun'))),
+      runsMultiplier: Math.max(1, n('runsMultiplier')),
+      weights: { adj: n('adj'), util: n('util'), balance: n('balance'), soft: n('soft'), tags: n('tags') },
+      solver,
+      localSearch,
+    };
+
+    // Persist only what differs from the tier defaults so upgrades keep their larger budgets
+    const overrides: GenerationOptions = {};
+    (['seed', 'timeBudgetMs', 'targetPlans', 'maxAttemptsPerRun', 'runsMultiplier'] as const).forEach(k => {
+      if (next[k] !== defaults[k]) overrides[k] = next[k];
+    });
+    const w = next.weights;
+    if (
+      w.adj !== defaults.weights.adj || w.util !== defaults.weights.util ||
+      w.balance !== defaults.weights.balance || w.soft !== defaults.weights.soft ||
+      w.tags !== defaults.weights.tags
+    ) {
+      overrides.weights = w;
+    }
+    if (next.solver !== defaults.solver) overrides.solver = next.solver;
+    if (next.localSearch !== defaults.localSearch) overrides.localSearch = next.localSearch;
+
+    setError(null);
+    dispatch({ type: 'SET_GENERATION_OPTIONS', payload: overrides });
+  };
+
+  const handleReset = () => {
+    setError(null);
+    dispatch({ type: 'SET_GENERATION_OPTIONS', payload: {} });
+  };
+
+  const inputClass = 'px-3 py-1 border border-[#586D78] rounded-md w-28 focus:outline-none focus:ring-2 focus:ring-[#586D78]';
+
+  const field = (key: DraftKey, label: string, hint: string, props: React.InputHTMLAttributes<HTMLInputElement> = {}) => (
+    <label className="flex flex-col text-sm text-[#586D78]" title={hint}>
+      <span className="font-medium mb-1">{label}</span>
+      <input type="number" min="0" value={draft[key]} onChange={handleChange(key)} className={inputClass} {...props} />
+    </label>
+  );
+
+  return (
+    <div className="mt-4">
+      <div
+        className="flex justify-between items-center p-3 rounded-md bg-[#D7E5E5] cursor-pointer"
+        onClick={() => setIsOpen(prev => !prev)}
+      >
+        <h3 className="font-semibold text-[#586D78] flex items-center">
+          <SlidersHorizontal className="mr-2 h-4 w-4" />
+          Advanced generation
+          {hasOverrides && <span className="ml-2 text-xs font-normal text-gray-600">(custom)</span>}
+        </h3>
+        {isOpen ? <ChevronUp className="h-5 w-5 text-[#586D78]" /> : <ChevronDown className="h-5 w-5 text-[#586D78]" />}
+      </div>
+
+      {isOpen && (
+        <div className="mt-2 p-4 bg-[#D7E5E5] rounded-md space-y-4">
+          <p className="text-sm text-gray-700">
+            Longer time budgets and more runs find better plans but take longer. Using the same seed with the same
+            guests, tables and constraints reproduces the same set of plans.
+          </p>
+          <div className="flex flex-wrap gap-4">
+            {field('seed', 'Seed', 'Base seed for the random search', { step: 1 })}
+            {field('timeBudgetMs', 'Time budget (ms)', 'Total time allowed for one generation', { min: 250, max: 30000, step: 250 })}
+            {field('targetPlans', 'Target plans', `Stop after this many distinct plans (max ${maxTargetPlans})`, { min: 1, max: maxTargetPlans, step: 1 })}
+            {field('maxAttemptsPerRun', 'Attempts per run', 'Backtracking attempts before a run gives up', { min: 100, step: 500 })}
+            {field('runsMultiplier', 'Runs multiplier', 'Runs per target plan', { min: 1, step: 1 })}
+          </div>
+          <label className="flex flex-col text-sm text-[#586D78]">
+            <span className="font-medium mb-1">Search</span>
+            <select
+              value={solver}
+              onChange={e => setSolver(e.target.value as Solver)}
+              className="px-3 py-1 border border-[#586D78] rounded-md w-72 focus:outline-none focus:ring-2 focus:ring-[#586D78]"
+            >
+              <option value="heuristic">Standard (randomized restarts)</option>
+              <option value="exact">Exact (up to 80 guest entries, proves the best plan)</option>
+            </select>
+            {solver === 'exact' && (
+              <span className="text-xs text-gray-600 mt-1">
+                Searches every arrangement within the time budget. Seed, attempts and runs are not used.
+              </span>
+            )}
+          </label>
+          {solver === 'heuristic' && (
+            <label className="flex items-center gap-2 text-sm text-[#586D78]" title="Moves and swaps guest groups between tables while the score improves">
+              <input type="checkbox" checked={localSearch} onChange={e => setLocalSearch(e.target.checked)} />
+              <span className="font-medium">Improve each plan with moves and swaps</span>
+            </label>
+          )}
+          <div>
+            <div className="text-sm font-medium text-[#586D78] mb-1">Score weights</div>
+            <div className="flex flex-wrap gap-4">
+              {field('adj', 'Adjacency', 'Weight of satisfied adjacent pairings', { step: 0.1 })}
+              {field('util', 'Utilization', 'Weight of seats filled across all tables', { step: 0.1 })}
+              {field('balance', 'Balance', 'Weight of even fill between tables', { step: 0.1 })}
+              {field('soft', 'Preferences', 'Weight of honoured prefer together / prefer apart pairs', { step: 0.1 })}
+              {field('tags', 'Tag rules', 'Weight of followed guest tag rules and table balance rules', { step: 0.1 })}
+            </div>
+          </div>
+          {error && <div className="text-sm text-red-700">{error}</div>}
+          <div className="flex flex-wrap gap-2">
+            <button className="danstyle1c-btn" onClick={handleApply}>Apply &amp; Regenerate</button>
+            <button className="danstyle1c-btn" onClick={handleReset} disabled={!hasOverrides}>Reset to Defaults</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdvancedGenerationPanel;
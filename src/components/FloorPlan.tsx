@@ -0,0 +1,191 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { RotateCcw, RotateCw } from 'lucide-react';
+import type { SeatingPlan, Table, TableLayout } from '../types';
+import { ROOM_HEIGHT, ROOM_WIDTH, clampToRoom, normalizeRotation, resolveTableLayouts, tableCapacity, tableGeometry } from '../utils/floorPlan';
+import { getDisplayName } from '../utils/guestCount';
+import { seatsByIndex } from '../utils/seatPins';
+
+interface FloorPlanProps {
+  tables: Table[];
+  tableLabel: (table: Table, index: number) => string;
+  plan?: SeatingPlan | null;   // when set, each seat shows the guest the plan puts there
+  onLayoutChange?: (tableId: number, layout: TableLayout) => void; // when set, tables can be dragged and rotated
+}
+
+interface DragState {
+  id: number;
+  offsetX: number;
+  offsetY: number;
+  x: number;
+  y: number;
+  moved: boolean;
+}
+
+const LABEL_MAX = 14;
+const ROTATE_STEP = 45;
+
+const shorten = (text: string) => (text.length > LABEL_MAX ? `${text.slice(0, LABEL_MAX - 1)}…` : text);
+
+const FloorPlan: React.FC<FloorPlanProps> = ({ tables, tableLabel, plan, onLayoutChange }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const editable = !!onLayoutChange;
+
+  const layouts = useMemo(() => resolveTableLayouts(tables), [tables]);
+  const selected = tables.find(t => t.id === selectedId);
+
+  const toRoom = (e: React.PointerEvent): { x: number; y: number } | null => {
+    const svg = svgRef.current;
+    const matrix = svg?.getScreenCTM();
+    if (!svg || !matrix) return null;
+    const pt = svg.createSVGPoint();
+    pt.x = e.clientX;
+    pt.y = e.clientY;
+    const p = pt.matrixTransform(matrix.inverse());
+    return { x: p.x, y: p.y };
+  };
+
+  const handlePointerDown = (table: Table) => (e: React.PointerEvent<SVGGElement>) => {
+    setSelectedId(table.id);
+    if (!editable) return;
+    const p = toRoom(e);
+    const layout = layouts.get(table.id);
+    if (!p || !layout) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ id: table.id, offsetX: p.x - layout.x, offsetY: p.y - layout.y, x: layout.x, y: layout.y, moved: false });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const p = toRoom(e);
+    if (!p) return;
+    const next = clampToRoom(p.x - drag.offsetX, p.y - drag.offsetY);
+    setDrag({ ...drag, ...next, moved: true });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    const layout = layouts.get(drag.id);
+    if (drag.moved && layout) onLayoutChange?.(drag.id, { ...layout, x: drag.x, y: drag.y });
+    setDrag(null);
+  };
+
+  const rotateSelected = (delta: number) => {
+    const layout = selected && layouts.get(selected.id);
+    if (!selected || !layout) return;
+    onLayoutChange?.(selected.id, { ...layout, rotation: normalizeRotation(layout.rotation + delta) });
+  };
+
+  const handleKeyDown = (table: Table) => (e: React.KeyboardEvent) => {
+    if (!editable) return;
+    const layout = layouts.get(table.id);
+    if (!layout) return;
+    const step = e.shiftKey ? 50 : 10;
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [-step, 0], ArrowRight: [step, 0], ArrowUp: [0, -step], ArrowDown: [0, step],
+    };
+    const move = moves[e.key];
+    if (move) {
+      e.preventDefault();
+      onLayoutChange?.(table.id, { ...layout, ...clampToRoom(layout.x + move[0], layout.y + move[1]) });
+    } else if (e.key === 'r' || e.key === 'R') {
+      onLayoutChange?.(table.id, { ...layout, rotation: normalizeRotation(layout.rotation + (e.shiftKey ? -ROTATE_STEP : ROTATE_STEP)) });
+    }
+  };
+
+  const seatRows = useMemo(
+    () => new Map((plan?.tables ?? []).map(t => [t.id, seatsByIndex(t.seats)])),
+    [plan]
+  );
+
+  const seatLabel = (tableId: number, seatIndex: number): string | null => {
+    const seat = seatRows.get(tableId)?.[seatIndex];
+    if (!seat) return null;
+    const name = getDisplayName(seat.name);
+    return seat.partyIndex > 0 ? `${name} (${seat.partyIndex + 1})` : name;
+  };
+
+  return (
+    <div>
+      {editable && (
+        <div className="flex flex-wrap items-center gap-2 mb-2 text-sm text-[#586D78]">
+          <span>
+            Drag tables into place{selected ? `; ${tableLabel(selected, tables.indexOf(selected))} selected` : ''}.
+            Arrow keys nudge the selected table, R rotates it.
+          </span>
+          <button className="danstyle1c-btn btn-small" onClick={() => rotateSelected(-ROTATE_STEP)} disabled={!selected} aria-label="Rotate left">
+            <RotateCcw className="w-3 h-3" />
+          </button>
+          <button className="danstyle1c-btn btn-small" onClick={() => rotateSelected(ROTATE_STEP)} disabled={!selected} aria-label="Rotate right">
+            <RotateCw className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${ROOM_WIDTH} ${ROOM_HEIGHT}`}
+        className="w-full border border-[#586D78] rounded-md bg-white select-none"
+        style={{ touchAction: editable ? 'none' : undefined }}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        role="img"
+        aria-label="Floor plan"
+      >
+        {tables.map((table, index) => {
+          const saved = layouts.get(table.id)!;
+          const layout = drag?.id === table.id ? { ...saved, x: drag.x, y: drag.y } : saved;
+          const { outline, seats } = tableGeometry(table.shape, tableCapacity(table));
+          const isSelected = table.id === selectedId;
+          const fill = isSelected ? '#D7E5E5' : '#EEF2FF';
+          return (
+            <g
+              key={table.id}
+              transform={`translate(${layout.x} ${layout.y}) rotate(${layout.rotation})`}
+              onPointerDown={handlePointerDown(table)}
+              onKeyDown={handleKeyDown(table)}
+              onFocus={() => setSelectedId(table.id)}
+              tabIndex={editable ? 0 : undefined}
+              style={{ cursor: editable ? (drag?.id === table.id ? 'grabbing' : 'grab') : 'default', outline: 'none' }}
+            >
+              {outline.kind === 'circle' ? (
+                <circle r={outline.radius} fill={fill} stroke="#586D78" strokeWidth={isSelected ? 3 : 1.5} />
+              ) : (
+                outline.rects!.map((r, i) => (
+                  <rect key={i} {...r} fill={fill} stroke="#586D78" strokeWidth={isSelected ? 3 : 1.5} />
+                ))
+              )}
+              {seats.map((s, i) => {
+                const label = seatLabel(table.id, i);
+                return (
+                  <g key={i}>
+                    <circle cx={s.x} cy={s.y} r={8} fill={label ? '#586D78' : '#fff'} stroke="#586D78" strokeWidth={1}>
+                      {label && <title>{label}</title>}
+                    </circle>
+                    {label && (
+                      <text
+                        x={s.x + s.nx * 12}
+                        y={s.y + s.ny * 12 + 3}
+                        fontSize={9}
+                        fill="#374151"
+                        textAnchor={s.nx > 0.3 ? 'start' : s.nx < -0.3 ? 'end' : 'middle'}
+                      >
+                        {shorten(label)}
+                      </text>
+                    )}
+                  </g>
+                );
+              })}
+              <text y={4} fontSize={11} fontWeight={600} fill="#586D78" textAnchor="middle" transform={`rotate(${-layout.rotation})`}>
+                {shorten(tableLabel(table, index))}
+              </text>
+            </g>
+          );
+        })}
+      </svg>
+    </div>
+  );
+};
+
+export default FloorPlan;
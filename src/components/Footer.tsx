@@ -3,7 +3,7 @@ import { Github } from 'lucide-react';
 
 const Footer: React.FC = () => {
  return (
-  <footer className="bg-[#586D78] text-white py-4 mt-auto">
+  <footer className="bg-[#586D78] text-white py-4 mt-auto print:hidden">
     <div className="container mx-auto px-4">
       <div className="flex flex-col md:flex-row items-center justify-between">
         <div className="text-sm mb-2 md:mb-0 flex items-center">
@@ -0,0 +1,257 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, ArrowLeft, ArrowRight, FileSpreadsheet, X } from 'lucide-react';
+import Button from './Button';
+import { useApp } from '../context/AppContext';
+import {
+  buildGuestImport,
+  cleanImportRows,
+  detectDelimiter,
+  detectHeader,
+  GUEST_IMPORT_FIELDS,
+  guestImportPayload,
+  GuestImportField,
+  guessColumnMapping,
+  IMPORT_DELIMITERS,
+  ImportDelimiter,
+  readImportRows,
+} from '../utils/guestImport';
+import { formatTag } from '../utils/guestTags';
+import type { XlsxSheet } from '../utils/xlsx';
+
+interface Props {
+  fileName: string;
+  text?: string;          // CSV/TSV contents
+  sheets?: XlsxSheet[];   // or the worksheets of an .xlsx file
+  isPremium: boolean;
+  onClose: () => void;
+}
+
+const SAMPLE_ROWS = 3;
+const PREVIEW_ROWS = 100;
+
+const sourceRows = (text: string, sheets: XlsxSheet[] | undefined, delimiter: ImportDelimiter, sheetIndex: number) =>
+  sheets ? cleanImportRows(sheets[sheetIndex]?.rows ?? []) : readImportRows(text, delimiter);
+
+const GuestImportWizard: React.FC<Props> = ({ fileName, text = '', sheets, isPremium, onClose }) => {
+  const { state, dispatch } = useApp();
+  const [step, setStep] = useState<'map' | 'preview'>('map');
+  const [delimiter, setDelimiter] = useState<ImportDelimiter>(() => detectDelimiter(text));
+  // Start on the first worksheet that has anything in it
+  const [sheetIndex, setSheetIndex] = useState(() => Math.max(0, (sheets ?? []).findIndex(s => cleanImportRows(s.rows).length > 0)));
+
+  const rows = useMemo(() => sourceRows(text, sheets, delimiter, sheetIndex), [text, sheets, delimiter, sheetIndex]);
+  const [hasHeader, setHasHeader] = useState(() => detectHeader(rows));
+  const [mapping, setMapping] = useState<GuestImportField[]>(() => guessColumnMapping(rows, hasHeader));
+
+  // A new delimiter, sheet or header choice changes the columns, so guess again
+  const reguess = (nextDelimiter: ImportDelimiter, nextSheet: number, nextHeader: boolean | null) => {
+    const nextRows = sourceRows(text, sheets, nextDelimiter, nextSheet);
+    const header = nextHeader ?? detectHeader(nextRows);
+    setDelimiter(nextDelimiter);
+    setSheetIndex(nextSheet);
+    setHasHeader(header);
+    setMapping(guessColumnMapping(nextRows, header));
+  };
+
+  const setColumnField = (column: number, field: GuestImportField) => {
+    setMapping(prev => prev.map((f, i) => {
+      if (i === column) return field;
+      // Each field comes from one column
+      return field !== 'ignore' && f === field ? 'ignore' : f;
+    }));
+  };
+
+  const columnCount = Math.max(0, ...rows.map(row => row.length));
+  const hasName = mapping.includes('name') || mapping.includes('firstName') || mapping.includes('lastName');
+
+  const preview = useMemo(
+    () => buildGuestImport(rows, mapping, { hasHeader, tables: state.tables, isPremium, existing: state.guests }),
+    [rows, mapping, hasHeader, state.tables, state.guests, isPremium]
+  );
+  const importable = preview.rows.filter(r => !r.duplicate);
+  const seats = importable.reduce((sum, r) => sum + r.count, 0);
+  const withWarnings = preview.rows.filter(r => r.warnings.length > 0).length;
+
+  const tableLabel = (idCsv: string) =>
+    idCsv.split(',').map(id => state.tables.find(t => t.id === Number(id))?.name || `Table ${id}`).join(', ');
+
+  const handleImport = () => {
+    dispatch({ type: 'ADD_GUESTS', payload: guestImportPayload(preview) });
+    onClose();
+  };
+
+  const headerCellClass = 'p-2 border border-indigo-200 bg-indigo-100 text-[#586D78] font-medium text-left align-top';
+  const cellClass = 'p-2 border border-indigo-200 align-top';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-4xl w-full shadow-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-start mb-4">
+          <h3 className="text-xl font-bold text-[#586D78] flex items-center">
+            <FileSpreadsheet className="w-5 h-5 mr-2" />
+            Import Guests from {fileName}
+          </h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {step === 'map' ? (
+          <>
+            <div className="flex flex-wrap items-center gap-4 mb-4 text-sm">
+              {sheets ? (
+                <label className="flex items-center text-[#586D78] font-medium">
+                  Sheet
+                  <select
+                    className="ml-2 px-2 py-1 border border-gray-300 rounded-md font-normal"
+                    value={sheetIndex}
+                    onChange={e => reguess(delimiter, Number(e.target.value), null)}
+                  >
+                    {sheets.map((sheet, i) => (
+                      <option key={i} value={i}>{sheet.name}</option>
+                    ))}
+                  </select>
+                </label>
+              ) : (
+                <label className="flex items-center text-[#586D78] font-medium">
+                  Columns separated by
+                  <select
+                    className="ml-2 px-2 py-1 border border-gray-300 rounded-md font-normal"
+                    value={delimiter}
+                    onChange={e => reguess(e.target.value as ImportDelimiter, sheetIndex, null)}
+                  >
+                    {IMPORT_DELIMITERS.map(d => (
+                      <option key={d.label} value={d.value}>{d.label}</option>
+                    ))}
+                  </select>
+                </label>
+              )}
+              <label className="flex items-center text-[#586D78] font-medium cursor-pointer">
+                <input
+                  type="checkbox"
+                  className="mr-2"
+                  checked={hasHeader}
+                  onChange={e => reguess(delimiter, sheetIndex, e.target.checked)}
+                />
+                First row is a header
+              </label>
+            </div>
+
+            <p className="text-sm text-gray-600 mb-2">Choose what each column holds.</p>
+            <div className="overflow-x-auto mb-4">
+              <table className="min-w-full border-collapse text-sm">
+                <thead>
+                  <tr>
+                    {Array.from({ length: columnCount }, (_, i) => (
+                      <th key={i} className={headerCellClass}>
+                        {hasHeader && <div className="mb-1 truncate">{rows[0]?.[i] || `Column ${i + 1}`}</div>}
+                        <select
+                          className="w-full px-2 py-1 border border-gray-300 rounded-md font-normal"
+                          value={mapping[i] ?? 'ignore'}
+                          onChange={e => setColumnField(i, e.target.value as GuestImportField)}
+                          aria-label={`Column ${i + 1}`}
+                        >
+                          {GUEST_IMPORT_FIELDS.map(f => (
+                            <option key={f.value} value={f.value}>{f.label}</option>
+                          ))}
+                        </select>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.slice(hasHeader ? 1 : 0, (hasHeader ? 1 : 0) + SAMPLE_ROWS).map((row, r) => (
+                    <tr key={r}>
+                      {Array.from({ length: columnCount }, (_, i) => (
+                        <td key={i} className={`${cellClass} ${mapping[i] === 'ignore' ? 'text-gray-400' : ''}`}>{row[i] ?? ''}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {!hasName && (
+              <p className="text-sm text-red-700 mb-4">Map a guest name column, or first and last name columns.</p>
+            )}
+
+            <div className="flex justify-end space-x-2">
+              <Button variant="secondary" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button onClick={() => setStep('preview')} disabled={!hasName}>
+                Preview
+                <ArrowRight className="w-4 h-4 ml-2" />
+              </Button>
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-[#586D78] mb-2">
+              {importable.length} {importable.length === 1 ? 'guest' : 'guests'} ({seats} {seats === 1 ? 'seat' : 'seats'}) will be added
+              {preview.rows.length > importable.length && ` · ${preview.rows.length - importable.length} already in your list`}
+              {preview.skipped.length > 0 && ` · ${preview.skipped.length} skipped`}
+              {withWarnings > 0 && ` · ${withWarnings} with warnings`}
+            </p>
+
+            {preview.skipped.length > 0 && (
+              <div className="mb-3 p-3 bg-yellow-50 border border-yellow-200 rounded-md text-sm text-yellow-800">
+                <p className="font-medium flex items-center mb-1">
+                  <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+                  Skipped rows
+                </p>
+                <ul className="list-disc pl-5 max-h-24 overflow-y-auto">
+                  {preview.skipped.map(s => <li key={s.line}>Row {s.line}: {s.reason}</li>)}
+                </ul>
+              </div>
+            )}
+
+            <div className="overflow-x-auto mb-4 max-h-[50vh] overflow-y-auto">
+              <table className="min-w-full border-collapse text-sm">
+                <thead>
+                  <tr>
+                    <th className={headerCellClass}>Guest</th>
+                    <th className={headerCellClass}>Seats</th>
+                    <th className={headerCellClass}>Tags</th>
+                    <th className={headerCellClass}>Table</th>
+                    <th className={headerCellClass}>Notes</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {preview.rows.slice(0, PREVIEW_ROWS).map(r => (
+                    <tr key={r.line} className={r.duplicate ? 'text-gray-400' : ''}>
+                      <td className={cellClass}>
+                        {r.name}
+                        {r.duplicate && <span className="block text-xs">Already in your list; skipped</span>}
+                        {r.warnings.map(w => <span key={w} className="block text-xs text-yellow-700">{w}</span>)}
+                      </td>
+                      <td className={cellClass}>{r.count}</td>
+                      <td className={cellClass}>{r.tags.map(formatTag).join(', ')}</td>
+                      <td className={cellClass}>{r.assignment ? tableLabel(r.assignment) : ''}</td>
+                      <td className={cellClass}>{r.notes}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {preview.rows.length > PREVIEW_ROWS && (
+                <p className="text-xs text-gray-500 mt-1">Showing the first {PREVIEW_ROWS} of {preview.rows.length} rows.</p>
+              )}
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button variant="secondary" onClick={() => setStep('map')}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={importable.length === 0}>
+                Import {importable.length} {importable.length === 1 ? 'Guest' : 'Guests'}
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default GuestImportWizard;
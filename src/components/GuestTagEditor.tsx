@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { useApp } from '../context/AppContext';
+import type { AgeGroup, Guest } from '../types';
+import { AGE_GROUPS, parseTagList } from '../utils/guestTags';
+
+interface GuestTagEditorProps {
+  guest: Guest;
+  onClose: () => void;
+}
+
+const GuestTagEditor: React.FC<GuestTagEditorProps> = ({ guest, onClose }) => {
+  const { dispatch } = useApp();
+  const a = guest.attributes || {};
+  const [side, setSide] = useState(a.side || '');
+  const [ageGroup, setAgeGroup] = useState<AgeGroup | ''>(a.ageGroup || '');
+  const [dietary, setDietary] = useState((a.dietary || []).join(', '));
+  const [vip, setVip] = useState(!!a.vip);
+  const [tags, setTags] = useState((guest.tags || []).join(', '));
+
+  const handleSave = () => {
+    dispatch({
+      type: 'UPDATE_GUEST_TAGS',
+      payload: {
+        id: guest.id,
+        attributes: {
+          side: side.trim() || undefined,
+          ageGroup: ageGroup || undefined,
+          dietary: parseTagList(dietary),
+          vip,
+        },
+        tags: parseTagList(tags),
+      },
+    });
+    onClose();
+  };
+
+  const inputClass = 'px-2 py-1 border border-[#586D78] rounded-md w-full text-sm focus:outline-none focus:ring-2 focus:ring-[#586D78]';
+
+  return (
+    <div
+      className="w-full mt-2 p-2 bg-[#D7E5E5] rounded-md space-y-2 text-sm text-[#586D78]"
+      onDoubleClick={e => e.stopPropagation()}
+      onKeyDown={e => { if (e.key === 'Escape') onClose(); }}
+    >
+      <label className="block">
+        <span className="font-medium">Side</span>
+        <input className={inputClass} value={side} onChange={e => setSide(e.target.value)} placeholder="e.g. Bride" />
+      </label>
+      <label className="block">
+        <span className="font-medium">Age group</span>
+        <select className={inputClass} value={ageGroup} onChange={e => setAgeGroup(e.target.value as AgeGroup | '')}>
+          <option value="">—</option>
+          {AGE_GROUPS.map(g => <option key={g} value={g}>{g}</option>)}
+        </select>
+      </label>
+      <label className="block">
+        <span className="font-medium">Dietary</span>
+        <input className={inputClass} value={dietary} onChange={e => setDietary(e.target.value)} placeholder="e.g. vegan, nut allergy" />
+      </label>
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={vip} onChange={e => setVip(e.target.checked)} />
+        <span className="font-medium">VIP</span>
+      </label>
+      <label className="block">
+        <span className="font-medium">Other tags</span>
+        <input className={inputClass} value={tags} onChange={e => setTags(e.target.value)} placeholder="comma separated" />
+      </label>
+      <div className="flex gap-2">
+        <button className="danstyle1c-btn btn-small" onClick={handleSave}>Save</button>
+        <button className="danstyle1c-btn btn-small" onClick={onClose}>Cancel</button>
+      </div>
+    </div>
+  );
+};
+
+export default GuestTagEditor;
@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate, NavLink } from 'react-router-dom';
-import { Users, Table, ClipboardList, Crown, UserCircle, ArmchairIcon as ChairIcon } from 'lucide-react';
+import { Users, Table, ClipboardList, Crown, UserCircle, Search, ArmchairIcon as ChairIcon } from 'lucide-react';
 import AuthModal from './AuthModal';
 import PremiumModal from './PremiumModal';
 import MostRecentChoiceModal from './MostRecentChoiceModal';
+import HistoryPanel from './HistoryPanel';
 import { supabase } from '../lib/supabase';
 import { useApp } from '../context/AppContext';
 import { isPremiumSubscription } from '../utils/premium';
@@ -301,7 +302,7 @@ const Header: React.FC = () => {
     }
   };
   return (
-    <header className="bg-[#ddele3] shadow-md" style={{ paddingTop: "1.3rem", paddingBottom: "1.3rem" }}>
+    <header className="bg-[#ddele3] shadow-md print:hidden" style={{ paddingTop: "1.3rem", paddingBottom: "1.3rem" }}>
       <div className="container mx-auto px-4 py-3">
         <div className="flex flex-col space-y-3 md:space-y-2">
           <div className="flex flex-col md:flex-row md:justify-between md:items-center">
@@ -394,6 +395,10 @@ const Header: React.FC = () => {
                   </>
                 )}
               </NavLink>
+              <NavItem to="/lookup" icon={<Search className="w-4 h-4" />} label="Find a Seat" />
+              <li className="flex-none ml-auto">
+                <HistoryPanel />
+              </li>
             </ul>
           </nav>
         </div>
@@ -0,0 +1,105 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { History, Redo2, Undo2 } from 'lucide-react';
+import { useApp } from '../context/AppContext';
+
+const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+const UNDO_KEYS = isMac ? '⌘Z' : 'Ctrl+Z';
+const REDO_KEYS = isMac ? '⇧⌘Z' : 'Ctrl+Y';
+
+/**
+ * Undo and redo buttons with a list of the steps taken; picking a step goes back (or
+ * forward) to just after it
+ */
+const HistoryPanel: React.FC = () => {
+  const { undoHistory, undo, redo } = useApp();
+  const [open, setOpen] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const { undo: done, redo: undone } = undoHistory;
+
+  // Close on a click anywhere else
+  useEffect(() => {
+    if (!open) return;
+    const onPointerDown = (e: PointerEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('pointerdown', onPointerDown);
+    return () => document.removeEventListener('pointerdown', onPointerDown);
+  }, [open]);
+
+  const itemClass = 'w-full text-left px-3 py-1 text-sm rounded hover:bg-[#D7E5E5]';
+
+  return (
+    <div className="relative flex items-center gap-1" ref={panelRef}>
+      <button
+        className="danstyle1c-btn"
+        onClick={() => undo()}
+        disabled={done.length === 0}
+        title={done.length ? `Undo ${done[done.length - 1]} (${UNDO_KEYS})` : 'Nothing to undo'}
+        aria-label="Undo"
+      >
+        <Undo2 className="w-4 h-4" />
+      </button>
+      <button
+        className="danstyle1c-btn"
+        onClick={() => redo()}
+        disabled={undone.length === 0}
+        title={undone.length ? `Redo ${undone[0]} (${REDO_KEYS})` : 'Nothing to redo'}
+        aria-label="Redo"
+      >
+        <Redo2 className="w-4 h-4" />
+      </button>
+      <button
+        className={`danstyle1c-btn ${open ? 'selected' : ''}`}
+        onClick={() => setOpen(o => !o)}
+        aria-expanded={open}
+      >
+        <History className="w-4 h-4 mr-1" />
+        History
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-72 bg-white border border-[#586D78] rounded-lg shadow-2xl z-50 p-2">
+          {done.length === 0 && undone.length === 0 ? (
+            <p className="text-sm text-gray-500 px-3 py-2">No changes yet. Edits you make show up here.</p>
+          ) : (
+            <ol className="max-h-80 overflow-y-auto">
+              <li>
+                <button
+                  className={`${itemClass} text-gray-500 ${done.length === 0 ? 'font-bold bg-[#D7E5E5]' : ''}`}
+                  onClick={() => undo(done.length)}
+                  disabled={done.length === 0}
+                >
+                  Start
+                </button>
+              </li>
+              {done.map((label, i) => (
+                <li key={`done-${i}`}>
+                  <button
+                    className={`${itemClass} text-[#586D78] ${i === done.length - 1 ? 'font-bold bg-[#D7E5E5]' : ''}`}
+                    onClick={() => undo(done.length - 1 - i)}
+                    disabled={i === done.length - 1}
+                    aria-current={i === done.length - 1 ? 'step' : undefined}
+                  >
+                    {label}
+                  </button>
+                </li>
+              ))}
+              {undone.map((label, i) => (
+                <li key={`undone-${i}`}>
+                  <button className={`${itemClass} text-gray-400 italic`} onClick={() => redo(i + 1)}>
+                    {label}
+                  </button>
+                </li>
+              ))}
+            </ol>
+          )}
+          <p className="text-xs text-gray-500 px-3 pt-2 border-t border-gray-200 mt-1">
+            {UNDO_KEYS} to undo, {REDO_KEYS} to redo. History covers this session only.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoryPanel;
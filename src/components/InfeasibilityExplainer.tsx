@@ -0,0 +1,80 @@
+import React from 'react';
+import { Unlock } from 'lucide-react';
+import { useApp } from '../context/AppContext';
+import type { ConflictRule, InfeasibilityReport } from '../types';
+
+interface InfeasibilityExplainerProps {
+  report: InfeasibilityReport;
+}
+
+const relaxLabel: Record<ConflictRule['kind'], string> = {
+  must: 'Remove',
+  cannot: 'Remove',
+  adjacent: 'Remove',
+  assignment: 'Clear assignment',
+  lock: 'Unlock guest',
+  table_rule: 'Remove rule',
+};
+
+const InfeasibilityExplainer: React.FC<InfeasibilityExplainerProps> = ({ report }) => {
+  const { state, dispatch } = useApp();
+
+  const handleRelax = (rule: ConflictRule) => {
+    switch (rule.kind) {
+      case 'must':
+      case 'cannot':
+      case 'adjacent':
+        dispatch({ type: 'SET_CONSTRAINT', payload: { guest1: rule.guestIds[0], guest2: rule.guestIds[1], value: '' } });
+        break;
+      case 'assignment':
+        dispatch({ type: 'UPDATE_ASSIGNMENT', payload: { guestId: rule.guestIds[0], raw: '' } });
+        break;
+      case 'lock':
+        dispatch({ type: 'UNLOCK_GUEST', payload: { guestId: rule.guestIds[0] } });
+        break;
+      case 'table_rule': {
+        const table = state.tables.find(t => t.id === rule.tableIds[0]);
+        if (!table) return;
+        const rules = (table.rules || []).filter((_r, i) => i !== rule.ruleIndex);
+        dispatch({ type: 'UPDATE_TABLE', payload: { id: table.id, rules } });
+        break;
+      }
+    }
+    // Removing a rule never makes plans stricter, so regeneration has to be asked for
+    dispatch({ type: 'TRIGGER_REGENERATION' });
+  };
+
+  if (report.rules.length === 0) {
+    return (
+      <p className="mt-2 text-sm text-red-700">
+        The guests do not fit the tables even without any rules. Add seats or tables.
+      </p>
+    );
+  }
+
+  return (
+    <div className="mt-3">
+      <p className="text-sm text-red-800 font-medium">
+        {report.minimal
+          ? 'These rules cannot all hold at once. Relaxing any one of them makes seating possible:'
+          : 'These rules cannot all hold at once, though some may not be needed (the check could not confirm each one):'}
+      </p>
+      <ul className="mt-2 space-y-1">
+        {report.rules.map((rule, index) => (
+          <li
+            key={`${rule.kind}-${rule.guestIds.join('-')}-${rule.tableIds.join('-')}-${rule.ruleIndex ?? ''}-${index}`}
+            className="flex items-center justify-between bg-white rounded-md px-3 py-1 text-sm text-red-700"
+          >
+            <span>{rule.description}</span>
+            <button className="danstyle1c-btn btn-small ml-2" onClick={() => handleRelax(rule)}>
+              <Unlock className="w-3 h-3 mr-1" />
+              {relaxLabel[rule.kind]}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default InfeasibilityExplainer;
@@ -0,0 +1,220 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowUp, Columns } from 'lucide-react';
+import type { Guest, GuestID, SeatingPlan } from '../types';
+import { PLAN_METRICS, PlanMetricKey, getPlanMetric, formatPlanMetric, guestTableMap, seatGuestKey } from '../utils/planMetrics';
+import { getDisplayName } from '../utils/guestCount';
+
+type SortKey = 'id' | PlanMetricKey;
+
+interface PlanComparisonProps {
+  plans: SeatingPlan[];
+  guests: Guest[];
+  currentPlanIndex: number;
+  onSelectPlan: (index: number) => void;
+  tableLabel: (tableId: number) => string;
+}
+
+// One entry per guest party at the table, keyed like guestTableMap so same-named guests stay apart
+const tableParties = (plan: SeatingPlan, tableId: number, nameToId: Map<string, GuestID>): { key: string; name: string }[] => {
+  const table = plan.tables.find(t => t.id === tableId);
+  const parties = new Map<string, string>();
+  for (const seat of table?.seats ?? []) {
+    const key = seatGuestKey(seat, nameToId);
+    if (!parties.has(key)) parties.set(key, seat.name);
+  }
+  return Array.from(parties, ([key, name]) => ({ key, name }));
+};
+
+const PlanComparison: React.FC<PlanComparisonProps> = ({ plans, guests, currentPlanIndex, onSelectPlan, tableLabel }) => {
+  const [sortKey, setSortKey] = useState<SortKey>('score');
+  const [sortDesc, setSortDesc] = useState(true);
+  const [compareIds, setCompareIds] = useState<number[]>([]);
+
+  const rows = useMemo(() => {
+    const indexed = plans.map((plan, index) => ({ plan, index }));
+    const value = (p: SeatingPlan) => (sortKey === 'id' ? p.id : getPlanMetric(p, sortKey) ?? -1);
+    indexed.sort((a, b) => {
+      const d = value(a.plan) - value(b.plan);
+      return (sortDesc ? -d : d) || a.plan.id - b.plan.id;
+    });
+    return indexed;
+  }, [plans, sortKey, sortDesc]);
+
+  // Drop selections that no longer exist after a regeneration
+  const selected = useMemo(
+    () => compareIds
+      .map(id => plans.find(p => p.id === id))
+      .filter((p): p is SeatingPlan => !!p),
+    [compareIds, plans]
+  );
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDesc(prev => !prev);
+    } else {
+      setSortKey(key);
+      setSortDesc(key !== 'id');
+    }
+  };
+
+  const toggleCompare = (id: number) => {
+    setCompareIds(prev => {
+      if (prev.includes(id)) return prev.filter(x => x !== id);
+      // Keep the two most recent picks
+      return [...prev, id].slice(-2);
+    });
+  };
+
+  const comparison = useMemo(() => {
+    if (selected.length !== 2) return null;
+    const [a, b] = selected;
+    const aMap = guestTableMap(a, guests);
+    const bMap = guestTableMap(b, guests);
+    const moved = new Set<string>();
+    for (const [key, tid] of aMap) {
+      if (bMap.get(key) !== tid) moved.add(key);
+    }
+    for (const key of bMap.keys()) {
+      if (!aMap.has(key)) moved.add(key);
+    }
+    const tableIds = Array.from(new Set([...a.tables, ...b.tables].map(t => t.id))).sort((x, y) => x - y);
+    return { a, b, moved, tableIds };
+  }, [selected, guests]);
+
+  const nameToId = useMemo(() => new Map(guests.map(g => [g.name, g.id])), [guests]);
+
+  if (plans.length === 0) return null;
+
+  const header = (key: SortKey, label: string, title?: string) => (
+    <th
+      key={key}
+      className="p-2 border border-indigo-200 bg-indigo-100 text-[#586D78] font-medium cursor-pointer select-none"
+      onClick={() => handleSort(key)}
+      title={title}
+    >
+      <span className="inline-flex items-center">
+        {label}
+        {sortKey === key && (sortDesc ? <ArrowDown className="w-3 h-3 ml-1" /> : <ArrowUp className="w-3 h-3 ml-1" />)}
+      </span>
+    </th>
+  );
+
+  const renderNames = (parties: { key: string; name: string }[], moved: Set<string>) => (
+    <ul className="space-y-0.5">
+      {parties.map(({ key, name }) => (
+        <li key={key} className={moved.has(key) ? 'font-semibold text-[#586D78]' : 'text-gray-700'}>
+          {getDisplayName(name)}
+        </li>
+      ))}
+      {parties.length === 0 && <li className="text-gray-400">Empty</li>}
+    </ul>
+  );
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Click a column to sort. Tick two plans to compare them side by side.
+      </p>
+      <div className="overflow-x-auto max-h-[40vh] overflow-y-auto">
+        <table className="min-w-full border-collapse text-sm">
+          <thead className="sticky top-0">
+            <tr>
+              <th className="p-2 border border-indigo-200 bg-indigo-100 text-[#586D78] font-medium">Compare</th>
+              {header('id', 'Plan')}
+              {PLAN_METRICS.map(m => header(m.key, m.label, m.description))}
+              <th className="p-2 border border-indigo-200 bg-indigo-100" />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ plan, index }) => {
+              const isCurrent = index === currentPlanIndex;
+              return (
+                <tr key={plan.id} className={isCurrent ? 'bg-indigo-50' : ''}>
+                  <td className="p-2 border border-indigo-200 text-center">
+                    <input
+                      type="checkbox"
+                      checked={compareIds.includes(plan.id)}
+                      onChange={() => toggleCompare(plan.id)}
+                      aria-label={`Compare plan ${index + 1}`}
+                    />
+                  </td>
+                  <td className="p-2 border border-indigo-200 text-[#586D78] font-medium">Plan {index + 1}</td>
+                  {PLAN_METRICS.map(m => (
+                    <td key={m.key} className="p-2 border border-indigo-200 text-right">
+                      {formatPlanMetric(getPlanMetric(plan, m.key))}
+                      {m.key === 'softSatisfaction' && !!plan.softPreferencesTotal && (
+                        <span className="ml-1 text-xs text-gray-500">
+                          ({plan.softPreferencesHonoured ?? 0}/{plan.softPreferencesTotal})
+                        </span>
+                      )}
+                    </td>
+                  ))}
+                  <td className="p-2 border border-indigo-200 text-center">
+                    {isCurrent ? (
+                      <span className="text-xs text-gray-500">Viewing</span>
+                    ) : (
+                      <button className="danstyle1c-btn" onClick={() => onSelectPlan(index)}>View</button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {comparison && (() => {
+        const { a, b, moved, tableIds } = comparison;
+        const aIndex = plans.indexOf(a);
+        const bIndex = plans.indexOf(b);
+        return (
+          <div className="border border-[#586D78] rounded-md p-3">
+            <h3 className="font-semibold text-[#586D78] flex items-center mb-2">
+              <Columns className="w-4 h-4 mr-2" />
+              Plan {aIndex + 1} vs Plan {bIndex + 1}
+            </h3>
+            <div className="overflow-x-auto">
+              <table className="min-w-full border-collapse text-sm">
+                <thead>
+                  <tr>
+                    <th className="p-2 border border-indigo-200 bg-indigo-100 text-[#586D78] font-medium" />
+                    <th className="p-2 border border-indigo-200 bg-indigo-100 text-[#586D78] font-medium">Plan {aIndex + 1}</th>
+                    <th className="p-2 border border-indigo-200 bg-indigo-100 text-[#586D78] font-medium">Plan {bIndex + 1}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {PLAN_METRICS.map(m => {
+                    const av = getPlanMetric(a, m.key);
+                    const bv = getPlanMetric(b, m.key);
+                    const better = av !== undefined && bv !== undefined && av !== bv ? (av > bv ? 'a' : 'b') : null;
+                    return (
+                      <tr key={m.key}>
+                        <td className="p-2 border border-indigo-200 text-[#586D78] font-medium" title={m.description}>{m.label}</td>
+                        <td className={`p-2 border border-indigo-200 text-right ${better === 'a' ? 'font-bold text-green-800' : ''}`}>{formatPlanMetric(av)}</td>
+                        <td className={`p-2 border border-indigo-200 text-right ${better === 'b' ? 'font-bold text-green-800' : ''}`}>{formatPlanMetric(bv)}</td>
+                      </tr>
+                    );
+                  })}
+                  {tableIds.map(tid => (
+                    <tr key={`t-${tid}`}>
+                      <td className="p-2 border border-indigo-200 text-[#586D78] font-medium align-top">{tableLabel(tid)}</td>
+                      <td className="p-2 border border-indigo-200 align-top">{renderNames(tableParties(a, tid, nameToId), moved)}</td>
+                      <td className="p-2 border border-indigo-200 align-top">{renderNames(tableParties(b, tid, nameToId), moved)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-xs text-gray-600 mt-2">
+              {moved.size === 0
+                ? 'Both plans put every guest at the same table; only seat order differs.'
+                : `${moved.size} guest ${moved.size === 1 ? 'party sits' : 'parties sit'} at a different table (shown in bold).`}
+            </p>
+          </div>
+        );
+      })()}
+    </div>
+  );
+};
+
+export default PlanComparison;
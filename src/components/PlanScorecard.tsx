@@ -0,0 +1,40 @@
+import React from 'react';
+import type { SeatingPlan } from '../types';
+import { PLAN_METRICS, getPlanMetric, formatPlanMetric, formatSoftPreferences, formatSolverStatus } from '../utils/planMetrics';
+
+interface PlanScorecardProps {
+  plan: SeatingPlan;
+}
+
+const PlanScorecard: React.FC<PlanScorecardProps> = ({ plan }) => {
+  // Only show tiles this plan has values for (e.g. no Preferences tile without soft preferences)
+  const metrics = PLAN_METRICS.filter(m => getPlanMetric(plan, m.key) !== undefined);
+  if (metrics.length === 0) return null;
+  const softSummary = formatSoftPreferences(plan);
+  const solverStatus = formatSolverStatus(plan);
+
+  return (
+    <div className={`grid grid-cols-2 ${metrics.length > 6 ? 'md:grid-cols-7' : metrics.length > 5 ? 'md:grid-cols-6' : metrics.length > 4 ? 'md:grid-cols-5' : 'md:grid-cols-4'} gap-2 mb-4`}>
+      {metrics.map(m => {
+        const value = getPlanMetric(plan, m.key);
+        return (
+          <div key={m.key} className="border border-indigo-200 rounded-md p-2 bg-indigo-50" title={m.description}>
+            <div className="text-xs text-gray-600">{m.label}</div>
+            <div className="text-lg font-bold text-[#586D78]">{formatPlanMetric(value)}</div>
+            <div className="h-1.5 mt-1 bg-white rounded">
+              <div className="h-1.5 bg-[#586D78] rounded" style={{ width: `${Math.round((value ?? 0) * 100)}%` }} />
+            </div>
+            {m.key === 'score' && solverStatus && (
+              <div className={`text-xs mt-1 ${plan.provenOptimal ? 'text-green-800' : 'text-gray-600'}`}>{solverStatus}</div>
+            )}
+            {m.key === 'softSatisfaction' && softSummary && (
+              <div className="text-xs text-gray-600 mt-1">{softSummary}</div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PlanScorecard;
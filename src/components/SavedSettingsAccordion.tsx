@@ -8,6 +8,8 @@ import { isPremiumSubscription, getMaxSavedSettingsLimit, isSettingLoadable } fr
 import AuthModal from './AuthModal';
 import { useNavigate } from 'react-router-dom';
 import { exportSettingsToCSV, downloadCSV } from '../utils/exportSettings';
+import { downloadPDF, exportPlanToPDF } from '../utils/pdfExport';
+import { buildWorkbookSheets, downloadXLSX, writeXlsx } from '../utils/xlsx';
 import { isAbortLikeError } from '../utils/errorUtils';
 
 interface SavedSetting {
@@ -312,15 +314,15 @@ const SavedSettingsAccordion: React.FC<SavedSettingsAccordionProps> = ({ isDefau
       const settingData = {
         version: "1.0",
         guests: state.guests,
-        tables: state.tables.map(table => ({
-          id: table.id,
-          seats: table.seats,
-          name: table.name
-        })),
+        tables: state.tables,
         constraints: state.constraints,
         adjacents: state.adjacents,
+        preferenceWeights: state.preferenceWeights || {},
+        tagRules: state.tagRules || [],
         assignments: state.assignments,
         lockedTableAssignments: state.lockedTableAssignments || {},
+        seatPins: state.seatPins || {},
+        generationOptions: state.generationOptions || {},
         seatingPlans: state.seatingPlans,
         currentPlanIndex: state.currentPlanIndex,
         userSetTables: state.userSetTables
@@ -505,7 +507,8 @@ const SavedSettingsAccordion: React.FC<SavedSettingsAccordionProps> = ({ isDefau
         tables: state.tables,
         constraints: state.constraints,
         adjacents: state.adjacents,
-        assignments: state.assignments
+        assignments: state.assignments,
+        preferenceWeights: state.preferenceWeights || {}
       };
       
       const csvContent = exportSettingsToCSV(exportData, 'Current Settings');
@@ -518,6 +521,40 @@ const SavedSettingsAccordion: React.FC<SavedSettingsAccordionProps> = ({ isDefau
     }
   };
 
+  const handleExportSeatingChart = () => {
+    try {
+      const plan = state.seatingPlans[state.currentPlanIndex];
+      if (!plan) return;
+      const bytes = exportPlanToPDF(plan, state.tables, { planLabel: `Plan ${state.currentPlanIndex + 1}` });
+      downloadPDF(bytes, `seatyr-seating-chart-${new Date().toISOString().split('T')[0]}.pdf`);
+    } catch (err) {
+      console.error('Failed to export seating chart:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setError('Failed to export seating chart: ' + errorMessage);
+    }
+  };
+
+  const handleExportWorkbook = () => {
+    try {
+      const plan = state.editedPlan ?? state.seatingPlans[state.currentPlanIndex] ?? null;
+      const sheets = buildWorkbookSheets({
+        guests: state.guests,
+        tables: state.tables,
+        constraints: state.constraints,
+        adjacents: state.adjacents,
+        assignments: state.assignments,
+        preferenceWeights: state.preferenceWeights || {},
+        plan,
+        planLabel: state.editedPlan ? 'Edited Plan' : `Plan ${state.currentPlanIndex + 1}`
+      });
+      downloadXLSX(writeXlsx(sheets), `seatyr-settings-${new Date().toISOString().split('T')[0]}.xlsx`);
+    } catch (err) {
+      console.error('Failed to export workbook:', err);
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      setError('Failed to export workbook: ' + errorMessage);
+    }
+  };
+
   const handleExportSetting = (setting: SavedSetting, e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent loading the setting when clicking the export button
     
@@ -532,7 +569,8 @@ const SavedSettingsAccordion: React.FC<SavedSettingsAccordionProps> = ({ isDefau
         constraints: setting.data.constraints || {},
         adjacents: setting.data.adjacents || {},
         assignments: setting.data.assignments || {},
-        lockedTableAssignments: setting.data.lockedTableAssignments || {}
+        lockedTableAssignments: setting.data.lockedTableAssignments || {},
+        preferenceWeights: setting.data.preferenceWeights || {}
       };
       
       const csvContent = exportSettingsToCSV(exportData, setting.name);
@@ -730,6 +768,23 @@ const SavedSettingsAccordion: React.FC<SavedSettingsAccordionProps> = ({ isDefau
                     <Download className="w-4 h-4 mr-2" />
                     Export Current Settings
                   </button>
+                  <button
+                    className="danstyle1c-btn"
+                    onClick={handleExportSeatingChart}
+                    disabled={!state.seatingPlans[state.currentPlanIndex]}
+                    title="Export the current seating plan and guest index as a PDF"
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    Export Seating Chart (PDF)
+                  </button>
+                  <button
+                    className="danstyle1c-btn"
+                    onClick={handleExportWorkbook}
+                    title="Export guests, tables, constraints and the current plan as an Excel workbook"
+                  >
+                    <Download className="w-4 h-4 mr-2" />
+                    Export Workbook (Excel)
+                  </button>
                 </div>
 
                 {error && (
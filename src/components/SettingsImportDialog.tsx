@@ -0,0 +1,165 @@
+import React, { useMemo, useState } from 'react';
+import { AlertCircle, FileSpreadsheet, X } from 'lucide-react';
+import Button from './Button';
+import { useApp } from '../context/AppContext';
+import { resolveSettingsImport, SettingsCSV, SettingsImportMode } from '../utils/importSettings';
+import { getDisplayName } from '../utils/guestCount';
+
+interface Props {
+  fileName: string;
+  file: SettingsCSV;
+  isPremium: boolean;
+  onClose: () => void;
+}
+
+const MAX_LISTED = 12;
+
+// "Ann, Bob and 3 more"
+const summarizeNames = (names: string[]) => {
+  const shown = names.slice(0, MAX_LISTED).map(getDisplayName).join(', ');
+  return names.length > MAX_LISTED ? `${shown} and ${names.length - MAX_LISTED} more` : shown;
+};
+
+const countPairs = (rows: Record<string, Record<string, string> | string[]>, match?: string) => {
+  let n = 0;
+  Object.values(rows).forEach(row => {
+    const values = Array.isArray(row) ? row : Object.values(row);
+    n += match ? values.filter(v => v === match).length : values.length;
+  });
+  return n / 2;
+};
+
+const SettingsImportDialog: React.FC<Props> = ({ fileName, file, isPremium, onClose }) => {
+  const { state, dispatch } = useApp();
+  const [mode, setMode] = useState<SettingsImportMode>(state.guests.length > 0 ? 'merge' : 'replace');
+
+  const result = useMemo(
+    () => resolveSettingsImport(file, {
+      guests: state.guests,
+      tables: state.tables,
+      constraints: state.constraints,
+      adjacents: state.adjacents,
+      assignments: state.assignments,
+      preferenceWeights: state.preferenceWeights,
+    }, mode, { isPremium }),
+    [file, mode, isPremium, state.guests, state.tables, state.constraints, state.adjacents, state.assignments, state.preferenceWeights]
+  );
+
+  const handleImport = () => {
+    dispatch({
+      type: 'APPLY_SETTINGS_IMPORT',
+      payload: {
+        guests: result.guests,
+        tables: result.tables,
+        constraints: result.constraints,
+        adjacents: result.adjacents,
+        assignments: result.assignments,
+        preferenceWeights: result.preferenceWeights,
+      },
+    });
+    onClose();
+  };
+
+  const assigned = Object.values(result.assignments).filter(Boolean).length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg p-6 max-w-2xl w-full shadow-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-start mb-4">
+          <h3 className="text-xl font-bold text-[#586D78] flex items-center">
+            <FileSpreadsheet className="w-5 h-5 mr-2" />
+            Import {file.settingName ? `“${file.settingName}”` : fileName}
+          </h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <fieldset className="mb-4">
+          <legend className="font-medium text-[#586D78] mb-2">How should the file be applied?</legend>
+          <label className="flex items-start mb-2 cursor-pointer">
+            <input
+              type="radio"
+              name="settings-import-mode"
+              className="mt-1 mr-2"
+              checked={mode === 'merge'}
+              onChange={() => setMode('merge')}
+            />
+            <span>
+              <span className="font-medium">Merge</span>
+              <span className="block text-sm text-gray-600">
+                Keep your current guests, tables and rules, and add the file's. Guests with the same name are updated.
+              </span>
+            </span>
+          </label>
+          <label className="flex items-start cursor-pointer">
+            <input
+              type="radio"
+              name="settings-import-mode"
+              className="mt-1 mr-2"
+              checked={mode === 'replace'}
+              onChange={() => setMode('replace')}
+            />
+            <span>
+              <span className="font-medium">Replace</span>
+              <span className="block text-sm text-gray-600">
+                Use only what the file lists. Guests and rules not in the file are removed.
+              </span>
+            </span>
+          </label>
+        </fieldset>
+
+        <div className="text-sm text-gray-700 space-y-1 mb-4">
+          <p>
+            {file.guests.length} {file.guests.length === 1 ? 'guest' : 'guests'} and {file.tables.length}{' '}
+            {file.tables.length === 1 ? 'table' : 'tables'} in the file. After import: {result.guests.length} guests,{' '}
+            {result.tables.length} tables, {countPairs(result.constraints, 'must')} must,{' '}
+            {countPairs(result.constraints, 'cannot')} cannot, {countPairs(result.constraints, 'prefer')} prefer together,{' '}
+            {countPairs(result.constraints, 'avoid')} prefer apart, {countPairs(result.adjacents)} adjacent pairs and{' '}
+            {assigned} table assignments.
+          </p>
+          {result.added.length > 0 && <p><span className="font-medium">New:</span> {summarizeNames(result.added)}</p>}
+          {result.updated.length > 0 && <p><span className="font-medium">Updated:</span> {summarizeNames(result.updated)}</p>}
+          {result.removed.length > 0 && (
+            <p className="text-red-700"><span className="font-medium">Removed:</span> {summarizeNames(result.removed)}</p>
+          )}
+          {result.duplicates.length > 0 && (
+            <p className="text-yellow-700">Repeated rows skipped: {summarizeNames(result.duplicates)}</p>
+          )}
+          {file.skippedRows > 0 && (
+            <p className="text-yellow-700">
+              {file.skippedRows} {file.skippedRows === 1 ? 'row was' : 'rows were'} skipped (no guest name, or an invalid table ID or seat count).
+            </p>
+          )}
+        </div>
+
+        {result.unresolved.length > 0 && (
+          <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+            <p className="text-yellow-800 font-medium flex items-center mb-2">
+              <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+              {result.unresolved.length} {result.unresolved.length === 1 ? 'entry' : 'entries'} could not be matched and will be skipped
+            </p>
+            <ul className="text-sm text-yellow-800 list-disc pl-5 space-y-0.5 max-h-40 overflow-y-auto">
+              {result.unresolved.map((u, i) => (
+                <li key={`${u.guest}-${u.column}-${i}`}>
+                  {getDisplayName(u.guest)} · {u.column}: {u.value}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="secondary" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={result.guests.length === 0}>
+            {mode === 'merge' ? 'Merge Settings' : 'Replace Settings'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsImportDialog;
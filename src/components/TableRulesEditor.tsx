@@ -0,0 +1,94 @@
+import React, { useMemo, useState } from 'react';
+import { SlidersHorizontal, X } from 'lucide-react';
+import { useApp } from '../context/AppContext';
+import type { Table, TableRule, TableRuleKind } from '../types';
+import { collectTags, collectTagDimensions, formatTag } from '../utils/guestTags';
+import { describeTableRule } from '../utils/tableRules';
+
+interface TableRulesEditorProps {
+  table: Table;
+}
+
+const TableRulesEditor: React.FC<TableRulesEditorProps> = ({ table }) => {
+  const { state, dispatch } = useApp();
+  const [isOpen, setIsOpen] = useState(false);
+  const [kind, setKind] = useState<TableRuleKind>('max');
+  const [tag, setTag] = useState('');
+  const [limit, setLimit] = useState(2);
+
+  const rules = useMemo(() => table.rules || [], [table.rules]);
+  const tags = useMemo(() => collectTags(state.guests), [state.guests]);
+  // Balance compares the values of one dimension; quotas and tag-only tables take any tag
+  const tagOptions = kind === 'balance' ? collectTagDimensions(tags) : [...collectTagDimensions(tags), ...tags];
+
+  const updateRules = (next: TableRule[]) => {
+    dispatch({ type: 'UPDATE_TABLE', payload: { id: table.id, rules: next } });
+  };
+
+  const handleAdd = () => {
+    if (!tag) return;
+    const rule: TableRule = kind === 'max' ? { kind, tag, limit: Math.max(0, limit) } : { kind, tag };
+    updateRules([...rules, rule]);
+    setTag('');
+  };
+
+  const selectClass = 'px-2 py-1 border border-[#586D78] rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-[#586D78]';
+
+  return (
+    <div className="mt-2 text-sm text-[#586D78]">
+      {rules.length > 0 && (
+        <ul className="flex flex-wrap gap-1 mb-1">
+          {rules.map((r, i) => (
+            <li key={`${r.kind}-${r.tag}`} className="inline-flex items-center bg-[#D7E5E5] rounded px-2 py-0.5 text-xs">
+              {describeTableRule(r)}
+              <button
+                className="ml-1 text-gray-500 hover:text-red-600"
+                onClick={() => updateRules(rules.filter((_, j) => j !== i))}
+                aria-label={`Remove rule: ${describeTableRule(r)}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <button className="danstyle1c-btn btn-small" onClick={() => setIsOpen(prev => !prev)}>
+        <SlidersHorizontal className="w-3 h-3 mr-1" />
+        Rules
+      </button>
+
+      {isOpen && (
+        tags.length === 0 ? (
+          <p className="mt-2 text-xs text-gray-600">Tag guests (e.g. age group or side) to add table rules.</p>
+        ) : (
+          <div className="mt-2 p-2 bg-[#D7E5E5] rounded-md flex flex-wrap items-center gap-2">
+            <select className={selectClass} value={kind} onChange={e => { setKind(e.target.value as TableRuleKind); setTag(''); }}>
+              <option value="max">At most</option>
+              <option value="only">Only</option>
+              <option value="balance">Balance</option>
+            </select>
+            {kind === 'max' && (
+              <input
+                type="number"
+                min="0"
+                max="20"
+                value={limit}
+                onChange={e => setLimit(Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+                className="px-2 py-1 border border-[#586D78] rounded-md w-14 text-sm"
+                aria-label="Most guests allowed"
+              />
+            )}
+            <select className={selectClass} value={tag} onChange={e => setTag(e.target.value)}>
+              <option value="">Choose a tag…</option>
+              {tagOptions.map(t => <option key={t} value={t}>{formatTag(t)}</option>)}
+            </select>
+            <button className="danstyle1c-btn btn-small" onClick={handleAdd} disabled={!tag}>Add</button>
+          </div>
+        )
+      )}
+    </div>
+  );
+};
+
+export default TableRulesEditor;
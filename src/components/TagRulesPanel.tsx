@@ -0,0 +1,91 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronUp, Tag, Trash2 } from 'lucide-react';
+import { useApp } from '../context/AppContext';
+import type { TagRule, TagRuleMode } from '../types';
+import { collectTags, collectTagDimensions, describeTagRule, formatTag } from '../utils/guestTags';
+
+const TagRulesPanel: React.FC = () => {
+  const { state, dispatch } = useApp();
+  const [isOpen, setIsOpen] = useState(false);
+  const [tag, setTag] = useState('');
+  const [mode, setMode] = useState<TagRuleMode>('group');
+
+  const rules = useMemo(() => state.tagRules || [], [state.tagRules]);
+  const tagOptions = useMemo(() => {
+    const tags = collectTags(state.guests);
+    return [...collectTagDimensions(tags), ...tags];
+  }, [state.guests]);
+
+  const handleAdd = () => {
+    if (!tag) return;
+    const rule: TagRule = { id: `rule-${Date.now()}`, tag, mode };
+    // sanitizeTagRules keeps one rule per tag, so re-adding a tag replaces its mode
+    dispatch({ type: 'SET_TAG_RULES', payload: [...rules, rule] });
+    setTag('');
+  };
+
+  const handleRemove = (id: string) => {
+    dispatch({ type: 'SET_TAG_RULES', payload: rules.filter(r => r.id !== id) });
+  };
+
+  const selectClass = 'px-2 py-1 border border-[#586D78] rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-[#586D78]';
+
+  return (
+    <div className="mt-4">
+      <div
+        className="flex justify-between items-center p-3 rounded-md bg-[#D7E5E5] cursor-pointer"
+        onClick={() => setIsOpen(prev => !prev)}
+      >
+        <h3 className="font-semibold text-[#586D78] flex items-center">
+          <Tag className="mr-2 h-4 w-4" />
+          Tag rules
+          {rules.length > 0 && <span className="ml-2 text-xs font-normal text-gray-600">({rules.length})</span>}
+        </h3>
+        {isOpen ? <ChevronUp className="h-5 w-5 text-[#586D78]" /> : <ChevronDown className="h-5 w-5 text-[#586D78]" />}
+      </div>
+
+      {isOpen && (
+        <div className="mt-2 p-4 bg-[#D7E5E5] rounded-md space-y-4">
+          <p className="text-sm text-gray-700">
+            Tag rules are preferences, not requirements: plans that follow them score higher.
+            Pick a whole dimension (e.g. "Any side") to apply the rule to each of its values.
+          </p>
+
+          {rules.length > 0 ? (
+            <ul className="space-y-1">
+              {rules.map(r => (
+                <li key={r.id} className="flex items-center justify-between bg-white rounded-md px-3 py-1 text-sm text-[#586D78]">
+                  <span>{describeTagRule(r)}</span>
+                  <button className="danstyle1c-btn danstyle1c-remove btn-small" onClick={() => handleRemove(r.id)}>
+                    <Trash2 className="w-3 h-3 mr-1" />
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-600">No tag rules yet.</p>
+          )}
+
+          {tagOptions.length === 0 ? (
+            <p className="text-sm text-gray-600">Add tags to guests to create rules.</p>
+          ) : (
+            <div className="flex flex-wrap items-center gap-2">
+              <select className={selectClass} value={mode} onChange={e => setMode(e.target.value as TagRuleMode)}>
+                <option value="group">Seat together</option>
+                <option value="mix">Spread across tables</option>
+              </select>
+              <select className={selectClass} value={tag} onChange={e => setTag(e.target.value)}>
+                <option value="">Choose a tag…</option>
+                {tagOptions.map(t => <option key={t} value={t}>{formatTag(t)}</option>)}
+              </select>
+              <button className="danstyle1c-btn" onClick={handleAdd} disabled={!tag}>Add Rule</button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TagRulesPanel;
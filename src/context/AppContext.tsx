@@ -8,17 +8,25 @@ import { supabase } from '../lib/supabase';
 import { deriveMode, isPremiumSubscription, type Mode } from '../utils/premium';
 import type {
   AppState, Guest, Table, Assignments, ConstraintValue,
-  UserSubscription, TrialSubscription, GuestID, TableID, LockedTableAssignments
+  UserSubscription, TrialSubscription, GuestID, TableID, LockedTableAssignments, SeatPins, GenerationProgress, TableRule, SeatingPlan
 } from '../types';
 
 import { getMostRecentState, saveMostRecentState } from '../lib/mostRecentState';
 import { countHeads } from '../utils/formatters';
 import { formatGuestUnitName } from '../utils/formatGuestName';
-import { getCapacity } from '../utils/tables';
+import { getCapacity, sanitizeTableShape } from '../utils/tables';
+import { sanitizeTableLayout } from '../utils/floorPlan';
 import { parseAssignmentIds } from '../utils/assignments';
-import { generateSeatingPlans as engineGenerate } from '../utils/seatingAlgorithm';
+import { isSoftConstraint, withPreferenceWeight } from '../utils/constraints';
+import { sanitizeGuestAttributes, sanitizeTags, sanitizeTagRules } from '../utils/guestTags';
+import { isHardTableRule, sanitizeTableRules } from '../utils/tableRules';
+import { moveGuestInPlan, startPlanEdit } from '../utils/planEditing';
+import { findSeatPin, pinGuestToSeat, sanitizeSeatPins, unpinGuest } from '../utils/seatPins';
+import { createGenerationTracker, generateSeatingPlansInWorker as engineGenerate } from '../workers/seatingWorkerClient';
+import { isAbortLikeError } from '../utils/errorUtils';
+import { createHistory, describeAppAction, resetsAppHistory, restoreAppState, snapshotAppState, withHistory } from '../utils/history';
 import MostRecentChoiceModal from '../components/MostRecentChoiceModal';
-import { saveAppState, loadAppState, exportAppState, importAppState, clearAllSavedData, getStorageStats, sanitizeAndMigrateAppState, saveLKG } from '../utils/persistence';
+import { saveAppState, loadAppState, exportAppState, importAppState, clearAllSavedData, getStorageStats, sanitizeAndMigrateAppState, sanitizeGenerationOptions, sanitizePreferenceWeights, saveLKG } from '../utils/persistence';
 
 // Inline debounce utility (no external file)
 // FIXED: Use ReturnType<typeof setTimeout> for cross-platform compatibility
@@ -74,6 +82,10 @@ function debounce<T extends (...args: any[]) => void>(
 type SessionTag = 'INITIALIZING' | 'AUTHENTICATING' | 'ANON' | 'ENTITLED' | 'ERROR';
 type AppAction = { type: string; payload?: any };
 
+// One guest's edits in an UPDATE_GUESTS batch
+type GuestPatch = { id: GuestID } & Partial<Pick<Guest, 'name' | 'attributes' | 'tags' | 'notes'>>;
+type PlanReplayResult = { success: boolean; identical: boolean; error?: string };
+
 let __entitlementsPromise: Promise<{ subscription: UserSubscription | null; trial: TrialSubscription | null }> | null = null;
 function resetEntitlementsPromise() { __entitlementsPromise = null; }
 
@@ -172,10 +184,16 @@ function applySanitizedState(s: any): AppState {
     tables: Array.isArray(s?.tables) ? s.tables : (sanitized.tables ?? []),
     constraints: s?.constraints ?? (sanitized.constraints ?? {}),
     adjacents: s?.adjacents ?? (sanitized.adjacents ?? {}),
+    preferenceWeights: s?.preferenceWeights ?? (sanitized.preferenceWeights ?? {}),
+    tagRules: Array.isArray(s?.tagRules) ? s.tagRules : (sanitized.tagRules ?? []),
     assignments: s?.assignments ?? (sanitized.assignments ?? {}),
     lockedTableAssignments: s?.lockedTableAssignments ?? (sanitized.lockedTableAssignments ?? {}),
+    seatPins: s?.seatPins ?? (sanitized.seatPins ?? {}),
+    generationOptions: sanitized.generationOptions ?? {},
     seatingPlans: Array.isArray(s?.seatingPlans) ? s.seatingPlans : (sanitized.seatingPlans ?? []),
     currentPlanIndex: typeof s?.currentPlanIndex === "number" ? s.currentPlanIndex : (sanitized.currentPlanIndex ?? 0),
+    editedPlan: s?.editedPlan ?? (sanitized.editedPlan ?? null),
+    baselinePlan: s?.baselinePlan ?? (sanitized.baselinePlan ?? null),
 
     warnings: Array.isArray(s?.warnings) ? s.warnings : (sanitized.warnings ?? []),
     // errors: Array.isArray(s?.errors) ? s.errors : (sanitized.errors ?? []), // COMMENTED: Not in AppState type
@@ -215,9 +233,9 @@ function applySanitizedState(s: any): AppState {
 }
 
 const initialState: AppState = {
-  guests: [], tables: defaultTables, constraints: {}, adjacents: {}, assignments: {},
-  lockedTableAssignments: {},
-  seatingPlans: [], currentPlanIndex: 0, subscription: undefined, trial: null, user: null,
+  guests: [], tables: defaultTables, constraints: {}, adjacents: {}, preferenceWeights: {}, tagRules: [], assignments: {},
+  lockedTableAssignments: {}, seatPins: {}, generationOptions: {},
+  seatingPlans: [], currentPlanIndex: 0, editedPlan: null, baselinePlan: null, subscription: undefined, trial: null, user: null,
   userSetTables: false, loadedSavedSetting: false, loadedRestoreDecision: false, 
   regenerationNeeded: true, isReady: false, timestamp: new Date().toISOString(),
   isSupabaseConnected: !!supabase, duplicateGuests: [], assignmentSignature: '',
@@ -225,10 +243,10 @@ const initialState: AppState = {
   conflictWarnings: [], lastGeneratedPlanSig: null, sessionVersion: 0, persistenceVersion: '1.0.0',
 };
 
-// Helper function to prune invalid references from assignments and lockedTableAssignments
-// This ensures that any assignments or locks pointing to non-existent tables are removed
+// Helper function to prune invalid references from assignments, lockedTableAssignments and seatPins
+// This ensures that any assignments, locks or pins pointing to non-existent tables are removed
 // Called after table deletion, during import/load, and optionally after renumbering
-const pruneInvalidReferences = (state: AppState): Pick<AppState, 'assignments' | 'lockedTableAssignments'> => {
+const pruneInvalidReferences = (state: AppState): Pick<AppState, 'assignments' | 'lockedTableAssignments' | 'seatPins'> => {
   // Build set of valid table IDs for fast lookup
   const validTableIds = new Set(state.tables.map(t => t.id));
   
@@ -253,8 +271,61 @@ const pruneInvalidReferences = (state: AppState): Pick<AppState, 'assignments' |
       return validTableIds.has(tableId);
     })
   );
+
+  // Clean seatPins the same way
+  const seatPins = Object.fromEntries(
+    Object.entries(state.seatPins || {}).filter(([tid]) => validTableIds.has(Number(tid)))
+  );
   
-  return { assignments, lockedTableAssignments };
+  return { assignments, lockedTableAssignments, seatPins };
+};
+
+// Locks without one guest; tables left with no locked guests are dropped
+const withoutLockedGuest = (locked: LockedTableAssignments | undefined, guestId: GuestID): LockedTableAssignments => {
+  const out: LockedTableAssignments = {};
+  Object.entries(locked || {}).forEach(([tid, ids]) => {
+    const kept = (ids || []).filter(id => id !== guestId);
+    if (kept.length > 0) out[Number(tid)] = kept;
+  });
+  return out;
+};
+
+// Guests and every reference to them (assignments, constraints, adjacency, weights, pins, locks) without the given ids
+const withoutGuests = (
+  state: AppState,
+  ids: Set<GuestID>
+): Pick<AppState, 'guests' | 'assignments' | 'constraints' | 'adjacents' | 'preferenceWeights' | 'seatPins' | 'lockedTableAssignments'> => {
+  const keep = ([gid]: [string, unknown]) => !ids.has(gid);
+  const constraints = Object.fromEntries(
+    Object.entries(state.constraints || {})
+      .filter(keep)
+      .map(([gid, row]) => [gid, Object.fromEntries(Object.entries(row || {}).filter(keep))])
+  );
+  const adjacents = Object.fromEntries(
+    Object.entries(state.adjacents || {})
+      .filter(keep)
+      .map(([gid, list]) => [gid, (list || []).filter(other => !ids.has(other))])
+  );
+  const preferenceWeights = Object.fromEntries(
+    Object.entries(state.preferenceWeights || {})
+      .filter(keep)
+      .map(([gid, row]) => [gid, Object.fromEntries(Object.entries(row).filter(keep))])
+  );
+  let seatPins = state.seatPins;
+  let lockedTableAssignments = state.lockedTableAssignments;
+  ids.forEach(id => {
+    seatPins = unpinGuest(seatPins, id);
+    lockedTableAssignments = withoutLockedGuest(lockedTableAssignments, id);
+  });
+  return {
+    guests: state.guests.filter(g => !ids.has(g.id)),
+    assignments: Object.fromEntries(Object.entries(state.assignments || {}).filter(keep)),
+    constraints,
+    adjacents,
+    preferenceWeights,
+    seatPins,
+    lockedTableAssignments,
+  };
 };
 
 const reducer = (state: AppState, action: AppAction): AppState => {
@@ -294,23 +365,29 @@ const reducer = (state: AppState, action: AppAction): AppState => {
         sessionVersion: state.sessionVersion + 1
       };
     }
-    case 'REMOVE_GUEST': {
-      const id = action.payload;
-      const guests = state.guests.filter(g => g.id !== id);
-
-      const { [id]: _x, ...assignments } = state.assignments || {};
-      const { [id]: _y, ...constraints } = state.constraints || {};
-      Object.keys(constraints).forEach(k => { if (constraints[k]) delete constraints[k][id]; });
-
-      const { [id]: _z, ...adjacents } = state.adjacents || {};
-      Object.keys(adjacents).forEach(k => { adjacents[k] = (adjacents[k] || []).filter((gid: any) => gid !== id); });
-
+    case 'ADD_GUESTS': {
+      // One batch (a pasted list or an import): new guests plus any table assignments
+      const { guests, assignments } = action.payload || {};
+      if (!Array.isArray(guests) || guests.length === 0) return state;
+      const added = (guests as Guest[]).map(g => ({ ...g, name: formatGuestUnitName(g.name) }));
+      const next: AppState = {
+        ...state,
+        guests: [...state.guests, ...added],
+        assignments: { ...state.assignments, ...(assignments || {}) },
+        regenerationNeeded: true,
+        seatingPlans: [],
+        currentPlanIndex: 0,
+        sessionVersion: state.sessionVersion + 1
+      };
+      return { ...next, ...pruneInvalidReferences(next) };
+    }
+    case 'REMOVE_GUEST':
+    case 'REMOVE_GUESTS': {
+      const ids = new Set<GuestID>(action.type === 'REMOVE_GUEST' ? [action.payload] : action.payload || []);
+      if (!state.guests.some(g => ids.has(g.id))) return state;
       return { 
         ...state, 
-        guests, 
-        assignments, 
-        constraints, 
-        adjacents, 
+        ...withoutGuests(state, ids),
         regenerationNeeded: true,
         seatingPlans: [], 
         currentPlanIndex: 0,
@@ -324,6 +401,72 @@ const reducer = (state: AppState, action: AppAction): AppState => {
       const guests = state.guests.map(g => g.id === id ? { ...g, name: formattedName, count: countHeads(formattedName) } : g);
       return { ...state, guests, seatingPlans: [], currentPlanIndex: 0, sessionVersion: state.sessionVersion + 1 };
     }
+    case 'UPDATE_GUEST_TAGS': {
+      const { id, attributes, tags } = action.payload || {};
+      const cleanAttributes = sanitizeGuestAttributes(attributes);
+      const cleanTags = sanitizeTags(tags);
+      const guests = state.guests.map(g => {
+        if (g.id !== id) return g;
+        const next: Guest = { ...g };
+        delete next.attributes;
+        delete next.tags;
+        if (cleanAttributes) next.attributes = cleanAttributes;
+        if (cleanTags) next.tags = cleanTags;
+        return next;
+      });
+      // Tags only feed soft tag rules, so plans stay valid; re-rank when any rule could care
+      const hasRules = (state.tagRules?.length ?? 0) > 0;
+      return {
+        ...state,
+        guests,
+        regenerationNeeded: hasRules ? true : state.regenerationNeeded,
+        sessionVersion: state.sessionVersion + 1
+      };
+    }
+    case 'UPDATE_GUESTS': {
+      // Several guests edited at once: [{ id, name?, attributes?, tags?, notes? }]; omitted fields are kept
+      const patches = new Map<GuestID, GuestPatch>((Array.isArray(action.payload) ? action.payload as GuestPatch[] : []).map(p => [p.id, p]));
+      if (patches.size === 0) return state;
+      let renamed = false;
+      let retagged = false;
+      const guests = state.guests.map(g => {
+        const patch = patches.get(g.id);
+        if (!patch) return g;
+        const next: Guest = { ...g };
+        if (typeof patch.name === 'string' && patch.name.trim()) {
+          next.name = formatGuestUnitName(patch.name);
+          next.count = countHeads(next.name);
+          renamed = renamed || next.name !== g.name;
+        }
+        if ('attributes' in patch) {
+          const cleanAttributes = sanitizeGuestAttributes(patch.attributes);
+          delete next.attributes;
+          if (cleanAttributes) next.attributes = cleanAttributes;
+          retagged = true;
+        }
+        if ('tags' in patch) {
+          const cleanTags = sanitizeTags(patch.tags);
+          delete next.tags;
+          if (cleanTags) next.tags = cleanTags;
+          retagged = true;
+        }
+        if ('notes' in patch) {
+          const notes = typeof patch.notes === 'string' ? patch.notes.trim() : '';
+          delete next.notes;
+          if (notes) next.notes = notes;
+        }
+        return next;
+      });
+      // Same rules as RENAME_GUEST and UPDATE_GUEST_TAGS, applied once for the batch
+      const hasRules = (state.tagRules?.length ?? 0) > 0;
+      return {
+        ...state,
+        guests,
+        ...(renamed ? { seatingPlans: [], currentPlanIndex: 0 } : {}),
+        regenerationNeeded: renamed || (retagged && hasRules) ? true : state.regenerationNeeded,
+        sessionVersion: state.sessionVersion + 1
+      };
+    }
     case 'UPDATE_ASSIGNMENT': {
       const { guestId, raw } = action.payload || {};
       const currentAssignment = state.assignments[guestId] || '';
@@ -352,7 +495,7 @@ const reducer = (state: AppState, action: AppAction): AppState => {
       };
     }
     case 'SET_SEATING_PLANS': {
-      const { plans = [], errors = [] } = action.payload || {};
+      const { plans = [], errors = [], infeasibility = null } = action.payload || {};
 
       // Normalize incoming: accept {type,message} or raw strings
       const incoming = (Array.isArray(errors) ? errors : []).map((e: any) => {
@@ -391,6 +534,7 @@ const reducer = (state: AppState, action: AppAction): AppState => {
         ...state,
         seatingPlans: plans,
         warnings: nextWarnings,
+        infeasibility: plans.length ? null : infeasibility,
         currentPlanIndex: nextPlanIndex,
         lastGeneratedSignature: state.assignmentSignature ?? null,
         regenerationNeeded: false,
@@ -398,6 +542,17 @@ const reducer = (state: AppState, action: AppAction): AppState => {
       };
     }
     case 'SET_CURRENT_PLAN_INDEX': return { ...state, currentPlanIndex: action.payload };
+    case 'GENERATION_CANCELLED':
+      // User stopped the worker: clear the pending flag so the trigger effect does not restart it
+      return { ...state, regenerationNeeded: false };
+    case 'REPLACE_SEATING_PLAN': {
+      // Swap a single plan in place (seed replay); other plans and the index are untouched
+      const { index, plan } = action.payload || {};
+      if (!plan || typeof index !== 'number' || index < 0 || index >= state.seatingPlans.length) return state;
+      const seatingPlans = state.seatingPlans.slice();
+      seatingPlans[index] = plan;
+      return { ...state, seatingPlans, sessionVersion: state.sessionVersion + 1 };
+    }
     case 'TRIGGER_REGENERATION': 
       console.log('[AppContext] TRIGGER_REGENERATION - clearing plans to force regeneration');
       return { 
@@ -407,11 +562,38 @@ const reducer = (state: AppState, action: AppAction): AppState => {
         currentPlanIndex: 0,
         sessionVersion: state.sessionVersion + 1
       };
+    case 'START_PLAN_EDIT': {
+      const source = state.seatingPlans[action.payload?.planIndex];
+      if (!source) return state;
+      return { ...state, editedPlan: startPlanEdit(source), sessionVersion: state.sessionVersion + 1 };
+    }
+    case 'MOVE_EDITED_PLAN_GUEST': {
+      const { guestId, tableId, beforeGuestId } = action.payload || {};
+      if (!state.editedPlan) return state;
+      const editedPlan = moveGuestInPlan(state.editedPlan, state.guests, guestId, tableId, beforeGuestId);
+      if (editedPlan === state.editedPlan) return state;
+      return { ...state, editedPlan, sessionVersion: state.sessionVersion + 1 };
+    }
+    case 'DISCARD_EDITED_PLAN':
+      return { ...state, editedPlan: null, sessionVersion: state.sessionVersion + 1 };
+    case 'SET_BASELINE_PLAN': {
+      // Only the seating matters for a repair; scores and moves belong to the source plan
+      const source: SeatingPlan | undefined = action.payload?.plan;
+      if (!source) return state;
+      const baselinePlan: SeatingPlan = {
+        id: source.id,
+        tables: source.tables.map(t => ({ ...t, seats: t.seats.map(seat => ({ ...seat })) })),
+      };
+      return { ...state, baselinePlan, sessionVersion: state.sessionVersion + 1 };
+    }
+    case 'CLEAR_BASELINE_PLAN':
+      return { ...state, baselinePlan: null, sessionVersion: state.sessionVersion + 1 };
     case 'LOCK_TABLE_FROM_PLAN': {
       const { tableId, planIndex } = action.payload;
       const { seatingPlans, lockedTableAssignments, guests } = state;
 
-      const plan = seatingPlans[planIndex];
+      // An explicit plan (the edited one) takes precedence over the generated plan at planIndex
+      const plan: SeatingPlan | undefined = action.payload.plan ?? seatingPlans[planIndex];
       if (!plan) {
         return state; // safe no-op
       }
@@ -459,6 +641,77 @@ const reducer = (state: AppState, action: AppAction): AppState => {
         lockedTableAssignments: nextLocked,
       };
     }
+    case 'LOCK_GUEST_TO_TABLE': {
+      const { tableId, guestId } = action.payload;
+      // A guest is locked to one table at most; the table's other seats stay open
+      const nextLocked = withoutLockedGuest(state.lockedTableAssignments, guestId);
+      nextLocked[tableId] = [...(nextLocked[tableId] ?? []), guestId];
+      const pin = findSeatPin(state.seatPins, guestId);
+      return {
+        ...state,
+        lockedTableAssignments: nextLocked,
+        seatPins: pin && pin.tableId !== tableId ? unpinGuest(state.seatPins, guestId) : state.seatPins,
+        regenerationNeeded: true,
+        sessionVersion: state.sessionVersion + 1
+      };
+    }
+    case 'UNLOCK_GUEST': {
+      const { guestId } = action.payload;
+      // A seat pin fixes the table too, so unlocking drops it as well
+      return {
+        ...state,
+        lockedTableAssignments: withoutLockedGuest(state.lockedTableAssignments, guestId),
+        seatPins: unpinGuest(state.seatPins, guestId),
+        regenerationNeeded: true,
+        sessionVersion: state.sessionVersion + 1
+      };
+    }
+    case 'PIN_SEAT': {
+      const { tableId, seat, guestId } = action.payload;
+      // A pin fixes the table too, so drop the guest from other tables' locks
+      const nextLocked: LockedTableAssignments = Object.fromEntries(
+        Object.entries(state.lockedTableAssignments || {}).map(([tid, ids]) => [
+          tid,
+          Number(tid) === tableId ? ids : (ids || []).filter(id => id !== guestId),
+        ])
+      );
+      return {
+        ...state,
+        seatPins: pinGuestToSeat(state.seatPins, guestId, tableId, seat),
+        lockedTableAssignments: nextLocked,
+        regenerationNeeded: true,
+        sessionVersion: state.sessionVersion + 1
+      };
+    }
+    case 'UNPIN_SEAT': {
+      const { guestId } = action.payload;
+      return {
+        ...state,
+        seatPins: unpinGuest(state.seatPins, guestId),
+        regenerationNeeded: true,
+        sessionVersion: state.sessionVersion + 1
+      };
+    }
+    case 'SET_GENERATION_OPTIONS': {
+      // Options change what the engine produces, so existing plans are stale
+      return {
+        ...state,
+        generationOptions: sanitizeGenerationOptions(action.payload),
+        regenerationNeeded: true,
+        seatingPlans: [],
+        currentPlanIndex: 0,
+        sessionVersion: state.sessionVersion + 1
+      };
+    }
+    case 'SET_TAG_RULES': {
+      // Tag rules are soft: keep the current plans on screen while new ones are generated
+      return {
+        ...state,
+        tagRules: sanitizeTagRules(action.payload),
+        regenerationNeeded: true,
+        sessionVersion: state.sessionVersion + 1
+      };
+    }
     case 'AUTO_RECONCILE_TABLES': return { ...state, tables: reconcileTables(state.tables, state.guests, state.assignments, state.userSetTables) };
     case 'ADD_TABLE': {
       const maxId = Math.max(0, ...state.tables.map(t => t.id || 0));
@@ -560,6 +813,13 @@ const reducer = (state: AppState, action: AppAction): AppState => {
         }
       });
 
+      // 5. Remap Seat Pins
+      const newPins: SeatPins = {};
+      Object.entries(state.seatPins || {}).forEach(([oldTidStr, seats]) => {
+        const newTid = idMap.get(parseInt(oldTidStr, 10));
+        if (newTid !== undefined) newPins[newTid] = seats;
+      });
+
       console.log('[RENUMBER_TABLES] Re-numbered tables 1..N');
       console.log('[RENUMBER_TABLES] ID mapping:', Object.fromEntries(idMap));
 
@@ -570,6 +830,7 @@ const reducer = (state: AppState, action: AppAction): AppState => {
         tables: newTables,
         assignments: newAssignments,
         lockedTableAssignments: newLocked,
+        seatPins: newPins,
         userSetTables: true,
         regenerationNeeded: true,
         seatingPlans: [],
@@ -589,17 +850,39 @@ const reducer = (state: AppState, action: AppAction): AppState => {
 
     case 'UPDATE_TABLE': {
       const { id, name, seats } = action.payload;
+      const rules = action.payload.rules !== undefined ? sanitizeTableRules(action.payload.rules) : undefined;
+      const shape = action.payload.shape !== undefined ? sanitizeTableShape(action.payload.shape) : undefined;
       const currentTable = state.tables.find(t => t.id === id);
-      const updatedTables = state.tables.map(t => 
-        t.id === id ? { ...t, ...(name !== undefined && { name }), ...(seats !== undefined && { seats }) } : t
-      );
+      const updatedTables = state.tables.map(t => {
+        if (t.id !== id) return t;
+        const next = { ...t, ...(name !== undefined && { name }), ...(seats !== undefined && { seats }) };
+        if (action.payload.rules !== undefined) {
+          if (rules) next.rules = rules; else delete next.rules;
+        }
+        if (action.payload.shape !== undefined) {
+          if (shape) next.shape = shape; else delete next.shape;
+        }
+        // Floor plan position is display only; null returns the table to its default slot
+        if (action.payload.layout !== undefined) {
+          const layout = sanitizeTableLayout(action.payload.layout);
+          if (layout) next.layout = layout; else delete next.layout;
+        }
+        return next;
+      });
       
       // Use getCapacity for comparison
       const isCapacityReduced = seats !== undefined && currentTable && 
         getCapacity({ ...currentTable, seats }) < getCapacity(currentTable);
+      // Any change to max/only rules can rule out the current plans; balance rules only re-score them
+      const hardRules = (list?: TableRule[]) => JSON.stringify((list ?? []).filter(isHardTableRule));
+      const rulesChanged = action.payload.rules !== undefined && currentTable &&
+        JSON.stringify(currentTable.rules ?? []) !== JSON.stringify(rules ?? []);
+      const hardRulesChanged = rulesChanged && hardRules(currentTable.rules) !== hardRules(rules);
+      // A new shape changes who sits beside whom, not who fits: re-rank the current plans
+      const shapeChanged = action.payload.shape !== undefined && currentTable && currentTable.shape !== shape;
       
-      if (isCapacityReduced) {
-        console.log(`[Table Change] Reducing capacity ${currentTable.seats} → ${seats} - regenerating plans (constraint addition)`);
+      if (isCapacityReduced || hardRulesChanged) {
+        console.log(`[Table Change] Reducing capacity or changing table rules - regenerating plans (constraint addition)`);
         return { 
           ...state, 
           tables: updatedTables, 
@@ -616,12 +899,44 @@ const reducer = (state: AppState, action: AppAction): AppState => {
           ...state, 
           tables: updatedTables, 
           userSetTables: true,
+          ...((rulesChanged || shapeChanged) && { regenerationNeeded: true }),
           sessionVersion: state.sessionVersion + 1
         };
       }
     }
     case 'SET_USER_SET_TABLES': return { ...state, userSetTables: action.payload };
 
+    case 'APPLY_SETTINGS_IMPORT': {
+      // Guests, tables and rules from resolveSettingsImport; ids of matched guests are kept
+      const { guests, tables, constraints, adjacents, assignments, preferenceWeights } = action.payload;
+      const keptIds = new Set((guests as Guest[]).map(g => g.id));
+      let lockedTableAssignments = state.lockedTableAssignments;
+      let seatPins = state.seatPins;
+      state.guests.forEach(g => {
+        if (keptIds.has(g.id)) return;
+        lockedTableAssignments = withoutLockedGuest(lockedTableAssignments, g.id);
+        seatPins = unpinGuest(seatPins, g.id);
+      });
+      const next: AppState = {
+        ...state,
+        guests: (guests as Guest[]).map(g => ({ ...g, name: formatGuestUnitName(g.name) })),
+        tables,
+        constraints,
+        adjacents,
+        assignments,
+        preferenceWeights: sanitizePreferenceWeights(preferenceWeights),
+        lockedTableAssignments,
+        seatPins,
+        userSetTables: true,
+        duplicateGuests: [],
+        regenerationNeeded: true,
+        seatingPlans: [],
+        currentPlanIndex: 0,
+        sessionVersion: state.sessionVersion + 1
+      };
+      return { ...next, ...pruneInvalidReferences(next) };
+    }
+
     case 'IMPORT_STATE':
     case 'LOAD_MOST_RECENT':
     case 'LOAD_SAVED_SETTING': {
@@ -656,8 +971,21 @@ const reducer = (state: AppState, action: AppAction): AppState => {
       
       // CRITICAL FIX: Ensure loaded settings always use their own tables (prevent parameter bleeding)
       // We prioritize incoming tables if they exist, regardless of the userSetTables flag from prior state
-      const tablesToUse = Array.isArray(incoming.tables) && incoming.tables.length > 0 
-        ? incoming.tables 
+      // Rules, shapes and positions come from storage, so they get the same checks as a restore
+      const tablesToUse: Table[] = Array.isArray(incoming.tables) && incoming.tables.length > 0 
+        ? incoming.tables.map((t: Table) => {
+            const rules = sanitizeTableRules(t.rules);
+            const shape = sanitizeTableShape(t.shape);
+            const layout = sanitizeTableLayout(t.layout);
+            return {
+              id: t.id,
+              seats: t.seats,
+              name: t.name,
+              ...(rules && { rules }),
+              ...(shape && { shape }),
+              ...(layout && { layout })
+            };
+          })
         : state.tables;
       
       console.log(`[LOAD_MOST_RECENT-${executionId}] Table load strategy:`, {
@@ -693,6 +1021,10 @@ const reducer = (state: AppState, action: AppAction): AppState => {
         // Only regenerate if NO plans were loaded
         regenerationNeeded: !hasIncomingPlans,
         warnings: hasIncomingPlans ? (incoming.warnings ?? []) : [],
+        generationOptions: sanitizeGenerationOptions(incoming.generationOptions),
+        preferenceWeights: sanitizePreferenceWeights(incoming.preferenceWeights),
+        tagRules: sanitizeTagRules(incoming.tagRules),
+        seatPins: sanitizeSeatPins(incoming.seatPins),
         sessionVersion: preservedSessionVersion,
         persistenceVersion: incoming.persistenceVersion || '1.0.0'
       };
@@ -738,7 +1070,7 @@ const reducer = (state: AppState, action: AppAction): AppState => {
       return { ...initialState, user: state.user, subscription: state.subscription, trial: state.trial };
 
     case 'CYCLE_CONSTRAINT': {
-      const { a, b, mode } = action.payload;
+      const { a, b, mode, weight } = action.payload;
       const newConstraints: Record<string, Record<string, ConstraintValue>> = JSON.parse(JSON.stringify(state.constraints));
       const newAdjacents: Record<string, string[]> = JSON.parse(JSON.stringify(state.adjacents));
       const current = newConstraints[a]?.[b] || '';
@@ -747,7 +1079,10 @@ const reducer = (state: AppState, action: AppAction): AppState => {
       let currentStateForCycle: string = current;
       if (isCurrentlyAdjacent) currentStateForCycle = 'adjacent';
 
-      const cycle = mode === 'premium' ? ['', 'must', 'adjacent', 'cannot'] : ['', 'must', 'cannot'];
+      // Soft preferences come after the hard states so the familiar clicks are unchanged
+      const cycle = mode === 'premium'
+        ? ['', 'must', 'adjacent', 'cannot', 'prefer', 'avoid']
+        : ['', 'must', 'cannot', 'prefer', 'avoid'];
       const currentIndex = cycle.indexOf(currentStateForCycle);
       const nextState = cycle[(currentIndex + 1) % cycle.length];
 
@@ -761,7 +1096,7 @@ const reducer = (state: AppState, action: AppAction): AppState => {
       if (newAdjacents[a]) newAdjacents[a] = newAdjacents[a].filter((id: string) => id !== b);
       if (newAdjacents[b]) newAdjacents[b] = newAdjacents[b].filter((id: string) => id !== a);
 
-      if (nextState === 'must' || nextState === 'cannot') {
+      if (nextState === 'must' || nextState === 'cannot' || isSoftConstraint(nextState)) {
         (newConstraints[a] ||= {})[b] = nextState as ConstraintValue;
         (newConstraints[b] ||= {})[a] = nextState as ConstraintValue;
       } else if (nextState === 'adjacent' && mode === 'premium') {
@@ -773,15 +1108,24 @@ const reducer = (state: AppState, action: AppAction): AppState => {
         if (!newAdjacents[b].includes(a)) newAdjacents[b].push(a);
       }
 
-      // ASYMMETRIC REGENERATION: Only clear plans when adding/changing constraints
-      const isStricter = (nextState !== '' && currentStateForCycle === '') || 
-                         (nextState !== '' && currentStateForCycle !== '' && nextState !== currentStateForCycle);
+      const preferenceWeights = withPreferenceWeight(
+        state.preferenceWeights, a, b, isSoftConstraint(nextState) ? (weight ?? 1) : null
+      );
+
+      // ASYMMETRIC REGENERATION: Only clear plans when adding/changing hard constraints.
+      // Soft preferences never invalidate a plan, so keep it on screen while re-ranking.
+      const isStricter = !isSoftConstraint(nextState) && (
+        (nextState !== '' && currentStateForCycle === '') || 
+        (nextState !== '' && currentStateForCycle !== '' && nextState !== currentStateForCycle)
+      );
+      const softChanged = isSoftConstraint(nextState) || isSoftConstraint(currentStateForCycle);
       
       return { 
         ...state, 
         constraints: newConstraints, 
         adjacents: newAdjacents, 
-        regenerationNeeded: isStricter ? true : state.regenerationNeeded,
+        preferenceWeights,
+        regenerationNeeded: isStricter || softChanged ? true : state.regenerationNeeded,
         seatingPlans: isStricter ? [] : state.seatingPlans,
         currentPlanIndex: isStricter ? 0 : state.currentPlanIndex,
         sessionVersion: state.sessionVersion + 1
@@ -789,10 +1133,11 @@ const reducer = (state: AppState, action: AppAction): AppState => {
     }
 
     case 'SET_CONSTRAINT': {
-      const { guest1, guest2, value } = action.payload as {
+      const { guest1, guest2, value, weight } = action.payload as {
         guest1: string;
         guest2: string;
         value: ConstraintValue;
+        weight?: number;
       };
 
       if (!guest1 || !guest2 || guest1 === guest2) return state;
@@ -825,18 +1170,28 @@ const reducer = (state: AppState, action: AppAction): AppState => {
         (newConstraints[guest2] ||= {})[guest1] = nextState;
       }
 
-      const changed = (nextState !== current) || isCurrentlyAdjacent;
+      const currentWeight = state.preferenceWeights?.[guest1]?.[guest2];
+      const weightChanged = isSoftConstraint(nextState) && weight !== undefined && weight !== currentWeight;
+      const changed = (nextState !== current) || isCurrentlyAdjacent || weightChanged;
       if (!changed) return state;
 
-      const isStricter =
+      const preferenceWeights = withPreferenceWeight(
+        state.preferenceWeights, guest1, guest2,
+        isSoftConstraint(nextState) ? (weight ?? currentWeight ?? 1) : null
+      );
+
+      const isStricter = !isSoftConstraint(nextState) && (
         (nextState !== '' && currentForStrictness === '') ||
-        (nextState !== '' && currentForStrictness !== '' && nextState !== currentForStrictness);
+        (nextState !== '' && currentForStrictness !== '' && nextState !== currentForStrictness)
+      );
+      const softChanged = isSoftConstraint(nextState) || isSoftConstraint(currentForStrictness);
 
       return {
         ...state,
         constraints: newConstraints,
         adjacents: newAdjacents,
-        regenerationNeeded: isStricter ? true : state.regenerationNeeded,
+        preferenceWeights,
+        regenerationNeeded: isStricter || softChanged ? true : state.regenerationNeeded,
         seatingPlans: isStricter ? [] : state.seatingPlans,
         currentPlanIndex: isStricter ? 0 : state.currentPlanIndex,
         sessionVersion: state.sessionVersion + 1,
@@ -847,6 +1202,22 @@ const reducer = (state: AppState, action: AppAction): AppState => {
   }
 };
 
+// Every edit the user makes can be undone; see describeAppAction for what counts as one
+const historyReducer = withHistory(reducer, {
+  describe: describeAppAction,
+  snapshot: snapshotAppState,
+  restore: restoreAppState,
+  resets: resetsAppHistory,
+});
+
+// Shortcuts typed into a text field undo the typing, not the app state
+const isTextEditingTarget = (target: EventTarget | null): boolean => {
+  const el = target as HTMLElement | null;
+  return !!el && (el.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName));
+};
+
+type UndoHistory = { undo: string[]; redo: string[] }; // step labels, oldest undo first, next redo first
+
 const AppContext = createContext<{
   state: AppState; dispatch: React.Dispatch<AppAction>; mode: Mode; sessionTag: SessionTag; isPremium: boolean;
   // Persistence utilities
@@ -855,10 +1226,14 @@ const AppContext = createContext<{
   clearAllData: () => void;
   getStorageStats: () => { localStorage: number; backups: number; indexedDBAvailable: boolean };
   isInitialized: boolean;
+  undoHistory: UndoHistory;
+  undo: (steps?: number) => void;
+  redo: (steps?: number) => void;
 } | undefined>(undefined);
 
 export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [state, dispatch] = useReducer(reducer, initialState);
+  const [history, dispatch] = useReducer(historyReducer, initialState, createHistory);
+  const state = history.present;
   const [sessionTag, setSessionTag] = useState<SessionTag>('INITIALIZING');
   const sessionTagRef = useRef<SessionTag>('INITIALIZING');
   const [fatalError] = useState<Error | null>(null);
@@ -874,16 +1249,22 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       tables: rest.tables || [],
       constraints: rest.constraints || {},
       adjacents: rest.adjacents || {},
+      preferenceWeights: rest.preferenceWeights || {},
+      tagRules: rest.tagRules || [],
       assignments: rest.assignments || {},
+      seatPins: rest.seatPins || {},
       userSetTables: rest.userSetTables || false,
       seatingPlans: rest.seatingPlans || [],
       currentPlanIndex: rest.currentPlanIndex || 0,
+      editedPlan: rest.editedPlan ?? null,
+      baselinePlan: rest.baselinePlan ?? null,
       warnings: rest.warnings || [],
       conflictWarnings: rest.conflictWarnings || [],
       duplicateGuests: rest.duplicateGuests || [],
       assignmentSignature: rest.assignmentSignature || '',
       lastGeneratedSignature: rest.lastGeneratedSignature || null,
       hideTableReductionNotice: rest.hideTableReductionNotice || false,
+      generationOptions: rest.generationOptions || {},
     };
   }, [state]);
 
@@ -914,7 +1295,8 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   
   // State management
   const stateRef = useRef(state);
-  const genRef = useRef(0); // Generation counter
+  const genTracker = useMemo(createGenerationTracker, []); // The run whose result still counts
+  const [generationProgress, setGenerationProgress] = useState<GenerationProgress | null>(null);
   
   // NEW: Modal state and refs
   const isMountedRef = useRef(true);
@@ -1210,7 +1592,8 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     if (!s.isReady || !s.loadedRestoreDecision || !s.regenerationNeeded) return;
     if (s.guests.length === 0 || s.tables.length === 0) return;
     
-    const genId = ++genRef.current;
+    const run = genTracker.start();
+    setGenerationProgress(null);
     
     if (process.env.NODE_ENV === 'development') {
       console.log('[Generator] Running:', {
@@ -1226,17 +1609,31 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       tables: s.tables,
       constraints: s.constraints,
       adjacents: s.adjacents,
+      preferenceWeights: s.preferenceWeights || {},
+      tagRules: s.tagRules || [],
       assignments: s.assignments,
       lockedTableAssignments: s.lockedTableAssignments || {},
-      isPremium: isPremiumSubscription(s.subscription, s.trial)
-    }).then(({ plans, errors }) => {
-      if (genId === genRef.current) {
-        dispatch({ type: 'SET_SEATING_PLANS', payload: { plans, errors } });
+      seatPins: s.seatPins || {},
+      repairBaseline: s.baselinePlan ?? undefined,
+      isPremium: isPremiumSubscription(s.subscription, s.trial),
+      options: s.generationOptions || {}
+    }, {
+      signal: run.signal,
+      onProgress: (progress) => {
+        if (genTracker.isCurrent(run)) setGenerationProgress(progress);
+      }
+    }).then(({ plans, errors, infeasibility }) => {
+      if (genTracker.isCurrent(run)) {
+        setGenerationProgress(null);
+        dispatch({ type: 'SET_SEATING_PLANS', payload: { plans, errors, infeasibility } });
       }
     }).catch((err) => {
+      // Cancelled or superseded: whoever aborted owns the state update
+      if (isAbortLikeError(err)) return;
       console.error('[Generator] Failed:', err);
+      if (genTracker.isCurrent(run)) setGenerationProgress(null);
       // CRITICAL: Always dispatch to set regenerationNeeded to false, even on error
-      if (genId === genRef.current) {
+      if (genTracker.isCurrent(run)) {
         dispatch({ 
           type: 'SET_SEATING_PLANS', 
           payload: { 
@@ -1249,7 +1646,7 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         });
       }
     });
-  }, [dispatch]);
+  }, [dispatch, genTracker]);
 
   // Debounced wrapper
   const debouncedGeneratePlansWrapper = useMemo(() => {
@@ -1258,8 +1655,24 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
 
   // Cleanup
   useEffect(() => {
-    return () => { debouncedGeneratePlansWrapper.cancel(); };
-  }, [debouncedGeneratePlansWrapper]);
+    return () => {
+      debouncedGeneratePlansWrapper.cancel();
+      genTracker.stop();
+    };
+  }, [debouncedGeneratePlansWrapper, genTracker]);
+
+  // Stops the pending and in-flight runs so neither can deliver plans
+  const stopGeneration = useCallback(() => {
+    debouncedGeneratePlansWrapper.cancel();
+    genTracker.stop();
+    setGenerationProgress(null);
+  }, [debouncedGeneratePlansWrapper, genTracker]);
+
+  // Cancel helper - stops the worker and settles regeneration without touching plans
+  const cancelGeneration = useCallback(() => {
+    stopGeneration();
+    dispatch({ type: 'GENERATION_CANCELLED' });
+  }, [stopGeneration, dispatch]);
 
   // Trigger effect - use state.isReady (single source of truth)
   useEffect(() => {
@@ -1273,6 +1686,8 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     state.guests,
     state.constraints,
     state.adjacents,
+    state.preferenceWeights,
+    state.tagRules,
     state.assignments,
     state.tables,
     state.regenerationNeeded,
@@ -1317,6 +1732,70 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     dispatch({ type: 'TRIGGER_REGENERATION' });
   }, [dispatch]);
 
+  // Replay helper - rebuilds a plan from its recorded seed against the current inputs
+  const replayPlanFromSeed = useCallback(async (planIndex: number): Promise<PlanReplayResult> => {
+    const s = stateRef.current;
+    const original = s.seatingPlans[planIndex];
+    if (!original || typeof original.seedUsed !== 'number') {
+      return { success: false, identical: false, error: 'This plan has no recorded seed.' };
+    }
+    const { plans, errors } = await engineGenerate({
+      guests: s.guests,
+      tables: s.tables,
+      constraints: s.constraints,
+      adjacents: s.adjacents,
+      preferenceWeights: s.preferenceWeights || {},
+      tagRules: s.tagRules || [],
+      assignments: s.assignments,
+      lockedTableAssignments: s.lockedTableAssignments || {},
+      seatPins: s.seatPins || {},
+      isPremium: isPremiumSubscription(s.subscription, s.trial),
+      options: { ...(s.generationOptions || {}), replaySeed: original.seedUsed, replaySteps: original.improvementSteps }
+    });
+    const rebuilt = plans[0];
+    if (!rebuilt) {
+      const reason = errors.find(e => e.type === 'error')?.message;
+      return { success: false, identical: false, error: reason || 'The seed no longer produces a valid plan for the current guests and constraints.' };
+    }
+    // Plans may have been regenerated, edited or undone while the replay ran
+    const current = stateRef.current.seatingPlans[planIndex];
+    if (current !== original) {
+      return { success: false, identical: false, error: 'The plans changed while this plan was being rebuilt. Try again.' };
+    }
+    const plan = { ...rebuilt, id: original.id };
+    const identical = JSON.stringify(plan.tables) === JSON.stringify(original.tables);
+    dispatch({ type: 'REPLACE_SEATING_PLAN', payload: { index: planIndex, plan } });
+    return { success: true, identical };
+  }, [dispatch]);
+
+  // Undo/redo
+  const undoHistory = useMemo<UndoHistory>(
+    () => ({ undo: history.past.map(e => e.label), redo: history.future.map(e => e.label) }),
+    [history.past, history.future]
+  );
+  // A run started before the step would land its plans on the restored state
+  const undo = useCallback((steps = 1) => {
+    stopGeneration();
+    dispatch({ type: 'UNDO', payload: steps });
+  }, [stopGeneration, dispatch]);
+  const redo = useCallback((steps = 1) => {
+    stopGeneration();
+    dispatch({ type: 'REDO', payload: steps });
+  }, [stopGeneration, dispatch]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextEditingTarget(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) undo();
+      else if ((key === 'z' && e.shiftKey) || key === 'y') redo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undo, redo]);
+
   const mode = useMemo(() => deriveMode(state.user, state.subscription, state.trial), [state.user, state.subscription, state.trial]);
   const value = useMemo(() => ({ 
     state, dispatch, mode, sessionTag, isPremium,
@@ -1328,8 +1807,16 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     isInitialized,
     // Lock table helpers
     lockTableFromCurrentPlan,
-    unlockTable
-  }), [state, mode, sessionTag, isPremium, isInitialized, lockTableFromCurrentPlan, unlockTable]);
+    unlockTable,
+    replayPlanFromSeed,
+    // Background generation
+    generationProgress,
+    cancelGeneration,
+    // Undo/redo
+    undoHistory,
+    undo,
+    redo
+  }), [state, mode, sessionTag, isPremium, isInitialized, lockTableFromCurrentPlan, unlockTable, replayPlanFromSeed, generationProgress, cancelGeneration, undoHistory, undo, redo]);
 
   // Show loading screen during initialization instead of invisible gate (fixes blank screen on reload)
   if (sessionTag === 'INITIALIZING' || sessionTag === 'AUTHENTICATING') {
@@ -1436,6 +1923,12 @@ export function useApp(): {
   isInitialized: boolean;
   lockTableFromCurrentPlan: (tableId: TableID) => void;
   unlockTable: (tableId: TableID) => void;
+  replayPlanFromSeed: (planIndex: number) => Promise<PlanReplayResult>;
+  generationProgress: GenerationProgress | null;
+  cancelGeneration: () => void;
+  undoHistory: UndoHistory;
+  undo: (steps?: number) => void;
+  redo: (steps?: number) => void;
 } {
   const ctx = useContext(AppContext);
   if (!ctx) throw new Error('useApp must be used within AppProvider');
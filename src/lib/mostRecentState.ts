@@ -18,10 +18,13 @@ export async function saveMostRecentState(
     version: "1.0",
     timestamp: new Date().toISOString(),
     guests: state.guests,
-    tables: state.tables.map((t) => ({ id: t.id, seats: t.seats, name: t.name })),
+    tables: state.tables,
     constraints: state.constraints,
     adjacents: state.adjacents,
+    preferenceWeights: state.preferenceWeights || {},
+    tagRules: state.tagRules || [],
     assignments: state.assignments,
+    generationOptions: state.generationOptions || {},
     seatingPlans: state.seatingPlans,
     currentPlanIndex: state.currentPlanIndex,
     userSetTables: state.userSetTables,
@@ -10,6 +10,7 @@ import { getLastNameForSorting, formatTableAssignment } from '../utils/formatter
 import SavedSettingsAccordion from '../components/SavedSettingsAccordion';
 import FormatGuestName from '../components/FormatGuestName';
 import { formatGuestUnitName } from '../utils/formatGuestName';
+import { getPreferenceWeight, MIN_PREFERENCE_WEIGHT, MAX_PREFERENCE_WEIGHT } from '../utils/constraints';
 
 // Sort options
 type SortOption = 'as-entered' | 'first-name' | 'last-name' | 'current-table';
@@ -22,6 +23,8 @@ const ConstraintManager: React.FC = () => {
   const [selectedGuest, setSelectedGuest] = useState<string | null>(null);
   const [highlightedPair, setHighlightedPair] = useState<{guest1: string, guest2: string} | null>(null);
   const [highlightTimeout, setHighlightTimeout] = useState<NodeJS.Timeout | null>(null);
+  // Strength applied when a click lands on "prefer together" / "prefer apart"
+  const [preferenceStrength, setPreferenceStrength] = useState(MIN_PREFERENCE_WEIGHT);
   const gridRef = useRef<HTMLDivElement>(null);
   
   // ID ↔ Name mapping for display only (UI still shows names)
@@ -402,6 +405,15 @@ const ConstraintManager: React.FC = () => {
             // Must without adjacency remains green with '&'
             bgColor = 'bg-[#22cf04]';
             cellContent = <span className="text-black font-bold">&</span>;
+          } else if (constraintValue === 'prefer' || constraintValue === 'avoid') {
+            // Soft preferences: pale colours, strength shown as repeated marks
+            const strength = getPreferenceWeight(state.preferenceWeights, guest1.id, guest2.id);
+            bgColor = constraintValue === 'prefer' ? 'bg-[#bbf7d0]' : 'bg-[#fecaca]';
+            cellContent = (
+              <span className="text-black font-bold" title={`Prefer ${constraintValue === 'prefer' ? 'together' : 'apart'} (strength ${strength})`}>
+                {(constraintValue === 'prefer' ? '+' : '−').repeat(strength)}
+              </span>
+            );
           } else if (hasAdj && mode === 'unsigned') {
             // Unsigned mode: adjacency shouldn't exist, but if it does, show nothing
             bgColor = '';
@@ -578,7 +590,7 @@ const ConstraintManager: React.FC = () => {
         </div>
       </div>
     );
-  }, [state.guests, state.constraints, state.adjacents, selectedGuest, highlightedPair, currentPage, totalPages, sortOption, isPremium, state.seatingPlans, state.assignments, state.tables, state.currentPlanIndex, isWarningExpanded, initialWarningShown]);
+  }, [state.guests, state.constraints, state.adjacents, state.preferenceWeights, selectedGuest, highlightedPair, currentPage, totalPages, sortOption, isPremium, state.seatingPlans, state.assignments, state.tables, state.currentPlanIndex, isWarningExpanded, initialWarningShown]);
   
   let longPressTimer: NodeJS.Timeout;
   
@@ -614,7 +626,7 @@ const ConstraintManager: React.FC = () => {
     if (guest1Id === guest2Id) return;
 
     // SSoT: Use mode-aware CYCLE_CONSTRAINT action
-    dispatch({ type: 'CYCLE_CONSTRAINT', payload: { a: guest1Id, b: guest2Id, mode } });
+    dispatch({ type: 'CYCLE_CONSTRAINT', payload: { a: guest1Id, b: guest2Id, mode, weight: preferenceStrength } });
     
     // Auto-purge plans on change (keeps behavior consistent)
     dispatch({ type: 'SET_SEATING_PLANS', payload: [] });
@@ -662,8 +674,8 @@ const ConstraintManager: React.FC = () => {
       const currentConstraint = state.constraints[selectedGuestId]?.[guestId] ?? '';
       
       if (currentConstraint !== 'must') {
-        // Set to must first
-        dispatch({ type: 'CYCLE_CONSTRAINT', payload: { a: selectedGuestId, b: guestId, mode } });
+        // Set to must first (cycling would walk through cannot/prefer/avoid)
+        dispatch({ type: 'SET_CONSTRAINT', payload: { guest1: selectedGuestId, guest2: guestId, value: 'must' } });
         // Then cycle again to get to adjacent
         dispatch({ type: 'CYCLE_CONSTRAINT', payload: { a: selectedGuestId, b: guestId, mode } });
       } else {
@@ -726,6 +738,22 @@ const ConstraintManager: React.FC = () => {
                     </span>
                     <span>Cannot sit at the same table</span>
                   </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <span className="inline-flex items-center justify-center"
+                          style={{ width: '1.5em', height: '1.5em', background: '#bbf7d0', border: '2px solid #000', lineHeight: '1.5em' }}
+                          aria-label="Prefer together">
+                      +
+                    </span>
+                    <span>Prefer together, if possible</span>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <span className="inline-flex items-center justify-center"
+                          style={{ width: '1.5em', height: '1.5em', background: '#fecaca', border: '2px solid #000', lineHeight: '1.5em' }}
+                          aria-label="Prefer apart">
+                      −
+                    </span>
+                    <span>Prefer apart, if possible</span>
+                  </div>
                   <div className="flex items-center gap-2 flex-shrink-0">
                     <span className="inline-flex items-center justify-center"
                           style={{ width: '1.5em', height: '1.5em', background: '#ffffff', border: '2px solid #000', lineHeight: '1.5em' }}
@@ -735,6 +763,18 @@ const ConstraintManager: React.FC = () => {
                   </div>
                 </div>
               </div>
+              <div className="mt-2 flex flex-wrap items-center gap-2">
+                <span>Preference strength for new + / − cells:</span>
+                {Array.from({ length: MAX_PREFERENCE_WEIGHT - MIN_PREFERENCE_WEIGHT + 1 }, (_, i) => MIN_PREFERENCE_WEIGHT + i).map(w => (
+                  <button
+                    key={w}
+                    className={preferenceStrength === w ? 'danstyle1c-btn selected' : 'danstyle1c-btn'}
+                    onClick={() => setPreferenceStrength(w)}
+                  >
+                    {w}
+                  </button>
+                ))}
+              </div>
               {mode !== 'unsigned' && (
                 <ul className="list-disc pl-5 mt-2">
                   <li>To set "Adjacent Seating" (guests sit right next to each other):
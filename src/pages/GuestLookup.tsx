@@ -0,0 +1,138 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Search, Printer, Maximize, Minimize, X } from 'lucide-react';
+import Card from '../components/Card';
+import { useApp } from '../context/AppContext';
+import { buildGuestLookup, filterGuestLookup, GuestLookupEntry } from '../utils/guestLookup';
+import { tableLabelById } from '../utils/tables';
+
+const GuestLookup: React.FC = () => {
+  const { state } = useApp();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [query, setQuery] = useState('');
+  const [useEdited, setUseEdited] = useState(true);
+  const [isFullScreen, setIsFullScreen] = useState(false);
+
+  // The hand-edited plan is the one that goes to the venue when there is one
+  const generatedPlan = state.seatingPlans[state.currentPlanIndex] ?? state.seatingPlans[0];
+  const plan = (useEdited && state.editedPlan) || generatedPlan || state.editedPlan || null;
+
+  const entries = useMemo(
+    () => (plan ? buildGuestLookup(plan, tableId => tableLabelById(state.tables, tableId)) : []),
+    [plan, state.tables]
+  );
+  const matches = useMemo(() => filterGuestLookup(entries, query), [entries, query]);
+
+  const groups = useMemo(() => {
+    const out: { letter: string; entries: GuestLookupEntry[] }[] = [];
+    for (const entry of matches) {
+      const last = out[out.length - 1];
+      if (last && last.letter === entry.letter) last.entries.push(entry);
+      else out.push({ letter: entry.letter, entries: [entry] });
+    }
+    return out;
+  }, [matches]);
+
+  useEffect(() => {
+    const onChange = () => setIsFullScreen(document.fullscreenElement === containerRef.current);
+    document.addEventListener('fullscreenchange', onChange);
+    return () => document.removeEventListener('fullscreenchange', onChange);
+  }, []);
+
+  const toggleFullScreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => {});
+    } else {
+      containerRef.current?.requestFullscreen().catch(() => {});
+    }
+  };
+
+  const seatText = (entry: GuestLookupEntry) =>
+    entry.seats.length === 1 ? `Seat ${entry.seats[0]}` : `Seats ${entry.seats.join(', ')}`;
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold text-[#586D78] flex items-center print:hidden">
+        <Search className="mr-2" />
+        Find Your Seat
+      </h1>
+
+      <Card>
+        <div ref={containerRef} className={isFullScreen ? 'bg-white h-full overflow-auto p-8' : ''}>
+          <div className="flex flex-wrap items-center gap-2 mb-4 print:hidden">
+            <div className="relative flex-grow min-w-[200px]">
+              <Search className="w-5 h-5 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+              <input
+                type="search"
+                value={query}
+                onChange={e => setQuery(e.target.value)}
+                placeholder="Type a name or table"
+                aria-label="Search guests"
+                className={`w-full pl-10 pr-10 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#586D78] ${isFullScreen ? 'text-2xl py-4' : ''}`}
+                autoFocus
+              />
+              {query && (
+                <button
+                  className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400 hover:text-gray-600"
+                  onClick={() => setQuery('')}
+                  aria-label="Clear search"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              )}
+            </div>
+            {state.editedPlan && generatedPlan && (
+              <button className="danstyle1c-btn" onClick={() => setUseEdited(prev => !prev)}>
+                {useEdited ? `Use plan ${state.currentPlanIndex + 1}` : 'Use edited plan'}
+              </button>
+            )}
+            <button className="danstyle1c-btn" onClick={() => window.print()} disabled={entries.length === 0}>
+              <Printer className="w-4 h-4 mr-2" />
+              Print
+            </button>
+            <button className="danstyle1c-btn" onClick={toggleFullScreen}>
+              {isFullScreen ? <Minimize className="w-4 h-4 mr-2" /> : <Maximize className="w-4 h-4 mr-2" />}
+              {isFullScreen ? 'Exit full screen' : 'Full screen'}
+            </button>
+          </div>
+
+          {!plan ? (
+            <p className="text-gray-600">Generate a seating plan to build the guest index.</p>
+          ) : matches.length === 0 ? (
+            <p className={`text-gray-600 ${isFullScreen ? 'text-2xl' : ''}`}>No guest matches “{query}”.</p>
+          ) : (
+            <div className={`columns-1 sm:columns-2 ${isFullScreen ? 'lg:columns-2' : 'lg:columns-3'} gap-8 print:columns-2`}>
+              {groups.map(group => (
+                <section key={group.letter} className="break-inside-avoid-column mb-4">
+                  <h2 className={`font-bold text-[#586D78] border-b border-indigo-200 mb-1 ${isFullScreen ? 'text-3xl' : 'text-lg'}`}>
+                    {group.letter}
+                  </h2>
+                  <ul>
+                    {group.entries.map(entry => (
+                      <li
+                        key={`${entry.tableId}-${entry.key}`}
+                        className={`flex justify-between gap-4 py-1 border-b border-gray-100 break-inside-avoid ${isFullScreen ? 'text-2xl py-2' : ''}`}
+                      >
+                        <span>
+                          <span className="font-medium">{entry.name}</span>
+                          {entry.members.length > 1 && (
+                            <span className="block text-sm text-gray-600">{entry.members.join(', ')}</span>
+                          )}
+                        </span>
+                        <span className="text-right whitespace-nowrap">
+                          <span className="font-bold text-[#586D78]">{entry.table}</span>
+                          <span className="block text-xs text-gray-500">{seatText(entry)}</span>
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              ))}
+            </div>
+          )}
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default GuestLookup;
@@ -1,10 +1,14 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
-import { AlertCircle, Edit2, Info, Trash2, X, Play, Users, Crown, Upload } from 'lucide-react';
+import { AlertCircle, Edit2, Info, Trash2, X, Play, Users, Crown, Upload, Tag } from 'lucide-react';
 import Card from '../components/Card';
 import Button from '../components/Button';
 import AuthModal from '../components/AuthModal';
 import SavedSettingsAccordion from '../components/SavedSettingsAccordion';
 import FormatGuestName from '../components/FormatGuestName';
+import GuestTagEditor from '../components/GuestTagEditor';
+import TagRulesPanel from '../components/TagRulesPanel';
+import SettingsImportDialog from '../components/SettingsImportDialog';
+import GuestImportWizard from '../components/GuestImportWizard';
 import { useApp } from '../context/AppContext';
 import { supabase } from '../lib/supabase';
 import { redirectToCheckout } from '../lib/stripe';
@@ -13,8 +17,15 @@ import { clearRecentSessionSettings } from '../lib/sessionSettings';
 import { getLastNameForSorting } from '../utils/formatters';
 import { getDisplayName, countHeads } from '../utils/guestCount';
 import { formatGuestUnitName } from '../utils/formatGuestName';
+import { addGuestTags, collectTags, formatTag, getGuestTags, guestHasTag, removeGuestTag } from '../utils/guestTags';
+import { isSettingsCSV, parseSettingsCSV, SettingsCSV } from '../utils/importSettings';
+import { isTabularText } from '../utils/guestImport';
+import { readXlsx, XlsxSheet } from '../utils/xlsx';
+import type { Guest } from '../types';
 
-type SortOption = 'as-entered' | 'first-name' | 'last-name' | 'current-table';
+type SortOption = 'as-entered' | 'first-name' | 'last-name' | 'current-table' | 'tag';
+
+const UNTAGGED_FILTER = '__untagged__';
 
 const normalizeName = (name: string) => name.trim().toLowerCase();
 
@@ -103,10 +114,17 @@ const GuestManager: React.FC = () => {
   const [editingGuestId, setEditingGuestId] = useState<string | null>(null);
   const [editingGuestName, setEditingGuestName] = useState('');
   const [sortOption, setSortOption] = useState<SortOption>('last-name');
+  const [tagFilter, setTagFilter] = useState('');
+  const [taggingGuestId, setTaggingGuestId] = useState<string | null>(null);
   const [showLimitModal, setShowLimitModal] = useState(false);
   const [localDuplicates, setLocalDuplicates] = useState<string[]>([]);
   const [showDuplicateWarning, setShowDuplicateWarning] = useState(false);
   const [importError, setImportError] = useState<string | null>(null);
+  const [settingsImport, setSettingsImport] = useState<{ fileName: string; file: SettingsCSV } | null>(null);
+  const [guestImport, setGuestImport] = useState<{ fileName: string; text?: string; sheets?: XlsxSheet[] } | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const [bulkTag, setBulkTag] = useState('');
+  const [showBulkDeleteConfirm, setShowBulkDeleteConfirm] = useState(false);
   const videoRef = useRef<HTMLIFrameElement>(null);
   const realtimeSubscriptionRef = useRef<any>(null);
   const pulsingArrowTimeout = useRef<number | null>(null);
@@ -119,7 +137,7 @@ const GuestManager: React.FC = () => {
   // Mode-aware sorting options (SSoT)
   const allowedSortOptions: SortOption[] = mode === 'unsigned'
     ? ['first-name', 'last-name']
-    : ['first-name', 'last-name', 'as-entered', 'current-table'];
+    : ['first-name', 'last-name', 'as-entered', 'current-table', 'tag'];
 
   // If current sort became disallowed (e.g., downgrade), coerce safely
   useEffect(() => {
@@ -299,6 +317,7 @@ const GuestManager: React.FC = () => {
     const lines = guestInput.split(/[\n,]/).map(line => line.trim()).filter(line => line.length > 0);
     const seen = new Set(state.guests.map((g) => normalizeName(g.name)));
     const duplicates = [];
+    const guests: Guest[] = [];
     for (const line of lines) {
       const parsed = parseGuestLine(line);
       if (parsed) {
@@ -307,17 +326,16 @@ const GuestManager: React.FC = () => {
           duplicates.push(parsed.name);
         } else {
           seen.add(norm);
-          dispatch({ 
-            type: 'ADD_GUEST', 
-            payload: {
-              id: crypto.randomUUID(),
-              name: parsed.name,
-              count: parsed.count
-            }
+          guests.push({
+            id: crypto.randomUUID(),
+            name: parsed.name,
+            count: parsed.count
           });
         }
       }
     }
+    // One dispatch for the whole list keeps it a single change
+    if (guests.length > 0) dispatch({ type: 'ADD_GUESTS', payload: { guests } });
     setLocalDuplicates(duplicates);
     setGuestInput('');
   };
@@ -326,10 +344,54 @@ const GuestManager: React.FC = () => {
     const file = event.target.files?.[0];
     if (!file) return;
 
+    // Excel workbooks go straight to the column mapping wizard, one sheet at a time
+    if (/\.xlsx$/i.test(file.name)) {
+      file.arrayBuffer()
+        .then(readXlsx)
+        .then(sheets => {
+          if (sheets.every(sheet => sheet.rows.length === 0)) {
+            setImportError('The workbook has no data.');
+            return;
+          }
+          setGuestImport({ fileName: file.name, sheets });
+          setImportError(null);
+        })
+        .catch(error => {
+          console.error('Error reading workbook:', error);
+          setImportError(error instanceof Error ? error.message : 'Could not read the Excel file.');
+        })
+        .finally(() => {
+          if (fileInputRef.current) fileInputRef.current.value = '';
+        });
+      return;
+    }
+
     const reader = new FileReader();
     reader.onload = (e) => {
       try {
         const content = e.target?.result as string;
+
+        // A settings export (guest list + table sections) gets the preview dialog
+        if (isSettingsCSV(content)) {
+          const parsed = parseSettingsCSV(content);
+          if (parsed.guests.length > 0) {
+            setSettingsImport({ fileName: file.name, file: parsed });
+            setImportError(null);
+          } else {
+            setImportError('The settings file has no guests in its guest list section.');
+          }
+          if (fileInputRef.current) fileInputRef.current.value = '';
+          return;
+        }
+
+        // Spreadsheet exports with several columns go through the column mapping wizard
+        if (isTabularText(content)) {
+          setGuestImport({ fileName: file.name, text: content });
+          setImportError(null);
+          if (fileInputRef.current) fileInputRef.current.value = '';
+          return;
+        }
+
         const lines = content.split('\n').filter(line => line.trim());
         
         const guests = [];
@@ -345,10 +407,8 @@ const GuestManager: React.FC = () => {
         }
 
         if (guests.length > 0) {
-          guests.forEach(guest => {
-            dispatch({ type: 'ADD_GUEST', payload: guest });
-          });
-          
+          dispatch({ type: 'ADD_GUESTS', payload: { guests } });
+
           setImportError(null);
         } else {
           setImportError('No valid guests found in the file.');
@@ -398,6 +458,33 @@ const GuestManager: React.FC = () => {
     clearRecentSessionSettings(state.user?.id);
     setShowClearConfirm(false);
   };
+
+  // Multi-select: bulk edits go out as one REMOVE_GUESTS / UPDATE_GUESTS dispatch
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+  const selectedGuests = state.guests.filter(g => selectedIds.has(g.id));
+  const selectedTags = collectTags(selectedGuests);
+  const handleBulkAddTag = () => {
+    if (!bulkTag.trim() || selectedGuests.length === 0) return;
+    dispatch({ type: 'UPDATE_GUESTS', payload: selectedGuests.map(g => ({ id: g.id, ...addGuestTags(g, bulkTag) })) });
+    setBulkTag('');
+  };
+  const handleBulkRemoveTag = (tag: string) => {
+    const tagged = selectedGuests.filter(g => guestHasTag(g, tag));
+    if (!tag || tagged.length === 0) return;
+    dispatch({ type: 'UPDATE_GUESTS', payload: tagged.map(g => ({ id: g.id, ...removeGuestTag(g, tag) })) });
+  };
+  const confirmBulkDelete = () => {
+    dispatch({ type: 'REMOVE_GUESTS', payload: Array.from(selectedIds) });
+    setSelectedIds(new Set());
+    setShowBulkDeleteConfirm(false);
+  };
   const handleUpgrade = async () => {
     if (!state.user) {
       setShowAuthModal(true);
@@ -406,8 +493,27 @@ const GuestManager: React.FC = () => {
     await redirectToCheckout(state.user.email);
   };
 
+  const allTags = useMemo(() => collectTags(state.guests), [state.guests]);
+
+  // Forget selected guests that were removed
+  useEffect(() => {
+    setSelectedIds(prev => {
+      const ids = new Set(state.guests.map(g => g.id));
+      return Array.from(prev).every(id => ids.has(id)) ? prev : new Set(Array.from(prev).filter(id => ids.has(id)));
+    });
+  }, [state.guests]);
+
+  // Drop a filter whose tag no longer exists
+  useEffect(() => {
+    if (tagFilter && tagFilter !== UNTAGGED_FILTER && !allTags.includes(tagFilter)) setTagFilter('');
+  }, [allTags, tagFilter]);
+
   const sortedGuests = useMemo(() => {
-    const guests = [...state.guests];
+    const guests = tagFilter === UNTAGGED_FILTER
+      ? state.guests.filter(g => getGuestTags(g).length === 0)
+      : tagFilter
+        ? state.guests.filter(g => guestHasTag(g, tagFilter))
+        : [...state.guests];
       if (sortOption === 'first-name') {
       return guests.sort((a, b) => a.name.localeCompare(b.name));
     } else if (sortOption === 'last-name') {
@@ -419,9 +525,16 @@ const GuestManager: React.FC = () => {
         const keyB = currentTableKey(b.id, state.seatingPlans?.[state.currentPlanIndex], state.assignments);
         return keyA === keyB ? 0 : keyA < keyB ? -1 : 1;
       });
+    } else if (sortOption === 'tag') {
+      // Group by first tag (alphabetical), untagged guests last
+      const firstTag = (g: typeof guests[number]) => getGuestTags(g).slice().sort()[0] ?? '\uffff';
+      return guests.sort((a, b) =>
+        firstTag(a).localeCompare(firstTag(b)) ||
+        getLastNameForSorting(a.name).localeCompare(getLastNameForSorting(b.name))
+      );
     }
     return guests;
-  }, [state.guests, sortOption, state.seatingPlans, state.currentPlanIndex, state.assignments]);
+  }, [state.guests, sortOption, tagFilter, state.seatingPlans, state.currentPlanIndex, state.assignments]);
   const monthYear = new Date().toLocaleString('default', { month: 'long', year: 'numeric' });
   return (
     <div className="space-y-6 relative">
@@ -520,7 +633,7 @@ Conseula & Cory & Cleon Lee, Darren Winnik+4"
                   type="file"
                   ref={fileInputRef}
                   onChange={handleFileUpload}
-                  accept=".csv,.txt"
+                  accept=".csv,.tsv,.txt,.xlsx"
                   className="hidden"
                 />
                 
@@ -652,7 +765,7 @@ Conseula & Cory & Cleon Lee, Darren Winnik+4"
                   type="file"
                   ref={fileInputRef}
                   onChange={handleFileUpload}
-                  accept=".csv,.txt"
+                  accept=".csv,.tsv,.txt,.xlsx"
                   className="hidden"
                 />
                 
@@ -702,7 +815,7 @@ Conseula & Cory & Cleon Lee, Darren Winnik+4"
       {state.user && <SavedSettingsAccordion />}
 
       <Card title="Guest List" className="relative">
-        <div className="flex items-center gap-4 mb-4">
+        <div className="flex flex-wrap items-center gap-4 mb-4">
           <div className="flex items-center gap-2">
             <Users className="w-5 h-5" />
             <span>{sortedGuests.length} Invitations ({totalGuests} Seats)</span>
@@ -742,8 +855,88 @@ Conseula & Cory & Cleon Lee, Darren Winnik+4"
                 By Table
               </button>
             )}
+            {allowedSortOptions.includes('tag') && (
+              <button
+                onClick={() => setSortOption('tag')}
+                className={`danstyle1c-btn ${sortOption === 'tag' ? 'selected' : ''}`}
+              >
+                By Tag
+              </button>
+            )}
           </div>
+
+          {allTags.length > 0 && (
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-gray-700 font-medium">Show:</span>
+              <select
+                value={tagFilter}
+                onChange={(e) => setTagFilter(e.target.value)}
+                className="px-2 py-1 border border-[#586D78] rounded-md text-sm text-[#586D78]"
+              >
+                <option value="">All guests</option>
+                {allTags.map(t => <option key={t} value={t}>{formatTag(t)}</option>)}
+                <option value={UNTAGGED_FILTER}>Untagged</option>
+              </select>
+            </div>
+          )}
         </div>
+
+        {sortedGuests.length > 0 && (
+          <div className="flex flex-wrap items-center gap-3 mb-4 text-sm text-[#586D78]">
+            <label className="flex items-center font-medium cursor-pointer">
+              <input
+                type="checkbox"
+                className="mr-2"
+                checked={sortedGuests.every(g => selectedIds.has(g.id))}
+                onChange={(e) => {
+                  const shown = sortedGuests.map(g => g.id);
+                  setSelectedIds(prev => {
+                    const next = new Set(prev);
+                    shown.forEach(id => (e.target.checked ? next.add(id) : next.delete(id)));
+                    return next;
+                  });
+                }}
+              />
+              Select all shown
+            </label>
+            {selectedIds.size > 0 && (
+              <>
+                <span>{selectedIds.size} selected</span>
+                <button className="danstyle1c-btn btn-small" onClick={() => setSelectedIds(new Set())}>
+                  Clear selection
+                </button>
+                <input
+                  type="text"
+                  value={bulkTag}
+                  onChange={(e) => setBulkTag(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleBulkAddTag(); }}
+                  placeholder="Tags, comma separated"
+                  className="px-2 py-1 border border-[#586D78] rounded-md"
+                />
+                <button className="danstyle1c-btn btn-small" onClick={handleBulkAddTag} disabled={!bulkTag.trim()}>
+                  <Tag className="w-3 h-3 mr-1" />
+                  Add Tag
+                </button>
+                {selectedTags.length > 0 && (
+                  <select
+                    value=""
+                    onChange={(e) => handleBulkRemoveTag(e.target.value)}
+                    className="px-2 py-1 border border-[#586D78] rounded-md"
+                    aria-label="Remove a tag from the selected guests"
+                  >
+                    <option value="">Remove tag…</option>
+                    {selectedTags.map(t => <option key={t} value={t}>{formatTag(t)}</option>)}
+                  </select>
+                )}
+                <button className="danstyle1c-btn danstyle1c-remove btn-small" onClick={() => setShowBulkDeleteConfirm(true)}>
+                  <Trash2 className="w-3 h-3 mr-1" />
+                  Remove Selected
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
           {sortedGuests.map((guest, index) => {
             const isEditing = editingGuestId === guest.id;
@@ -751,9 +944,17 @@ Conseula & Cory & Cleon Lee, Darren Winnik+4"
             return (
               <div 
                 key={`${guest.name}-${index}`}
-                className="border border-[#586D78] border-[0.5px] rounded-lg p-4 flex flex-col items-start bg-white shadow"
+                className={`relative border border-[#586D78] border-[0.5px] rounded-lg p-4 flex flex-col items-start bg-white shadow ${selectedIds.has(guest.id) ? 'ring-2 ring-[#586D78]' : ''}`}
                 onDoubleClick={() => beginEdit(guest.id, guest.name)}
               >
+                <input
+                  type="checkbox"
+                  className="absolute top-2 right-2"
+                  checked={selectedIds.has(guest.id)}
+                  onChange={() => toggleSelected(guest.id)}
+                  onDoubleClick={(e) => e.stopPropagation()}
+                  aria-label={`Select ${guest.name}`}
+                />
                 {isEditing ? (
                 <input
                     type="text"
@@ -779,6 +980,22 @@ Conseula & Cory & Cleon Lee, Darren Winnik+4"
                   </span>
                 )}
 
+                {getGuestTags(guest).length > 0 && (
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {getGuestTags(guest).map(t => (
+                      <span key={t} className="text-xs px-2 py-0.5 rounded-full bg-[#D7E5E5] text-[#586D78]">{formatTag(t)}</span>
+                    ))}
+                  </div>
+                )}
+
+                {guest.notes && (
+                  <p className="text-xs text-gray-600 italic mt-1 break-words">{guest.notes}</p>
+                )}
+
+                {taggingGuestId === guest.id && (
+                  <GuestTagEditor guest={guest} onClose={() => setTaggingGuestId(null)} />
+                )}
+
                 <div className="flex justify-between items-end w-full mt-auto">
                   <div className="flex flex-col">
                     {guest.count > 1 && (
@@ -789,18 +1006,28 @@ Conseula & Cory & Cleon Lee, Darren Winnik+4"
                     <span className={`text-sm ${label === 'Unassigned' ? 'text-gray-400' : 'text-gray-700'}`} style={label === 'Unassigned' ? { opacity: 0.4 } : {}}>Table: {label}</span>
                   </div>
                   
-                  <button
-                    className="danstyle1c-btn danstyle1c-remove btn-small"
-                    onClick={() => handleRemoveGuest(guest.id)}
-                  >
-                    <Trash2 className="w-3 h-3 mr-1" />
-                    Remove
-                  </button>
+                  <div className="flex gap-1">
+                    <button
+                      className="danstyle1c-btn btn-small"
+                      onClick={() => setTaggingGuestId(prev => (prev === guest.id ? null : guest.id))}
+                    >
+                      <Tag className="w-3 h-3 mr-1" />
+                      Tags
+                    </button>
+                    <button
+                      className="danstyle1c-btn danstyle1c-remove btn-small"
+                      onClick={() => handleRemoveGuest(guest.id)}
+                    >
+                      <Trash2 className="w-3 h-3 mr-1" />
+                      Remove
+                    </button>
+                  </div>
                 </div>
               </div>
             );
           })}
             </div>
+        <TagRulesPanel />
         <div className="mt-4 flex justify-end">
           <Button variant="danger" onClick={handleClearAll}>
             <Trash2 className="w-4 h-4 mr-2" />
@@ -877,7 +1104,7 @@ Conseula & Cory & Cleon Lee, Darren Winnik+4"
             <h3 className="text-xl font-bold mb-4 text-[#586D78]">Confirm Clear Guest List</h3>
             <p className="text-gray-700 mb-6">
               This will remove all guests and reset all constraints, assignments, and seating plans.
-            This action cannot be undone.
+            You can undo this from History in the menu bar.
             </p>
             <div className="flex justify-end space-x-2">
               <Button variant="secondary" onClick={() => setShowClearConfirm(false)}>
@@ -892,8 +1119,46 @@ Conseula & Cory & Cleon Lee, Darren Winnik+4"
         </div>
       )}
 
+      {showBulkDeleteConfirm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-lg p-6 max-w-md w-full shadow-2xl">
+            <h3 className="text-xl font-bold mb-4 text-[#586D78]">Remove Selected Guests</h3>
+            <p className="text-gray-700 mb-6">
+              This will remove {selectedIds.size} {selectedIds.size === 1 ? 'guest' : 'guests'} along with their constraints, assignments, locks and pins.
+            </p>
+            <div className="flex justify-end space-x-2">
+              <Button variant="secondary" onClick={() => setShowBulkDeleteConfirm(false)}>
+                Cancel
+              </Button>
+              <Button variant="danger" onClick={confirmBulkDelete}>
+                Remove {selectedIds.size} {selectedIds.size === 1 ? 'Guest' : 'Guests'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {showAuthModal && <AuthModal onClose={() => setShowAuthModal(false)} />}
 
+      {settingsImport && (
+        <SettingsImportDialog
+          fileName={settingsImport.fileName}
+          file={settingsImport.file}
+          isPremium={isPremium}
+          onClose={() => setSettingsImport(null)}
+        />
+      )}
+
+      {guestImport && (
+        <GuestImportWizard
+          fileName={guestImport.fileName}
+          text={guestImport.text}
+          sheets={guestImport.sheets}
+          isPremium={isPremium}
+          onClose={() => setGuestImport(null)}
+        />
+      )}
+
       {showLimitModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white 
@@ -0,0 +1,232 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, ArrowRight, Columns } from 'lucide-react';
+import Card from '../components/Card';
+import { useApp } from '../context/AppContext';
+import { supabase } from '../lib/supabase';
+import { isAbortLikeError } from '../utils/errorUtils';
+import { diffSeatingPlans, isEmptyPlanDiff } from '../utils/planDiff';
+import { tableLabelById } from '../utils/tables';
+import { getDisplayName } from '../utils/guestCount';
+import type { Guest, SeatingPlan } from '../types';
+
+interface SavedPlanSetting {
+  id: string;
+  name: string;
+  updated_at: string;
+  data: { guests?: Guest[]; seatingPlans?: SeatingPlan[]; currentPlanIndex?: number } | null;
+}
+
+interface PlanSource {
+  value: string;   // plan:<index> | edited | baseline | saved:<setting id>
+  label: string;
+  plan: SeatingPlan;
+  guests: Guest[];
+}
+
+// The plan a saved setting was showing when it was saved
+const savedSettingPlan = (setting: SavedPlanSetting): SeatingPlan | undefined => {
+  const plans = Array.isArray(setting.data?.seatingPlans) ? setting.data.seatingPlans : [];
+  const index = typeof setting.data?.currentPlanIndex === 'number' ? setting.data.currentPlanIndex : 0;
+  const plan = plans[index] ?? plans[0];
+  return plan && Array.isArray(plan.tables) ? plan : undefined;
+};
+
+const PlanDiff: React.FC = () => {
+  const { state } = useApp();
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [savedSettings, setSavedSettings] = useState<SavedPlanSetting[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const userId = state.user?.id;
+
+  useEffect(() => {
+    if (!userId) {
+      setSavedSettings([]);
+      return;
+    }
+    const ac = new AbortController();
+    supabase
+      .from('saved_settings')
+      .select('id, name, updated_at, data')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false })
+      .limit(50)
+      .abortSignal(ac.signal)
+      .then(({ data, error }) => {
+        if (error) {
+          if (!isAbortLikeError(error)) setLoadError(error.message || 'Failed to load saved settings.');
+          return;
+        }
+        setSavedSettings(data ?? []);
+      });
+    return () => ac.abort();
+  }, [userId]);
+
+  const sources = useMemo(() => {
+    const out: PlanSource[] = state.seatingPlans.map((plan, index) => ({
+      value: `plan:${index}`,
+      label: `Plan ${index + 1}`,
+      plan,
+      guests: state.guests,
+    }));
+    if (state.editedPlan) out.push({ value: 'edited', label: 'Edited plan', plan: state.editedPlan, guests: state.guests });
+    if (state.baselinePlan) out.push({ value: 'baseline', label: 'Baseline plan', plan: state.baselinePlan, guests: state.guests });
+    for (const setting of savedSettings) {
+      const plan = savedSettingPlan(setting);
+      if (!plan) continue;
+      out.push({
+        value: `saved:${setting.id}`,
+        label: `Saved: ${setting.name} (${new Date(setting.updated_at).toLocaleDateString()})`,
+        plan,
+        guests: Array.isArray(setting.data?.guests) ? setting.data.guests : [],
+      });
+    }
+    return out;
+  }, [state.seatingPlans, state.editedPlan, state.baselinePlan, state.guests, savedSettings]);
+
+  // Default to the plan being viewed against the one after it (or the edited plan)
+  const fallbackFrom = `plan:${state.currentPlanIndex}`;
+  const fallbackTo = state.seatingPlans.length > state.currentPlanIndex + 1
+    ? `plan:${state.currentPlanIndex + 1}`
+    : state.editedPlan ? 'edited' : fallbackFrom;
+  const fromValue = searchParams.get('from') ?? fallbackFrom;
+  const toValue = searchParams.get('to') ?? fallbackTo;
+  const from = sources.find(s => s.value === fromValue);
+  const to = sources.find(s => s.value === toValue);
+
+  const diff = useMemo(() => {
+    if (!from || !to) return null;
+    // Names resolve against both guest lists so saved plans line up with the current one
+    return diffSeatingPlans(from.plan, to.plan, [...to.guests, ...from.guests]);
+  }, [from, to]);
+
+  const setSource = (key: 'from' | 'to', value: string) => {
+    const next = new URLSearchParams(searchParams);
+    next.set('from', key === 'from' ? value : fromValue);
+    next.set('to', key === 'to' ? value : toValue);
+    setSearchParams(next, { replace: true });
+  };
+
+  const tableLabel = (tableId: number) => tableLabelById(state.tables, tableId);
+
+  const renderSelect = (key: 'from' | 'to', value: string, label: string) => (
+    <label className="flex flex-col text-sm text-[#586D78] font-medium">
+      {label}
+      <select
+        className="mt-1 px-3 py-2 border border-gray-300 rounded-md font-normal"
+        value={value}
+        onChange={e => setSource(key, e.target.value)}
+      >
+        {!sources.some(s => s.value === value) && <option value={value}>Not available</option>}
+        {sources.map(s => (
+          <option key={s.value} value={s.value}>{s.label}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  const renderNames = (names: { key: string; name: string }[], className: string) =>
+    names.length === 0
+      ? <span className="text-gray-400">—</span>
+      : names.map((g, i) => (
+          <span key={g.key} className={className}>
+            {i > 0 && ', '}
+            {getDisplayName(g.name)}
+          </span>
+        ));
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-bold text-[#586D78] flex items-center">
+        <Columns className="mr-2" />
+        Plan Differences
+      </h1>
+
+      <Card title="Compare Two Plans">
+        <div className="flex flex-wrap items-end gap-4 mb-4">
+          {renderSelect('from', fromValue, 'Before')}
+          <ArrowRight className="w-5 h-5 mb-2 text-[#586D78]" />
+          {renderSelect('to', toValue, 'After')}
+          <button className="danstyle1c-btn" onClick={() => navigate('/seating')}>
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to seating plans
+          </button>
+        </div>
+        {loadError && <p className="text-sm text-red-700 mb-2">{loadError}</p>}
+        {sources.length === 0 && (
+          <p className="text-sm text-gray-600">Generate a seating plan or save a setting to compare plans.</p>
+        )}
+
+        {diff && (isEmptyPlanDiff(diff) ? (
+          <p className="text-sm text-green-800">Both plans put every guest at the same table; only seat order may differ.</p>
+        ) : (
+          <div className="space-y-4 text-sm">
+            <p className="text-[#586D78]">
+              {diff.moved.length} moved · {diff.unseated.length} no longer seated · {diff.seated.length} newly seated ·{' '}
+              {diff.tables.length} {diff.tables.length === 1 ? 'table' : 'tables'} changed
+            </p>
+
+            {diff.moved.length > 0 && (
+              <div>
+                <h3 className="font-semibold text-[#586D78] mb-1">Moved guests</h3>
+                <ul className="list-disc pl-5 space-y-0.5">
+                  {diff.moved.map(m => (
+                    <li key={m.key}>
+                      {getDisplayName(m.name)}: {tableLabel(m.fromTableId)} → {tableLabel(m.toTableId)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {diff.unseated.length > 0 && (
+              <div>
+                <h3 className="font-semibold text-red-700 mb-1">No longer seated</h3>
+                <ul className="list-disc pl-5 space-y-0.5">
+                  {diff.unseated.map(g => (
+                    <li key={g.key}>{getDisplayName(g.name)} (was at {tableLabel(g.fromTableId)})</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {diff.seated.length > 0 && (
+              <div>
+                <h3 className="font-semibold text-[#586D78] mb-1">Newly seated</h3>
+                <ul className="list-disc pl-5 space-y-0.5">
+                  {diff.seated.map(g => (
+                    <li key={g.key}>{getDisplayName(g.name)} at {tableLabel(g.toTableId)}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full border-collapse">
+                <thead>
+                  <tr>
+                    <th className="p-2 border border-indigo-200 bg-indigo-100 text-[#586D78] font-medium text-left">Table</th>
+                    <th className="p-2 border border-indigo-200 bg-indigo-100 text-[#586D78] font-medium text-left">Joined</th>
+                    <th className="p-2 border border-indigo-200 bg-indigo-100 text-[#586D78] font-medium text-left">Left</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {diff.tables.map(t => (
+                    <tr key={t.tableId}>
+                      <td className="p-2 border border-indigo-200 text-[#586D78] font-medium align-top">{tableLabel(t.tableId)}</td>
+                      <td className="p-2 border border-indigo-200 align-top">{renderNames(t.joined, 'text-green-800')}</td>
+                      <td className="p-2 border border-indigo-200 align-top">{renderNames(t.left, 'text-red-700')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        ))}
+      </Card>
+    </div>
+  );
+};
+
+export default PlanDiff;
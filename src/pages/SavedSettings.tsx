@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { Save, FolderOpen, Edit2, Copy, Trash2, AlertCircle, Crown, RefreshCw } from 'lucide-react';
+import { Save, FolderOpen, Edit2, Copy, Trash2, AlertCircle, Crown, RefreshCw, Columns } from 'lucide-react';
 import Card from '../components/Card';
 import Button from '../components/Button';
 import { useApp } from '../context/AppContext';
@@ -206,15 +206,15 @@ const SavedSettings: React.FC = () => {
       const settingData = {
         version: "1.0",
         guests: state.guests,
-        tables: state.tables.map(table => ({
-          id: table.id,
-          seats: table.seats,
-          name: table.name
-        })),
+        tables: state.tables,
         constraints: state.constraints,
         adjacents: state.adjacents,
+        preferenceWeights: state.preferenceWeights || {},
+        tagRules: state.tagRules || [],
         assignments: state.assignments,
         lockedTableAssignments: state.lockedTableAssignments || {},
+        seatPins: state.seatPins || {},
+        generationOptions: state.generationOptions || {},
         seatingPlans: state.seatingPlans,
         currentPlanIndex: state.currentPlanIndex,
         userSetTables: state.userSetTables
@@ -638,6 +638,19 @@ const SavedSettings: React.FC = () => {
                         <Copy className="w-4 h-4 mr-2" />
                         Duplicate
                       </button>
+                      {Array.isArray(setting.data?.seatingPlans) && setting.data.seatingPlans.length > 0 && (
+                        <button
+                          className="danstyle1c-btn"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            navigate(`/plan-diff?from=saved:${setting.id}&to=plan:${state.currentPlanIndex}`);
+                          }}
+                          title="See who moved between this saved plan and the current one"
+                        >
+                          <Columns className="w-4 h-4 mr-2" />
+                          Compare
+                        </button>
+                      )}
                       <button
                         className="danstyle1c-btn danstyle1c-remove"
                         onClick={(e) => {
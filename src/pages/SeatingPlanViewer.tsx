@@ -1,10 +1,20 @@
-import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { MapPin, ArrowLeft, ArrowRight, RefreshCw, AlertCircle, ChevronLeft, ChevronRight } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { MapPin, ArrowLeft, ArrowRight, RefreshCw, AlertCircle, ChevronLeft, ChevronRight, Printer, Download } from 'lucide-react';
 import Card from '../components/Card';
-import { getCapacity } from '../utils/tables';
-import { generateSeatingPlans } from '../utils/seatingAlgorithm';
+import { displayTableLabel, getCapacity, lockedSeatCount } from '../utils/tables';
+import { getDefaultGenerationOptions } from '../utils/seatingAlgorithm';
 import { ValidationError } from '../types';
 import SavedSettingsAccordion from '../components/SavedSettingsAccordion';
+import AdvancedGenerationPanel from '../components/AdvancedGenerationPanel';
+import PlanScorecard from '../components/PlanScorecard';
+import PlanComparison from '../components/PlanComparison';
+import InfeasibilityExplainer from '../components/InfeasibilityExplainer';
+import FloorPlan from '../components/FloorPlan';
+import { moveGuestInPlan, validateEditedPlan } from '../utils/planEditing';
+import { seatsByIndex } from '../utils/seatPins';
+import { PrintCardKind, printPlanCards } from '../utils/printCards';
+import { downloadPDF, exportPlanToPDF } from '../utils/pdfExport';
 import { seatingTokensFromGuestUnit, nOfNTokensFromSuffix } from '../utils/formatters';
 import { computePlanSignature } from '../utils/planSignature';
 import FormatGuestName from '../components/FormatGuestName';
@@ -244,20 +254,18 @@ const formatGuestNameForSeat = (rawName: string, seatIndex: number): React.React
     }
 };
 
-const displayTableLabel = (table: { id: number; name?: string | null }, index: number): string => {
-    const displayNumber = index + 1;
-    const baseLabel = `Table #${displayNumber}`;
-    if (!table.name || table.name.trim() === '' || table.name.trim().toLowerCase() === `table ${displayNumber}`) {
-      return baseLabel;
-    }
-    return `Table #${displayNumber} (${table.name.trim()})`;
-};
-
 
 const SeatingPlanViewer: React.FC = () => {
-  const { state, dispatch, mode, sessionTag, lockTableFromCurrentPlan, unlockTable } = useApp();
+  const { state, dispatch, mode, sessionTag, lockTableFromCurrentPlan, unlockTable, replayPlanFromSeed, generationProgress, cancelGeneration } = useApp();
+  const navigate = useNavigate();
   const [isGenerating, setIsGenerating] = useState(false);
   const [errors, setErrors] = useState<ValidationError[]>([]);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const [replayMessage, setReplayMessage] = useState<{ ok: boolean; text: string } | null>(null);
+  const [planView, setPlanView] = useState<'grid' | 'floor'>('grid');
+  const [showEdited, setShowEdited] = useState(false);
+  const [dragGuestId, setDragGuestId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ tableId: number; beforeGuestId: string | null } | null>(null);
   
   // B1: Add refs for state-driven completion
   const lastSeenSignatureRef = useRef<string | null>(null);
@@ -271,7 +279,13 @@ const SeatingPlanViewer: React.FC = () => {
   const safeSeatingPlans = state.seatingPlans || [];
   const safeCurrentPlanIndex = state.currentPlanIndex || 0;
 
-  const plan = safeSeatingPlans[safeCurrentPlanIndex] ?? null;
+  const generatedPlan = safeSeatingPlans[safeCurrentPlanIndex] ?? null;
+  const editedPlan = state.editedPlan ?? null;
+  const isEditing = showEdited && !!editedPlan;
+  const plan = isEditing ? editedPlan : generatedPlan;
+
+  // Plan count honours per-setting overrides from the Advanced generation panel
+  const targetPlans = state.generationOptions?.targetPlans ?? getDefaultGenerationOptions(isPremium).targetPlans;
 
   // Mode-aware: Signal mount to trigger auto-generation (SSoT)
   useEffect(() => {
@@ -311,18 +325,153 @@ const SeatingPlanViewer: React.FC = () => {
     return { numberOfGuests, numberOfSeats };
   }, [plan, state.guests, capacityById]);
 
+  const tableLabelForChecks = useCallback((tableId: number): string => {
+    const index = state.tables.findIndex(t => t.id === tableId);
+    return displayTableLabel({ id: tableId, name: state.tables[index]?.name }, index >= 0 ? index : tableId - 1);
+  }, [state.tables]);
+
+  const planCheckInputs = useMemo(() => ({
+    guests: state.guests,
+    tables: state.tables,
+    constraints: state.constraints,
+    adjacents: state.adjacents,
+    assignments: state.assignments,
+    lockedTableAssignments: state.lockedTableAssignments,
+    seatPins: state.seatPins,
+  }), [state.guests, state.tables, state.constraints, state.adjacents, state.assignments, state.lockedTableAssignments, state.seatPins]);
+
+  // Live validation of the hand-edited plan
+  const editIssues = useMemo(
+    () => (editedPlan ? validateEditedPlan(editedPlan, planCheckInputs, tableLabelForChecks) : []),
+    [editedPlan, planCheckInputs, tableLabelForChecks]
+  );
+
+  // What the hovered drop would change: issues it adds, or a capacity block
+  const dropPreview = useMemo(() => {
+    if (!editedPlan || !dragGuestId || !dropTarget) return null;
+    const guest = state.guests.find(g => g.id === dragGuestId);
+    const target = editedPlan.tables.find(t => t.id === dropTarget.tableId);
+    if (!guest || !target) return null;
+    const capacity = target.capacity || capacityById.get(target.id) || 0;
+    const alreadyThere = target.seats.some(s => s.id === guest.id);
+    if (!alreadyThere && target.seats.length + Math.max(1, guest.count) > capacity) {
+      return { allowed: false, added: [`${tableLabelForChecks(target.id)} has no room for ${getDisplayName(guest.name)}`] };
+    }
+    const next = moveGuestInPlan(editedPlan, state.guests, guest.id, dropTarget.tableId, dropTarget.beforeGuestId);
+    const before = new Set(editIssues.map(e => e.message));
+    const added = validateEditedPlan(next, planCheckInputs, tableLabelForChecks)
+      .filter(e => e.type === 'error' && !before.has(e.message))
+      .map(e => e.message);
+    return { allowed: true, added };
+  }, [editedPlan, dragGuestId, dropTarget, state.guests, editIssues, planCheckInputs, capacityById, tableLabelForChecks]);
+
   // Lock table helpers
   const isTableLocked = (tableId: number): boolean => {
     return !!(state.lockedTableAssignments?.[tableId]?.length);
   };
 
+  // Every guest seated at the table is locked there (a whole-table lock)
+  const isTableFullyLocked = (tableId: number, seats: { id?: string }[]): boolean => {
+    const locked = new Set((state.lockedTableAssignments?.[tableId] ?? []).map(String));
+    return locked.size > 0 && seats.every(s => s.id != null && locked.has(String(s.id)));
+  };
+
+  const handleGuestLockToggle = (tableId: number, guestId: string) => {
+    const locked = (state.lockedTableAssignments?.[tableId] ?? []).map(String).includes(guestId);
+    dispatch({ type: locked ? 'UNLOCK_GUEST' : 'LOCK_GUEST_TO_TABLE', payload: { tableId, guestId } });
+  };
+
   const handleLockToggle = (tableId: number) => {
     if (isTableLocked(tableId)) {
       unlockTable(tableId);
+    } else if (isEditing) {
+      dispatch({ type: 'LOCK_TABLE_FROM_PLAN', payload: { tableId, plan: editedPlan } });
+      dispatch({ type: 'TRIGGER_REGENERATION' });
     } else {
       lockTableFromCurrentPlan(tableId);
     }
   };
+
+  // Seat pins: the party starts at this seat in every plan generated from now on
+  const isSeatPinned = (tableId: number, seat: number, guestId: string): boolean =>
+    String(state.seatPins?.[tableId]?.[seat] ?? '') === guestId;
+
+  const handlePinToggle = (tableId: number, seat: number, guestId: string) => {
+    if (isSeatPinned(tableId, seat, guestId)) {
+      dispatch({ type: 'UNPIN_SEAT', payload: { guestId } });
+    } else {
+      dispatch({ type: 'PIN_SEAT', payload: { tableId, seat, guestId } });
+    }
+  };
+
+  const handleStartEdit = () => {
+    if (!generatedPlan) return;
+    if (editedPlan && !window.confirm('Replace your edited plan with a copy of this plan?')) return;
+    dispatch({ type: 'START_PLAN_EDIT', payload: { planIndex: safeCurrentPlanIndex } });
+    setShowEdited(true);
+  };
+
+  const handleDiscardEdit = () => {
+    if (!window.confirm('Discard your edited plan?')) return;
+    dispatch({ type: 'DISCARD_EDITED_PLAN' });
+    setShowEdited(false);
+  };
+
+  // Repair mode: while a baseline is set, generation moves as few guests from it as possible
+  const handleUseAsBaseline = () => {
+    if (!plan) return;
+    dispatch({ type: 'SET_BASELINE_PLAN', payload: { plan } });
+  };
+
+  const handleClearBaseline = () => {
+    dispatch({ type: 'CLEAR_BASELINE_PLAN' });
+  };
+
+  const handlePrintCards = (kind: PrintCardKind) => {
+    if (!plan) return;
+    if (!printPlanCards(kind, plan, tableLabelById)) {
+      window.alert('Your browser blocked the print window. Allow pop-ups for this site and try again.');
+    }
+  };
+
+  const handleDownloadPdf = () => {
+    if (!plan) return;
+    const planLabel = isEditing ? 'Edited plan' : `Plan ${safeCurrentPlanIndex + 1}`;
+    const bytes = exportPlanToPDF(plan, state.tables, { planLabel });
+    downloadPDF(bytes, `seatyr-seating-chart-${new Date().toISOString().split('T')[0]}.pdf`);
+  };
+
+  const guestNameById = useMemo(
+    () => new Map(state.guests.map(g => [g.id, getDisplayName(g.name)])),
+    [state.guests]
+  );
+
+  const handleDragStart = (guestId: string) => (e: React.DragEvent) => {
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', guestId);
+    setDragGuestId(guestId);
+  };
+
+  const handleDragEnd = () => {
+    setDragGuestId(null);
+    setDropTarget(null);
+  };
+
+  const handleDragOver = (tableId: number, beforeGuestId: string | null) => (e: React.DragEvent) => {
+    if (!dragGuestId) return;
+    e.preventDefault();
+    if (dropTarget?.tableId !== tableId || dropTarget.beforeGuestId !== beforeGuestId) {
+      setDropTarget({ tableId, beforeGuestId });
+    }
+  };
+
+  const handleDrop = (tableId: number, beforeGuestId: string | null) => (e: React.DragEvent) => {
+    e.preventDefault();
+    if (dragGuestId && dropPreview?.allowed !== false) {
+      dispatch({ type: 'MOVE_EDITED_PLAN_GUEST', payload: { guestId: dragGuestId, tableId, beforeGuestId } });
+    }
+    handleDragEnd();
+  };
   
   // Loading guard - use state.isReady (single source of truth)
   if (sessionTag === 'INITIALIZING' || sessionTag === 'AUTHENTICATING' || !state.isReady) {
@@ -349,6 +498,22 @@ const SeatingPlanViewer: React.FC = () => {
     dispatch({ type: "TRIGGER_REGENERATION" });
   };
   
+  const handleCancelGeneration = () => {
+    cancelGeneration();
+    generationStartTimeRef.current = null;
+    setIsGenerating(false);
+    setErrors([{ type: "warn", message: "Generation cancelled. Click Generate to try again." }]);
+  };
+
+  // Share of the run finished: whichever of runs, plans found or time budget is furthest along
+  const progressFraction = generationProgress
+    ? Math.min(1, Math.max(
+        generationProgress.runsCompleted / Math.max(1, generationProgress.maxRuns),
+        generationProgress.plansFound / Math.max(1, generationProgress.targetPlans),
+        generationProgress.elapsedMs / Math.max(1, generationProgress.timeBudgetMs)
+      ))
+    : 0;
+
   // Detect when auto-generation starts (regenerationNeeded becomes true)
   useEffect(() => {
     // If regeneration is needed and we're not already tracking a generation, start tracking
@@ -361,21 +526,9 @@ const SeatingPlanViewer: React.FC = () => {
     }
   }, [state.regenerationNeeded, isGenerating, state.lastGeneratedSignature]);
 
-  // B2: Replace timer-based completion with state-driven effect + safety timeout
+  // B2: Replace timer-based completion with state-driven effect. The engine's time budget
+  // bounds a run and Cancel stops it, so there is no separate timeout here.
   useEffect(() => {
-    // 30s safety valve to prevent indefinite spinner during an active generation
-    if (isGenerating && generationStartTimeRef.current !== null) {
-      const elapsed = Date.now() - generationStartTimeRef.current;
-      if (elapsed > 30_000) {
-        console.error("[SeatingPlanViewer] Generation timeout after 30s");
-        setIsGenerating(false);
-        setErrors([{ type: "error", message: "Generation took too long. Try simplifying your constraints." }]);
-        generationStartTimeRef.current = null;
-        prevHadPlansRef.current = (state.seatingPlans?.length ?? 0) > 0;
-        return;
-      }
-    }
-
     const hasPlans = (state.seatingPlans?.length ?? 0) > 0;
 
     // Fire the "plans appeared" path only once per active generation cycle
@@ -417,19 +570,55 @@ const SeatingPlanViewer: React.FC = () => {
     }
   }, [isGenerating, state.regenerationNeeded, state.lastGeneratedSignature, state.seatingPlans]);
 
+  // Replay rebuilds the generated plan, so it is only offered while that plan is shown
+  const handleReplayPlan = async () => {
+    if (isEditing || !plan || typeof plan.seedUsed !== 'number') return;
+    setIsReplaying(true);
+    setReplayMessage(null);
+    try {
+      const result = await replayPlanFromSeed(safeCurrentPlanIndex);
+      if (!result.success) {
+        setReplayMessage({ ok: false, text: result.error || 'Could not rebuild this plan.' });
+      } else if (result.identical) {
+        setReplayMessage({ ok: true, text: `Rebuilt from seed ${plan.seedUsed}: identical to the saved plan.` });
+      } else {
+        setReplayMessage({ ok: true, text: `Rebuilt from seed ${plan.seedUsed}. Seats differ from the saved plan because guests, tables or constraints have changed.` });
+      }
+    } catch (err) {
+      setReplayMessage({ ok: false, text: err instanceof Error ? err.message : 'Could not rebuild this plan.' });
+    } finally {
+      setIsReplaying(false);
+    }
+  };
+
   const handleNavigatePlan = (delta: number) => {
     const newIndex = state.currentPlanIndex + delta;
     if (newIndex >= 0 && newIndex < safeSeatingPlans.length) {
+      setReplayMessage(null);
+      setShowEdited(false);
       dispatch({ type: 'SET_CURRENT_PLAN_INDEX', payload: newIndex });
     }
   };
 
+  const handleSelectPlan = (index: number) => {
+    setReplayMessage(null);
+    setShowEdited(false);
+    dispatch({ type: 'SET_CURRENT_PLAN_INDEX', payload: index });
+  };
+
+  const tableLabelById = (tableId: number): string => {
+    const index = state.tables.findIndex(t => t.id === tableId);
+    const tableInfo = index >= 0 ? state.tables[index] : undefined;
+    return displayTableLabel({ id: tableId, name: tableInfo?.name }, index >= 0 ? index : tableId - 1);
+  };
+
   const renderCurrentPlan = () => {
     if (!plan) {
       return <div className="text-center py-8 text-gray-500">No seating plan available.</div>;
     }
     
     const maxCapacity = Math.max(0, ...Array.from(capacityById.values()));
+    const seatRows = new Map(tablesNormalized.map(t => [t.id, seatsByIndex(t.seats)]));
 
     return (
       <div className="overflow-x-auto">
@@ -440,12 +629,25 @@ const SeatingPlanViewer: React.FC = () => {
                 const capacity = capacityById.get(table.id) ?? 0;
                 const occupied = table.seats.length;
                 const tableInfo = state.tables.find(t => t.id === table.id);
-                const locked = isTableLocked(table.id);
+                const locked = isTableFullyLocked(table.id, table.seats);
+                const lockedSeats = lockedSeatCount(state.lockedTableAssignments?.[table.id], state.guests);
+                const isDropTarget = isEditing && dropTarget?.tableId === table.id && !!dropPreview;
+                const dropClass = isDropTarget
+                  ? (dropPreview!.allowed && dropPreview!.added.length === 0 ? ' ring-2 ring-green-600' : ' ring-2 ring-red-600')
+                  : '';
                 return (
-                  <th key={table.id} className={`bg-indigo-100 text-[#586D78] font-medium p-2 ${locked ? "border-4 border-green-800 bg-green-50" : "border border-indigo-200"}`}>
+                  <th
+                    key={table.id}
+                    className={`bg-indigo-100 text-[#586D78] font-medium p-2 ${locked ? "border-4 border-green-800 bg-green-50" : "border border-indigo-200"}${dropClass}`}
+                    onDragOver={isEditing ? handleDragOver(table.id, null) : undefined}
+                    onDrop={isEditing ? handleDrop(table.id, null) : undefined}
+                  >
                     {displayTableLabel({id: table.id, name: tableInfo?.name }, index)}
                     <div className="flex items-center gap-2">
                       <span className="text-xs block text-gray-600">{occupied}/{capacity} seats</span>
+                      {!locked && lockedSeats > 0 && (
+                        <span className="text-xs block text-green-800">{lockedSeats} locked · {Math.max(0, capacity - lockedSeats)} open</span>
+                      )}
                       <button
                         type="button"
                         onClick={() => handleLockToggle(table.id)}
@@ -471,10 +673,19 @@ const SeatingPlanViewer: React.FC = () => {
                     return <td key={`cell-blackout-${table.id}-${rowIndex}`} className="p-2 border border-gray-700 bg-black" aria-hidden="true" style={{ pointerEvents: 'none' }} />;
                   }
                   
-                  const guestData = table.seats[rowIndex];
-                  const locked = isTableLocked(table.id);
+                  const guestData = seatRows.get(table.id)?.[rowIndex];
+                  const locked = isTableFullyLocked(table.id, table.seats);
                   if (!guestData) {
-                    return <td key={`cell-empty-${table.id}-${rowIndex}`} className={`p-2 ${locked ? "border-4 border-green-800 bg-green-50" : "border border-gray-200 bg-gray-50"}`}><div className="text-xs text-gray-400 text-center">Empty</div></td>;
+                    return (
+                      <td
+                        key={`cell-empty-${table.id}-${rowIndex}`}
+                        className={`p-2 ${locked ? "border-4 border-green-800 bg-green-50" : "border border-gray-200 bg-gray-50"}`}
+                        onDragOver={isEditing ? handleDragOver(table.id, null) : undefined}
+                        onDrop={isEditing ? handleDrop(table.id, null) : undefined}
+                      >
+                        <div className="text-xs text-gray-400 text-center">Empty</div>
+                      </td>
+                    );
                   }
 
                   // Safe type validation (Grok feature)
@@ -495,17 +706,61 @@ const SeatingPlanViewer: React.FC = () => {
                   const isLockedGuest =
                     seatGuestKey != null && lockedGuestsForTable.has(seatGuestKey);
 
+                  // Lock and pin toggles sit on the first seat of each party
+                  const canPin = seatGuestKey != null && safePartyIndex === 0;
+                  const guestCount = Math.max(1, state.guests.find(g => g.id === seatGuestKey)?.count ?? 1);
+                  const lockedSeatsHere = lockedSeatCount(state.lockedTableAssignments?.[table.id], state.guests);
+                  const canLockHere = isLockedGuest || lockedSeatsHere + guestCount <= capacity;
+                  const pinned = canPin && isSeatPinned(table.id, rowIndex, seatGuestKey!);
+                  const canDrag = isEditing && seatGuestKey != null;
+                  const isDragged = canDrag && dragGuestId === seatGuestKey;
                   return (
-                    <td key={`cell-guest-${table.id}-${rowIndex}`} className={`p-2 ${locked ? "border-4 border-green-800 bg-green-50" : "border border-indigo-200"} align-top`}>
-                      <div
-                        className={`font-medium text-sm ${
-                          isLockedGuest
-                            ? 'text-green-900 font-semibold'
-                            : 'text-[#586D78]'
-                        }`}
-                      >
-                        {isLockedGuest && <span className="mr-1 text-green-900">●</span>}
-                        {formatGuestNameForSeat(safeName, safePartyIndex)}
+                    <td
+                      key={`cell-guest-${table.id}-${rowIndex}`}
+                      className={`p-2 ${locked ? "border-4 border-green-800 bg-green-50" : isLockedGuest ? "border-2 border-green-800 bg-green-50" : "border border-indigo-200"} align-top${canDrag ? ' cursor-move' : ''}${isDragged ? ' opacity-50' : ''}`}
+                      draggable={canDrag}
+                      onDragStart={canDrag ? handleDragStart(seatGuestKey!) : undefined}
+                      onDragEnd={canDrag ? handleDragEnd : undefined}
+                      onDragOver={isEditing ? handleDragOver(table.id, seatGuestKey) : undefined}
+                      onDrop={isEditing ? handleDrop(table.id, seatGuestKey) : undefined}
+                    >
+                      <div className="flex items-start justify-between gap-1">
+                        <div
+                          className={`font-medium text-sm ${
+                            isLockedGuest
+                              ? 'text-green-900 font-semibold'
+                              : 'text-[#586D78]'
+                          }`}
+                        >
+                          {canPin ? (
+                            <button
+                              type="button"
+                              onClick={() => handleGuestLockToggle(table.id, seatGuestKey!)}
+                              disabled={!canLockHere}
+                              className={`mr-1 text-xs leading-none ${isLockedGuest ? '' : 'opacity-30 hover:opacity-100'}`}
+                              aria-label={isLockedGuest ? `Unlock ${getDisplayName(safeName)}` : `Lock ${getDisplayName(safeName)} to this table`}
+                              aria-pressed={isLockedGuest}
+                              title={canLockHere ? (isLockedGuest ? 'Locked to this table' : 'Lock to this table') : 'No unlocked seats left at this table'}
+                            >
+                              {isLockedGuest ? '🔒' : '🔓'}
+                            </button>
+                          ) : (
+                            isLockedGuest && <span className="mr-1 text-green-900">●</span>
+                          )}
+                          {formatGuestNameForSeat(safeName, safePartyIndex)}
+                        </div>
+                        {canPin && (
+                          <button
+                            type="button"
+                            onClick={() => handlePinToggle(table.id, rowIndex, seatGuestKey!)}
+                            className={`text-xs leading-none ${pinned ? '' : 'opacity-30 hover:opacity-100'}`}
+                            aria-label={pinned ? `Unpin ${getDisplayName(safeName)} from seat ${rowIndex + 1}` : `Pin ${getDisplayName(safeName)} to seat ${rowIndex + 1}`}
+                            aria-pressed={pinned}
+                            title={pinned ? 'Pinned to this seat' : 'Pin to this seat'}
+                          >
+                            📌
+                          </button>
+                        )}
                       </div>
                     </td>
                   );
@@ -526,9 +781,26 @@ const SeatingPlanViewer: React.FC = () => {
           <div className="flex flex-wrap gap-2 mt-4">
             <button className="danstyle1c-btn" onClick={handleGenerateSeatingPlan} disabled={isGenerating}>
               {isGenerating && <RefreshCw className="w-4 h-4 mr-2 animate-spin" />}
-              {isGenerating ? `Generating ${mode === 'premium' ? '30' : '10'} plans...` : `Generate ${mode === 'premium' ? '30' : '10'} Seating Plans`}
+              {isGenerating ? `Generating ${targetPlans} plans...` : `Generate ${targetPlans} Seating Plans`}
             </button>
+            {isGenerating && (
+              <button className="danstyle1c-btn danstyle1c-remove" onClick={handleCancelGeneration}>
+                Cancel
+              </button>
+            )}
           </div>
+          {isGenerating && generationProgress && (
+            <div className="mt-3" role="status" aria-live="polite">
+              <div className="h-2 bg-indigo-100 rounded">
+                <div className="h-2 bg-[#586D78] rounded transition-all" style={{ width: `${Math.round(progressFraction * 100)}%` }} />
+              </div>
+              <div className="text-xs text-gray-600 mt-1">
+                Run {generationProgress.runsCompleted} of {generationProgress.maxRuns} · {generationProgress.plansFound} plan{generationProgress.plansFound === 1 ? '' : 's'} found
+                {generationProgress.bestScore !== null && <> · best score {Math.round(generationProgress.bestScore * 100)}%</>}
+              </div>
+            </div>
+          )}
+          <AdvancedGenerationPanel />
           {errors.length > 0 && (state.seatingPlans?.length ?? 0) === 0 && (
               <div className="mt-4 bg-red-50 border border-red-200 rounded-md p-3">
                   <h3 className="flex items-center text-red-800 font-medium mb-2"><AlertCircle className="w-4 h-4 mr-1" /> Errors</h3>
@@ -537,6 +809,12 @@ const SeatingPlanViewer: React.FC = () => {
                   </ul>
               </div>
           )}
+          {state.infeasibility && (state.seatingPlans?.length ?? 0) === 0 && (
+              <div className="mt-4 bg-red-50 border border-red-200 rounded-md p-3">
+                  <h3 className="flex items-center text-red-800 font-medium"><AlertCircle className="w-4 h-4 mr-1" /> Why no plan was found</h3>
+                  <InfeasibilityExplainer report={state.infeasibility} />
+              </div>
+          )}
           {state.warnings && state.warnings.length > 0 && (state.seatingPlans?.length ?? 0) === 0 && (
               <div className="mt-4 bg-yellow-50 border border-yellow-200 rounded-md p-3">
                   <h3 className="flex items-center text-yellow-800 font-medium mb-2"><AlertCircle className="w-4 h-4 mr-1" /> Warnings</h3>
@@ -546,12 +824,17 @@ const SeatingPlanViewer: React.FC = () => {
               </div>
           )}
       </Card>
-      <Card title={`Current Plan (${safeCurrentPlanIndex + 1} of ${safeSeatingPlans.length})`}>
+      <Card title={isEditing ? 'Edited Plan' : `Current Plan (${safeCurrentPlanIndex + 1} of ${safeSeatingPlans.length})`}>
         {/* Guest/Seats count and navigation buttons on same row */}
         <div className="flex justify-between items-center mb-4">
           {/* Left-justified: Guest and Seats count */}
           <div className="text-sm text-[#586D78]">
             Number of Guests: {planMetrics.numberOfGuests} / Number of Seats: {planMetrics.numberOfSeats}
+            {typeof plan?.seedUsed === 'number' && (
+              <span className="ml-3 text-gray-600" title={plan.attemptsUsed != null ? `${plan.attemptsUsed} placement attempts` : undefined}>
+                Seed: {plan.seedUsed}
+              </span>
+            )}
           </div>
           {/* Right-justified: Previous/Next buttons */}
           {safeSeatingPlans.length > 1 && (
@@ -574,7 +857,141 @@ const SeatingPlanViewer: React.FC = () => {
           )}
         </div>
 
-        {renderCurrentPlan()}
+        {state.baselinePlan && (
+          <div className="mb-4 border border-[#586D78] rounded-md p-3 text-sm text-[#586D78] flex flex-wrap items-center gap-3">
+            <span>Repair mode: new plans move as few guests as possible from your baseline plan.</span>
+            <button className="danstyle1c-btn btn-small" onClick={handleClearBaseline}>Clear baseline</button>
+          </div>
+        )}
+
+        {isEditing ? (
+          <div className="mb-4 border border-[#586D78] rounded-md p-3 text-sm text-[#586D78] space-y-2">
+            <p>
+              Drag a guest onto another seat or table. Your edited plan is saved with this setting and stays here when
+              new plans are generated. Lock its tables to have the generator keep them.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <button className="danstyle1c-btn btn-small" onClick={() => setShowEdited(false)}>Back to generated plans</button>
+              <button className="danstyle1c-btn btn-small" onClick={handleUseAsBaseline}>Use as baseline</button>
+              <button className="danstyle1c-btn btn-small danstyle1c-remove" onClick={handleDiscardEdit}>Discard edits</button>
+            </div>
+            {dragGuestId && dropPreview && (
+              <p className={dropPreview.allowed && dropPreview.added.length === 0 ? 'text-green-800' : 'text-red-700'} role="status">
+                {!dropPreview.allowed
+                  ? dropPreview.added[0]
+                  : dropPreview.added.length === 0
+                    ? 'Dropping here keeps the plan valid.'
+                    : `Dropping here: ${dropPreview.added.join('; ')}`}
+              </p>
+            )}
+            {editIssues.length > 0 ? (
+              <ul className="list-disc pl-5 space-y-0.5">
+                {editIssues.map((issue, i) => (
+                  <li key={i} className={issue.type === 'error' ? 'text-red-700' : 'text-yellow-700'}>{issue.message}</li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-green-800">No conflicts: every constraint, assignment and lock is respected.</p>
+            )}
+          </div>
+        ) : (
+          <>
+            {plan && <PlanScorecard plan={plan} />}
+            {plan?.moves && (
+              <div className="mb-4 text-sm text-[#586D78]">
+                {plan.moves.length === 0 ? (
+                  <p>Nobody moved from the baseline plan.</p>
+                ) : (
+                  <>
+                    <p className="font-medium">
+                      {plan.moves.length} {plan.moves.length === 1 ? 'guest' : 'guests'} moved from the baseline plan:
+                    </p>
+                    <ul className="list-disc pl-5 space-y-0.5">
+                      {plan.moves.map(m => (
+                        <li key={m.guestId}>
+                          {guestNameById.get(m.guestId) ?? m.guestId}:{' '}
+                          {m.fromTableId === null ? 'new guest' : tableLabelById(m.fromTableId)} → {tableLabelById(m.toTableId)}
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+              </div>
+            )}
+            {plan && (
+              <div className="flex flex-wrap gap-2 mb-4">
+                <button className="danstyle1c-btn" onClick={handleStartEdit}>Edit seats</button>
+                <button
+                  className="danstyle1c-btn"
+                  onClick={() => navigate(`/plan-diff?from=plan:${safeCurrentPlanIndex}`)}
+                  title="See who moved between this plan and another plan or a saved setting"
+                >
+                  Compare with…
+                </button>
+                <button
+                  className="danstyle1c-btn"
+                  onClick={handleUseAsBaseline}
+                  title="Later plans move as few guests as possible from this one"
+                >
+                  Use as baseline
+                </button>
+                {editedPlan && (
+                  <button className="danstyle1c-btn" onClick={() => setShowEdited(true)}>Open edited plan</button>
+                )}
+              </div>
+            )}
+          </>
+        )}
+
+        {!isEditing && typeof plan?.seedUsed === 'number' && (
+          <div className="flex flex-wrap items-center gap-3 mb-4">
+            <button
+              className="danstyle1c-btn"
+              onClick={handleReplayPlan}
+              disabled={isReplaying || isGenerating}
+              title="Rebuild this plan from its seed using the current guests, tables and constraints"
+            >
+              {isReplaying && <RefreshCw className="w-4 h-4 mr-2 animate-spin" />}
+              Regenerate exactly this plan
+            </button>
+            {replayMessage && (
+              <span className={`text-sm ${replayMessage.ok ? 'text-[#586D78]' : 'text-red-700'}`}>{replayMessage.text}</span>
+            )}
+          </div>
+        )}
+
+        {plan && (
+          <div className="flex flex-wrap items-center gap-2 mb-4" role="group" aria-label="Print and export">
+            <span className="inline-flex items-center text-sm text-[#586D78]">
+              <Printer className="w-4 h-4 mr-1" />
+              Print:
+            </span>
+            <button className="danstyle1c-btn btn-small" onClick={() => handlePrintCards('place')}>Place cards</button>
+            <button className="danstyle1c-btn btn-small" onClick={() => handlePrintCards('table')}>Table cards</button>
+            <button className="danstyle1c-btn btn-small" onClick={() => handlePrintCards('escort')}>Escort cards</button>
+            <button className="danstyle1c-btn btn-small" onClick={handleDownloadPdf} title="Seating chart and guest index as a PDF">
+              <Download className="w-3 h-3 mr-1" />
+              PDF
+            </button>
+          </div>
+        )}
+
+        {plan && (
+          <div className="flex gap-2 mb-2" role="group" aria-label="Plan view">
+            <button className={`danstyle1c-btn btn-small ${planView === 'grid' ? 'selected' : ''}`} onClick={() => setPlanView('grid')}>
+              Grid
+            </button>
+            <button className={`danstyle1c-btn btn-small ${planView === 'floor' ? 'selected' : ''}`} onClick={() => setPlanView('floor')}>
+              Floor plan
+            </button>
+          </div>
+        )}
+
+        {plan && planView === 'floor' ? (
+          <FloorPlan tables={state.tables} tableLabel={displayTableLabel} plan={plan} />
+        ) : (
+          renderCurrentPlan()
+        )}
         
         {/* Below grid (centered): 3-button Previous/Page#/Next for plan navigation */}
         {safeSeatingPlans.length > 1 && (
@@ -599,6 +1016,17 @@ const SeatingPlanViewer: React.FC = () => {
           </div>
         )}
       </Card>
+      {safeSeatingPlans.length > 1 && (
+        <Card title="Compare Plans">
+          <PlanComparison
+            plans={safeSeatingPlans}
+            guests={state.guests}
+            currentPlanIndex={safeCurrentPlanIndex}
+            onSelectPlan={handleSelectPlan}
+            tableLabel={tableLabelById}
+          />
+        </Card>
+      )}
       <SavedSettingsAccordion isDefaultOpen={false} />
     </div>
   );
@@ -4,9 +4,12 @@ import Card from '../components/Card';
 import { useApp } from '../context/AppContext';
 import SavedSettingsAccordion from '../components/SavedSettingsAccordion';
 import FormatGuestName from '../components/FormatGuestName';
+import TableRulesEditor from '../components/TableRulesEditor';
+import FloorPlan from '../components/FloorPlan';
 import { getLastNameForSorting } from '../utils/formatters';
 import { normalizeAssignmentInputToIdsWithWarnings, parseAssignmentIds } from '../utils/assignments';
-import { getCapacity } from '../utils/tables';
+import { getCapacity, TABLE_SHAPES } from '../utils/tables';
+import type { TableLayout, TableShape } from '../types';
 
 const GUEST_THRESHOLD = 120; // Legacy threshold (kept for backward compatibility if needed)
 const GUEST_DISPLAY_THRESHOLD = 100; // Maximum guest units to display without pagination (scrolling mode)
@@ -364,6 +367,20 @@ const TableManager: React.FC = () => {
     }
   };
   
+  const handleUpdateShape = (id: number, shape: TableShape) => {
+    dispatch({ type: 'UPDATE_TABLE', payload: { id, shape } });
+  };
+
+  const handleUpdateLayout = (id: number, layout: TableLayout) => {
+    dispatch({ type: 'UPDATE_TABLE', payload: { id, layout } });
+  };
+
+  const handleResetLayout = () => {
+    state.tables.forEach(t => {
+      if (t.layout) dispatch({ type: 'UPDATE_TABLE', payload: { id: t.id, layout: null } });
+    });
+  };
+
   const handleTableNameDoubleClick = (id: number, currentName?: string | null) => {
     if (mode !== 'premium') {
       dispatch({ type: 'SHOW_MODAL', payload: { 
@@ -606,7 +623,20 @@ const TableManager: React.FC = () => {
                             onChange={(e) => handleUpdateSeats(table.id, e.target.value)}
                             className="px-3 py-1 border border-[#586D78] rounded-md w-16 focus:outline-none focus:ring-2 focus:ring-[#586D78]"
                           />
+                          <label htmlFor={`table-${table.id}-shape`} className="text-[#586D78]">
+                            Shape:
+                          </label>
+                          <select
+                            id={`table-${table.id}-shape`}
+                            value={table.shape ?? 'round'}
+                            onChange={(e) => handleUpdateShape(table.id, e.target.value as TableShape)}
+                            title="Decides which seats count as next to each other for adjacent pairings"
+                            className="px-2 py-1 border border-[#586D78] rounded-md focus:outline-none focus:ring-2 focus:ring-[#586D78]"
+                          >
+                            {TABLE_SHAPES.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+                          </select>
                         </div>
+                        <TableRulesEditor table={table} />
                       </div>
                       
                       <button
@@ -621,6 +651,18 @@ const TableManager: React.FC = () => {
                 </div>
               )}
             </Card>
+            {state.tables.length > 0 && (
+              <Card
+                title="Floor Plan"
+                actions={
+                  <button className="danstyle1c-btn btn-small" onClick={handleResetLayout} disabled={!state.tables.some(t => t.layout)}>
+                    Reset layout
+                  </button>
+                }
+              >
+                <FloorPlan tables={state.tables} tableLabel={getTableDisplayName} onLayoutChange={handleUpdateLayout} />
+              </Card>
+            )}
           </div>
         )}
       </div>
@@ -1,22 +1,62 @@
 export type GuestID = string;
 export type TableID = number;
 
+export type AgeGroup = 'adult' | 'teen' | 'child' | 'infant';
+
+export interface GuestAttributes {
+  side?: string;       // e.g. "Bride", "Groom", "Company A"
+  ageGroup?: AgeGroup;
+  dietary?: string[];  // e.g. ["vegetarian", "nut allergy"]
+  vip?: boolean;
+}
+
 export interface Guest {
   id: GuestID;         // stable internal id, NOT the display name
   name: string;        // display name (may change)
   count: number;       // >= 1, whole party size
+  attributes?: GuestAttributes;
+  tags?: string[];     // free-form labels, normalized lowercase
+  notes?: string;      // free text from an import, shown in the guest list
+}
+
+export type TagRuleMode = 'group' | 'mix';
+
+export interface TagRule {
+  id: string;
+  tag: string;         // a guest tag ("vip", "side:bride") or a dimension ("side:") applied per value
+  mode: TagRuleMode;   // group = seat together, mix = spread across tables
+}
+
+export type TableRuleKind = 'max' | 'only' | 'balance';
+
+export interface TableRule {
+  kind: TableRuleKind; // max = at most `limit` guests with the tag, only = tagged guests only, balance = even mix of a dimension's values
+  tag: string;         // a guest tag ("age:child") or, for balance, a dimension ("side:")
+  limit?: number;      // seats allowed for `max`
+}
+
+export type TableShape = 'round' | 'rectangle' | 'head' | 'u-shape';
+
+export interface TableLayout {
+  x: number;           // table centre on the floor plan (room units, see utils/floorPlan)
+  y: number;
+  rotation: number;    // degrees clockwise, 0..359
 }
 
 export interface Table {
   id: number;          // stable numeric id
   name?: string | null;
   seats: number;       // editor "capacity"
+  rules?: TableRule[]; // max/only are hard; balance is scored
+  shape?: TableShape;  // seat layout for adjacency; omitted = round
+  layout?: TableLayout; // floor plan placement; omitted = default grid slot
 }
 
 export interface PlanSeat {
   name: string;        // display name at render time
   partyIndex: number;  // 0..(count-1) for the original guest
   id?: GuestID; // SURGICAL ADDITION: For identifying guests in the plan by ID
+  seat?: number; // seat index at the table; set when the table has pinned seats (else = position in seats)
 }
 
 export interface PlanTable {
@@ -28,19 +68,89 @@ export interface PlanTable {
 export interface SeatingPlan {
   id: number;          // unique plan id for UI nav
   tables: PlanTable[]; // sorted by table.id asc
+  seedUsed?: number;     // engine run seed; replaying it rebuilds this exact plan
+  attemptsUsed?: number; // backtracking attempts the run needed
+  improvementSteps?: number; // local search steps the run kept; a replay repeats exactly these
+  score?: number;                 // weighted total the engine ranked plans by (0..1)
+  adjacencySatisfaction?: number; // share of adjacent pairings seated side by side (0..1)
+  capacityUtilization?: number;   // seated guests / total seats (0..1)
+  balance?: number;               // 1 = every table near the 80% fill target (0..1)
+  softSatisfaction?: number;      // weighted share of prefer/avoid pairs honoured (0..1)
+  softPreferencesHonoured?: number;
+  softPreferencesTotal?: number;
+  tagRuleSatisfaction?: number;   // mean satisfaction of group/mix tag rules (0..1); unset without rules
+  tableBalance?: number;          // mean evenness of balance table rules (0..1); unset without them
+  solver?: 'exact' | 'repair';    // set on plans from the exact solver or a repair of the baseline plan
+  provenOptimal?: boolean;        // exact / repair, best plan: true = no better plan exists, false = time limit hit
+  moves?: PlanMove[];             // repair only: guests at a different table than in the baseline plan
+  edited?: boolean;               // rearranged by hand in the viewer (no scores or seed)
+}
+
+export interface PlanMove {
+  guestId: GuestID;
+  fromTableId: number | null; // null = not in the baseline plan (a new guest)
+  toTableId: number;
 }
 
 export type Assignments = Record<GuestID, string>; // ID-CSV (e.g. "1,3,5")
 export type LockedTableAssignments = Record<TableID, GuestID[]>; // Locked Table Assignments: each tableId maps to an array of guestIds locked to that table
-export type ConstraintValue = 'must' | 'cannot' | '';
+export type SeatPins = Record<TableID, Record<number, GuestID>>; // Seat pins: each tableId maps a seat index to the guestId whose party starts there
+export type ConstraintValue = 'must' | 'cannot' | 'prefer' | 'avoid' | ''; // prefer/avoid are soft
+export type PreferenceWeights = Record<GuestID, Record<GuestID, number>>; // strength of prefer/avoid pairs, symmetric (default 1)
 export type Constraints = Record<GuestID, Record<GuestID, ConstraintValue>>;
 export type Adjacents = Record<GuestID, GuestID[]>; // degree <= 2
 
+export interface GenerationWeights {
+  adj: number;         // adjacency satisfaction
+  util: number;        // capacity utilization
+  balance: number;     // even fill across tables
+  soft?: number;       // prefer together / prefer apart (counted only when any are set)
+  tags?: number;       // tag rules (counted only when any are set)
+}
+
+export interface GenerationOptions {
+  seed?: number;             // base seed for the run RNG (reproducible output)
+  timeBudgetMs?: number;     // total wall-clock budget for one generation
+  targetPlans?: number;      // stop once this many distinct plans exist
+  maxAttemptsPerRun?: number; // backtracking cap per run
+  runsMultiplier?: number;   // runs = targetPlans * runsMultiplier
+  weights?: GenerationWeights;
+  solver?: 'heuristic' | 'exact'; // exact = branch and bound with optimality proof (up to 80 guest entries)
+  localSearch?: boolean;     // standard search: improve each plan with group moves and swaps
+  replaySeed?: number;       // one-shot: rebuild a single plan from its seedUsed (never persisted)
+  replaySteps?: number;      // one-shot, with replaySeed: the plan's improvementSteps
+}
+
+export interface GenerationProgress {
+  runsCompleted: number;
+  maxRuns: number;
+  plansFound: number;
+  targetPlans: number;
+  bestScore: number | null; // best plan score so far (0..1)
+  elapsedMs: number;
+  timeBudgetMs: number;
+}
+
 export interface ValidationError {
   type: 'error' | 'warn';
   message: string;
 }
 
+export type ConflictRuleKind = 'must' | 'cannot' | 'adjacent' | 'assignment' | 'lock' | 'table_rule';
+
+export interface ConflictRule {
+  kind: ConflictRuleKind;
+  guestIds: GuestID[];   // the pair, or the assigned / locked guest
+  tableIds: number[];    // allowed tables, the locked table, or the table carrying the rule
+  ruleIndex?: number;    // table_rule: position in Table.rules
+  description: string;
+}
+
+export interface InfeasibilityReport {
+  rules: ConflictRule[]; // rules that cannot all hold at once; empty when the guests do not fit even without rules
+  minimal: boolean;      // true only when each check was exhaustive; else some rules may not be needed
+}
+
 export interface ConstraintConflict {
   id: string;
   type: 'circular' | 'impossible' | 'capacity_violation' | 'adjacency_violation';
@@ -89,8 +199,11 @@ export interface AppState {
   tables: Table[];
   constraints: Constraints;
   adjacents: Adjacents;
+  preferenceWeights?: PreferenceWeights;
+  tagRules?: TagRule[];
   assignments: Assignments;
   lockedTableAssignments: LockedTableAssignments;
+  seatPins?: SeatPins;
   seatingPlans: SeatingPlan[];
   currentPlanIndex: number;
   subscription: UserSubscription | null | undefined;
@@ -108,8 +221,12 @@ export interface AppState {
   assignmentSignature: string; // Stable signature for assignment changes to trigger effects
   conflictWarnings: string[]; // SURGICAL ADDITION: User-facing conflict warnings
   warnings: string[]; // Non-blocking warnings for display (engine/capacity errors)
+  infeasibility?: InfeasibilityReport | null; // Why the last generation found no plan (not persisted)
+  editedPlan?: SeatingPlan | null; // Hand-edited plan; kept across regenerations until discarded
+  baselinePlan?: SeatingPlan | null; // Repair mode: plans are regenerated with as few moves from this plan as possible
   lastGeneratedSignature: string | null; // Signature of last generated plan
   lastGeneratedPlanSig: string | null; // Plan signature of last generated plan
+  generationOptions?: GenerationOptions; // NEW: Per-setting engine overrides (empty = tier defaults)
   sessionVersion: number; // NEW: Monotonic counter, increments on ANY state change
   persistenceVersion: string; // NEW: Schema version for migrations
 }
\ No newline at end of file
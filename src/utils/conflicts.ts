@@ -1,5 +1,6 @@
 import { parseAssignmentIds } from './assignments';
 import { getCapacity } from './tables';
+import type { ConstraintValue } from '../types';
 
 function shareAnyTable(csvA?: string, csvB?: string): boolean {
   const setA = new Set(parseAssignmentIds(csvA || ''));
@@ -123,7 +124,7 @@ export function detectUnsatisfiableMustGroups(params: DetectParams): string[] {
 
 export function detectConflicts(
   assignments: Record<string, string>,
-  constraints: Record<string, Record<string, 'must' | 'cannot' | ''>>
+  constraints: Record<string, Record<string, ConstraintValue>>
 ): string[] {
   const warnings = new Set<string>();
   for (const [a, row] of Object.entries(constraints || {})) {
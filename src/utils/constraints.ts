@@ -2,9 +2,50 @@
  * Constraint and adjacency utilities for guest seating rules
  */
 
-export type ConstraintKind = '' | 'must' | 'cannot';
+export type ConstraintKind = '' | 'must' | 'cannot' | 'prefer' | 'avoid';
 export type ConstraintMap = Record<string, Record<string, ConstraintKind>>;
 export type AdjMap = Record<string, string[]>;
+export type PreferenceWeightMap = Record<string, Record<string, number>>;
+
+export const MIN_PREFERENCE_WEIGHT = 1;
+export const MAX_PREFERENCE_WEIGHT = 3;
+
+/** prefer/avoid only affect the score; must/cannot/adjacent must always hold */
+export const isSoftConstraint = (v: string | undefined | null): v is 'prefer' | 'avoid' => v === 'prefer' || v === 'avoid';
+
+export const clampPreferenceWeight = (w: unknown): number => {
+  const n = Math.round(Number(w));
+  if (!Number.isFinite(n)) return MIN_PREFERENCE_WEIGHT;
+  return Math.min(MAX_PREFERENCE_WEIGHT, Math.max(MIN_PREFERENCE_WEIGHT, n));
+};
+
+export const getPreferenceWeight = (w: PreferenceWeightMap | undefined, a: string, b: string): number =>
+  clampPreferenceWeight(w?.[a]?.[b] ?? w?.[b]?.[a] ?? MIN_PREFERENCE_WEIGHT);
+
+/**
+ * Return a copy of the weight map with the pair set (or removed when weight is null)
+ */
+export function withPreferenceWeight(
+  w: PreferenceWeightMap | undefined,
+  a: string,
+  b: string,
+  weight: number | null
+): PreferenceWeightMap {
+  const next: PreferenceWeightMap = {};
+  Object.entries(w || {}).forEach(([k, row]) => { next[k] = { ...row }; });
+  for (const [x, y] of [[a, b], [b, a]]) {
+    if (next[x]) {
+      delete next[x][y];
+      if (Object.keys(next[x]).length === 0) delete next[x];
+    }
+  }
+  if (weight !== null) {
+    const v = clampPreferenceWeight(weight);
+    (next[a] ||= {})[b] = v;
+    (next[b] ||= {})[a] = v;
+  }
+  return next;
+}
 
 export const getConstraint = (m: ConstraintMap, a: string, b: string): ConstraintKind => m?.[a]?.[b] || '';
 
@@ -1,4 +1,6 @@
-import { Guest, Table, Constraints, Adjacents, Assignments } from '../types';
+import { Guest, Table, Constraints, Adjacents, Assignments, PreferenceWeights } from '../types';
+import { getPreferenceWeight } from './constraints';
+import { formatTag, getGuestTags } from './guestTags';
 
 /**
  * Escapes a CSV field value, wrapping in quotes if necessary
@@ -157,19 +159,48 @@ function getAdjacentGuests(guestId: string, adjacents: Adjacents, guestNameMap:
   return adjacentNames.sort();
 }
 
+/**
+ * Gets guests with a PREFER/AVOID preference with the given guest, as "Name" or "Name (strength)"
+ */
+function getSoftConstraints(
+  guestId: string,
+  kind: 'prefer' | 'avoid',
+  constraints: Constraints,
+  preferenceWeights: PreferenceWeights | undefined,
+  guestNameMap: Map<string, string>
+): string[] {
+  const ids = new Set<string>();
+  Object.entries(constraints[guestId] || {}).forEach(([otherId, value]) => {
+    if (value === kind) ids.add(otherId);
+  });
+  Object.entries(constraints).forEach(([otherId, otherConstraints]) => {
+    if (otherId !== guestId && otherConstraints[guestId] === kind) ids.add(otherId);
+  });
+
+  const names: string[] = [];
+  ids.forEach(otherId => {
+    const name = guestNameMap.get(otherId);
+    if (!name) return;
+    const weight = getPreferenceWeight(preferenceWeights, guestId, otherId);
+    names.push(weight > 1 ? `${name} (${weight})` : name);
+  });
+  return names.sort();
+}
+
 export interface ExportData {
   guests: Guest[];
   tables: Table[];
   constraints: Constraints;
   adjacents: Adjacents;
   assignments: Assignments;
+  preferenceWeights?: PreferenceWeights;
 }
 
 /**
  * Exports settings data to CSV format for Excel import
  */
 export function exportSettingsToCSV(data: ExportData, settingName?: string): string {
-  const { guests, tables, constraints, adjacents, assignments } = data;
+  const { guests, tables, constraints, adjacents, assignments, preferenceWeights } = data;
   
   const guestNameMap = createGuestNameMap(guests);
   const lines: string[] = [];
@@ -185,7 +216,7 @@ export function exportSettingsToCSV(data: ExportData, settingName?: string): str
   
   // Section 1: Guest List
   lines.push('=== GUEST LIST ===');
-  lines.push('Guest Name,Party Size,Must Constraints,Cannot Constraints,Adjacent Pairs,Seating Assignments');
+  lines.push('Guest Name,Party Size,Must Constraints,Cannot Constraints,Adjacent Pairs,Seating Assignments,Prefer Together,Prefer Apart,Tags');
   
   // Sort guests alphabetically by name
   const sortedGuests = [...guests].sort((a, b) => a.name.localeCompare(b.name));
@@ -195,6 +226,8 @@ export function exportSettingsToCSV(data: ExportData, settingName?: string): str
     const cannotConstraints = getCannotConstraints(guest.id, constraints, guestNameMap);
     const adjacentGuests = getAdjacentGuests(guest.id, adjacents, guestNameMap);
     const assignmentStr = formatAssignments(assignments[guest.id], tables);
+    const preferTogether = getSoftConstraints(guest.id, 'prefer', constraints, preferenceWeights, guestNameMap);
+    const preferApart = getSoftConstraints(guest.id, 'avoid', constraints, preferenceWeights, guestNameMap);
     
     const row = [
       escapeCSVField(guest.name),
@@ -202,7 +235,10 @@ export function exportSettingsToCSV(data: ExportData, settingName?: string): str
       escapeCSVField(mustConstraints.join(', ')),
       escapeCSVField(cannotConstraints.join(', ')),
       escapeCSVField(adjacentGuests.join(', ')),
-      escapeCSVField(assignmentStr)
+      escapeCSVField(assignmentStr),
+      escapeCSVField(preferTogether.join(', ')),
+      escapeCSVField(preferApart.join(', ')),
+      escapeCSVField(getGuestTags(guest).map(formatTag).join('; '))
     ];
     
     lines.push(row.join(','));
@@ -0,0 +1,55 @@
+/**
+ * Tests for floor plan geometry and saved table positions
+ */
+
+import { ROOM_HEIGHT, ROOM_WIDTH, clampToRoom, defaultTableLayout, normalizeRotation, resolveTableLayouts, sanitizeTableLayout, tableGeometry } from './floorPlan';
+import { sanitizeAndMigrateAppState } from './persistence';
+import { createTestTables } from './testFixtures';
+
+export const testFloorPlan = () => {
+  const near = (a: number, b: number) => Math.abs(a - b) < 1e-6;
+
+  const round = tableGeometry(undefined, 8);
+  const distances = round.seats.map(s => Math.hypot(s.x, s.y));
+  console.assert(round.outline.kind === 'circle' && round.seats.length === 8, 'Round tables should have one seat per place');
+  console.assert(distances.every(d => near(d, distances[0])), 'Round table seats should sit on one circle');
+  console.assert(near(round.seats[0].x, 0) && round.seats[0].y < 0, 'Seat 1 of a round table should be at the top');
+  console.assert(round.seats.every(s => near(Math.hypot(s.nx, s.ny), 1)), 'Seat label directions should be unit vectors');
+
+  // Seats run along the top, then back along the bottom, so the numbering goes round the table
+  const rect = tableGeometry('rectangle', 7);
+  const top = rect.seats.filter(s => s.ny === -1);
+  console.assert(rect.seats.length === 7 && top.length === 4, 'Rectangular tables should put the odd seat on the top side');
+  console.assert(near(rect.seats[6].x, rect.seats[0].x) && rect.seats[6].y > 0, 'The last seat should face the first across the table');
+
+  const head = tableGeometry('head', 5);
+  console.assert(head.seats.every(s => s.ny === -1), 'Head table guests should all sit along one side');
+
+  const u = tableGeometry('u-shape', 9);
+  console.assert(u.outline.rects?.length === 3 && u.seats.length === 9, 'U-shaped tables should have three parts and every seat');
+  console.assert(u.seats[0].nx === -1 && u.seats[8].nx === 1, 'U-shaped seating should start on the left arm and end on the right');
+
+  const slots = Array.from({ length: 7 }, (_, i) => defaultTableLayout(i, 7));
+  console.assert(slots.every(s => s.x > 0 && s.x < ROOM_WIDTH && s.y > 0 && s.y < ROOM_HEIGHT), 'Default slots should lie inside the room');
+  console.assert(new Set(slots.map(s => `${s.x},${s.y}`)).size === 7, 'Default slots should not overlap');
+
+  const tables = createTestTables([8, 8]);
+  tables[1].layout = { x: 120, y: 80, rotation: 45 };
+  const layouts = resolveTableLayouts(tables);
+  console.assert(layouts.get(2)?.x === 120 && layouts.get(1)?.x === defaultTableLayout(0, 2).x, 'Saved positions should win over the default grid');
+
+  console.assert(normalizeRotation(-90) === 270 && normalizeRotation(450) === 90, 'Rotations should wrap into 0-359');
+  const clamped = clampToRoom(-5, ROOM_HEIGHT + 40.4);
+  console.assert(clamped.x === 0 && clamped.y === ROOM_HEIGHT, 'Positions should be clamped to the room');
+
+  console.assert(sanitizeTableLayout({ x: 'left', y: 3 }) === undefined && sanitizeTableLayout(null) === undefined, 'Unusable layouts should be dropped');
+  const layout = sanitizeTableLayout({ x: 2000, y: '10', rotation: -45 });
+  console.assert(layout?.x === ROOM_WIDTH && layout.y === 10 && layout.rotation === 315, 'Stored layouts should be clamped and normalised');
+
+  // A restore keeps each table's position and shape
+  const restored = sanitizeAndMigrateAppState({ tables: [{ id: 1, seats: 8, shape: 'head', layout: { x: 300, y: 200, rotation: 90 } }] });
+  const table = restored.tables?.[0];
+  console.assert(table?.shape === 'head' && table.layout?.x === 300 && table.layout.rotation === 90, 'Restored tables should keep their layout and shape');
+
+  console.log('✅ Floor plan tests passed!');
+};
@@ -0,0 +1,145 @@
+// src/utils/floorPlan.ts
+import type { Table, TableLayout, TableShape } from '../types';
+import { getCapacity } from './tables';
+
+// Room canvas in SVG user units; table positions are stored in these units
+export const ROOM_WIDTH = 1000;
+export const ROOM_HEIGHT = 700;
+
+const SEAT_SPACING = 26;
+const SEAT_OFFSET = 14;   // seat centre distance from the table edge
+const TABLE_DEPTH = 44;   // rectangular / head table depth
+const U_ARM_DEPTH = 30;
+
+export interface SeatPosition {
+  x: number;
+  y: number;
+  nx: number; // outward unit vector, for placing the name label
+  ny: number;
+}
+
+export interface TableOutline {
+  kind: 'circle' | 'rects';
+  radius?: number;
+  rects?: { x: number; y: number; width: number; height: number }[];
+}
+
+export interface TableGeometry {
+  outline: TableOutline;
+  seats: SeatPosition[];
+}
+
+/**
+ * Table outline and seat positions around a table centred on (0, 0), before rotation.
+ * Seat indices match the engine's seat numbering for the shape, so seat i of a plan
+ * table is drawn at seats[i].
+ */
+export function tableGeometry(shape: TableShape | undefined, capacity: number): TableGeometry {
+  const n = Math.max(1, capacity);
+
+  if (shape === 'rectangle') {
+    const side = Math.ceil(n / 2);
+    const length = side * SEAT_SPACING;
+    const seats: SeatPosition[] = [];
+    for (let i = 0; i < n; i++) {
+      const position = i < side ? i : n - 1 - i;
+      const x = -length / 2 + SEAT_SPACING / 2 + position * SEAT_SPACING;
+      seats.push(i < side
+        ? { x, y: -TABLE_DEPTH / 2 - SEAT_OFFSET, nx: 0, ny: -1 }
+        : { x, y: TABLE_DEPTH / 2 + SEAT_OFFSET, nx: 0, ny: 1 });
+    }
+    return { outline: { kind: 'rects', rects: [{ x: -length / 2, y: -TABLE_DEPTH / 2, width: length, height: TABLE_DEPTH }] }, seats };
+  }
+
+  if (shape === 'head') {
+    // Guests sit along the back, facing the room
+    const length = n * SEAT_SPACING;
+    const seats = Array.from({ length: n }, (_, i) => ({
+      x: -length / 2 + SEAT_SPACING / 2 + i * SEAT_SPACING,
+      y: -TABLE_DEPTH / 2 - SEAT_OFFSET,
+      nx: 0,
+      ny: -1,
+    }));
+    return { outline: { kind: 'rects', rects: [{ x: -length / 2, y: -TABLE_DEPTH / 2, width: length, height: TABLE_DEPTH }] }, seats };
+  }
+
+  if (shape === 'u-shape') {
+    // One row along the outside: up the left arm, across the top, down the right arm
+    const arm = Math.floor(n / 3);
+    const base = n - 2 * arm;
+    const width = Math.max(base * SEAT_SPACING, 2 * U_ARM_DEPTH + SEAT_SPACING);
+    const height = arm * SEAT_SPACING + U_ARM_DEPTH;
+    const top = -height / 2, bottom = height / 2, left = -width / 2, right = width / 2;
+    const seats: SeatPosition[] = [];
+    for (let j = 0; j < arm; j++) {
+      seats.push({ x: left - SEAT_OFFSET, y: bottom - SEAT_SPACING / 2 - j * SEAT_SPACING, nx: -1, ny: 0 });
+    }
+    for (let j = 0; j < base; j++) {
+      seats.push({ x: left + (j + 0.5) * (width / base), y: top - SEAT_OFFSET, nx: 0, ny: -1 });
+    }
+    for (let j = 0; j < arm; j++) {
+      seats.push({ x: right + SEAT_OFFSET, y: top + U_ARM_DEPTH + SEAT_SPACING / 2 + j * SEAT_SPACING, nx: 1, ny: 0 });
+    }
+    return {
+      outline: {
+        kind: 'rects',
+        rects: [
+          { x: left, y: top, width, height: U_ARM_DEPTH },
+          { x: left, y: top, width: U_ARM_DEPTH, height },
+          { x: right - U_ARM_DEPTH, y: top, width: U_ARM_DEPTH, height },
+        ],
+      },
+      seats,
+    };
+  }
+
+  const radius = Math.max(28, (n * SEAT_SPACING) / (2 * Math.PI));
+  const seats = Array.from({ length: n }, (_, i) => {
+    const angle = -Math.PI / 2 + (i * 2 * Math.PI) / n;
+    const nx = Math.cos(angle), ny = Math.sin(angle);
+    return { x: nx * (radius + SEAT_OFFSET), y: ny * (radius + SEAT_OFFSET), nx, ny };
+  });
+  return { outline: { kind: 'circle', radius }, seats };
+}
+
+/**
+ * Where a table without a saved layout goes: a grid filling the room in table order
+ */
+export function defaultTableLayout(index: number, tableCount: number): TableLayout {
+  const cols = Math.max(1, Math.ceil(Math.sqrt(tableCount * (ROOM_WIDTH / ROOM_HEIGHT))));
+  const rows = Math.max(1, Math.ceil(tableCount / cols));
+  const cellW = ROOM_WIDTH / cols, cellH = ROOM_HEIGHT / rows;
+  return {
+    x: Math.round(cellW * (index % cols) + cellW / 2),
+    y: Math.round(cellH * Math.floor(index / cols) + cellH / 2),
+    rotation: 0,
+  };
+}
+
+/**
+ * Saved layout of each table, falling back to the default grid slot
+ */
+export function resolveTableLayouts(tables: Table[]): Map<number, TableLayout> {
+  const out = new Map<number, TableLayout>();
+  tables.forEach((t, i) => out.set(t.id, t.layout ?? defaultTableLayout(i, tables.length)));
+  return out;
+}
+
+export const tableCapacity = (t: Table): number => Math.max(1, getCapacity(t));
+
+export const normalizeRotation = (deg: number): number => ((Math.round(deg) % 360) + 360) % 360;
+
+export function clampToRoom(x: number, y: number): { x: number; y: number } {
+  return {
+    x: Math.round(Math.min(ROOM_WIDTH, Math.max(0, x))),
+    y: Math.round(Math.min(ROOM_HEIGHT, Math.max(0, y))),
+  };
+}
+
+export function sanitizeTableLayout(incoming: unknown): TableLayout | undefined {
+  if (!incoming || typeof incoming !== 'object') return undefined;
+  const src = incoming as Record<string, unknown>;
+  const x = Number(src.x), y = Number(src.y), rotation = Number(src.rotation ?? 0);
+  if (!Number.isFinite(x) || !Number.isFinite(y)) return undefined;
+  return { ...clampToRoom(x, y), rotation: Number.isFinite(rotation) ? normalizeRotation(rotation) : 0 };
+}
@@ -0,0 +1,35 @@
+/**
+ * Tests for the column-mapped guest import
+ */
+
+import { buildGuestImport, detectDelimiter, detectHeader, guessColumnMapping, guestImportPayload, isTabularText, readImportRows } from './guestImport';
+import { Guest } from '../types';
+import { createTestTables } from './testFixtures';
+
+export const testGuestImport = () => {
+  const csv = 'First,Last,Party size,Table,Notes,Group\nAnn,Lee,2,Table 1,"Vegan, no nuts",family\nBob,Ray,0,,Declined,\nCy,Norr,1,2,,friends; band\nAnn,Lee,1,,,\n,,,,,\n';
+  console.assert(isTabularText(csv) && detectDelimiter(csv) === ',', 'CSV exports should need column mapping');
+  console.assert(detectDelimiter('Name\tSize\nAnn Lee\t2\n') === '\t', 'Tabs should be detected');
+  console.assert(!isTabularText('Ann Lee\nSmith, John\nCy Norr\n'), 'A plain list with one comma should stay a plain list');
+
+  const rows = readImportRows(csv, ',');
+  console.assert(detectHeader(rows), 'Known column names should mark a header');
+  const mapping = guessColumnMapping(rows, true);
+  console.assert(mapping.join() === 'firstName,lastName,count,assignment,notes,tags', 'Columns should map by header');
+
+  const tables = createTestTables([8, 8]);
+  const existing: Guest[] = [{ id: 'x', name: 'Cy Norr', count: 1 }];
+  const preview = buildGuestImport(rows, mapping, { hasHeader: true, tables, isPremium: false, existing });
+  const [ann, cy, annAgain] = preview.rows;
+  console.assert(ann.name === 'Ann Lee + 1' && ann.count === 2 && ann.assignment === '1' && ann.notes === 'Vegan, no nuts', 'Party size should add seats to the name');
+  console.assert(cy.duplicate && annAgain.duplicate && cy.tags.join() === 'friends,band' && cy.assignment === '2', 'Known names and repeats should be flagged');
+  console.assert(preview.skipped.length === 1 && preview.skipped[0].line === 3, 'Declined (size 0) rows should be skipped');
+
+  const payload = guestImportPayload(preview, () => 'new');
+  console.assert(payload.guests.length === 1 && payload.guests[0].notes === 'Vegan, no nuts' && payload.assignments.new === '1', 'Only new guests should be imported');
+
+  const headerless = readImportRows('Ann Lee;3\nCy Norr;1\n', ';');
+  console.assert(!detectHeader(headerless) && guessColumnMapping(headerless, false).join() === 'name,count', 'Without a header the name and size columns should be guessed');
+
+  console.log('✅ Guest import tests passed!');
+};
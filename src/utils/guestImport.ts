@@ -0,0 +1,256 @@
+// src/utils/guestImport.ts
+import type { Assignments, Guest, Table } from '../types';
+import { parseCSVRows } from './importSettings';
+import { normalizeAssignmentInputToIdsWithWarnings } from './assignments';
+import { countHeads, getDisplayName } from './guestCount';
+import { formatGuestUnitName } from './formatGuestName';
+import { parseTagList } from './guestTags';
+
+/*
+ * Column-mapped guest import for spreadsheet exports (RSVP lists and the like): pick the
+ * delimiter, say which column holds what, and build guests from each row.
+ */
+
+export type ImportDelimiter = ',' | '\t' | ';';
+
+export const IMPORT_DELIMITERS: { value: ImportDelimiter; label: string }[] = [
+  { value: ',', label: 'Comma' },
+  { value: '\t', label: 'Tab' },
+  { value: ';', label: 'Semicolon' },
+];
+
+export type GuestImportField = 'ignore' | 'name' | 'firstName' | 'lastName' | 'count' | 'tags' | 'assignment' | 'notes';
+
+export const GUEST_IMPORT_FIELDS: { value: GuestImportField; label: string }[] = [
+  { value: 'ignore', label: "Don't import" },
+  { value: 'name', label: 'Guest name' },
+  { value: 'firstName', label: 'First name' },
+  { value: 'lastName', label: 'Last name' },
+  { value: 'count', label: 'Party size' },
+  { value: 'tags', label: 'Tags' },
+  { value: 'assignment', label: 'Table' },
+  { value: 'notes', label: 'Notes' },
+];
+
+const HEADER_ALIASES: Record<Exclude<GuestImportField, 'ignore'>, string[]> = {
+  name: ['name', 'guest', 'guests', 'guest name', 'full name', 'party', 'party name', 'household', 'invitee'],
+  firstName: ['first', 'first name', 'firstname', 'given name'],
+  lastName: ['last', 'last name', 'lastname', 'surname', 'family name'],
+  count: ['party size', 'size', 'count', 'seats', 'headcount', 'number of guests', '# guests', 'guest count', 'attending', 'total'],
+  tags: ['tags', 'tag', 'group', 'groups', 'category', 'labels'],
+  assignment: ['table', 'table number', 'table #', 'table no', 'assigned table', 'table assignment', 'assignment', 'seating assignment', 'seating assignments'],
+  notes: ['notes', 'note', 'comments', 'comment', 'remarks'],
+};
+
+const headerKey = (cell: string) => cell.toLowerCase().replace(/[^a-z0-9#]+/g, ' ').trim();
+
+const aliasField = (cell: string): GuestImportField => {
+  const key = headerKey(cell);
+  for (const [field, aliases] of Object.entries(HEADER_ALIASES)) {
+    if (aliases.includes(key)) return field as GuestImportField;
+  }
+  return 'ignore';
+};
+
+const isNumeric = (cell: string) => /^\s*\d+\s*$/.test(cell);
+
+// The delimiter that splits every one of the first lines into the most columns
+function bestDelimiter(text: string): { delimiter: ImportDelimiter; columns: number } {
+  const sample = text.split(/\r\n|\n|\r/).filter(line => line.trim()).slice(0, 20).join('\n');
+  let best: { delimiter: ImportDelimiter; columns: number } = { delimiter: ',', columns: 0 };
+  let bestScore = 0;
+  for (const delimiter of ['\t', ',', ';'] as ImportDelimiter[]) {
+    const widths = parseCSVRows(sample, delimiter).map(row => row.length);
+    if (widths.length === 0) continue;
+    const columns = Math.min(...widths);
+    const consistency = widths.filter(w => w === widths[0]).length / widths.length;
+    const score = columns > 1 ? columns * consistency : 0;
+    if (score > bestScore) {
+      best = { delimiter, columns };
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+export function detectDelimiter(text: string): ImportDelimiter {
+  return bestDelimiter(text).delimiter;
+}
+
+/**
+ * True when every line splits into columns, i.e. the file needs the column mapping step.
+ * A plain list with the odd "Smith, John" stays a one-name-per-line list.
+ */
+export function isTabularText(text: string): boolean {
+  return bestDelimiter(text).columns > 1;
+}
+
+/**
+ * Non-blank rows, cells trimmed, trailing empty cells (spreadsheet padding) dropped
+ */
+export function cleanImportRows(rows: (string | number | null)[][]): string[][] {
+  return rows
+    .map(row => {
+      const cells = row.map(cell => (cell === null || cell === undefined ? '' : String(cell).trim()));
+      while (cells.length > 0 && cells[cells.length - 1] === '') cells.pop();
+      return cells;
+    })
+    .filter(row => row.length > 0);
+}
+
+export function readImportRows(text: string, delimiter: ImportDelimiter): string[][] {
+  return cleanImportRows(parseCSVRows(text, delimiter));
+}
+
+/**
+ * A first row is a header when it names a known column, or when it has text where
+ * every later row has a number
+ */
+export function detectHeader(rows: string[][]): boolean {
+  if (rows.length < 2) return false;
+  const [first, ...rest] = rows;
+  if (first.some(cell => aliasField(cell) !== 'ignore')) return true;
+  return first.some((cell, i) => cell && !isNumeric(cell) && rest.every(row => isNumeric(row[i] ?? '')));
+}
+
+/**
+ * Best guess at what each column holds: by header name, or (without a header) the first
+ * column as the name and the first all-number column as the party size
+ */
+export function guessColumnMapping(rows: string[][], hasHeader: boolean): GuestImportField[] {
+  const width = Math.max(0, ...rows.map(row => row.length));
+  const mapping: GuestImportField[] = Array(width).fill('ignore');
+  const used = new Set<GuestImportField>();
+  const take = (i: number, field: GuestImportField) => {
+    if (field === 'ignore' || used.has(field)) return;
+    mapping[i] = field;
+    used.add(field);
+  };
+
+  if (hasHeader && rows.length > 0) {
+    rows[0].forEach((cell, i) => take(i, aliasField(cell)));
+    if (used.has('name')) {
+      // A full-name column makes first/last redundant
+      mapping.forEach((field, i) => { if (field === 'firstName' || field === 'lastName') mapping[i] = 'ignore'; });
+    }
+    return mapping;
+  }
+
+  if (width > 0) take(0, 'name');
+  for (let i = 1; i < width; i++) {
+    if (rows.length > 0 && rows.every(row => isNumeric(row[i] ?? ''))) {
+      take(i, 'count');
+      break;
+    }
+  }
+  return mapping;
+}
+
+export interface GuestImportRow {
+  line: number;       // 1-based, counting non-blank rows
+  name: string;       // formatted, with "+N" added when the party size asks for more seats
+  count: number;      // countHeads of the name
+  tags: string[];
+  assignment: string; // table id CSV
+  notes: string;
+  warnings: string[];
+  duplicate: boolean; // already in the guest list, or an earlier row
+}
+
+export interface GuestImportPreview {
+  rows: GuestImportRow[];
+  skipped: { line: number; reason: string }[];
+}
+
+export interface GuestImportOptions {
+  hasHeader: boolean;
+  tables: Table[];
+  isPremium: boolean;     // table names in assignments are a premium feature
+  existing: Guest[];
+}
+
+// "Ann Lee" and "Ann Lee + 1" are the same party
+const nameKey = (name: string) => getDisplayName(name).replace(/\s+/g, ' ').trim().toLowerCase();
+
+/**
+ * Guests the mapped rows describe, with what would be skipped and why
+ */
+export function buildGuestImport(rows: string[][], mapping: GuestImportField[], options: GuestImportOptions): GuestImportPreview {
+  const columnOf = (field: GuestImportField) => mapping.indexOf(field);
+  const cell = (row: string[], field: GuestImportField) => {
+    const i = columnOf(field);
+    return i >= 0 ? (row[i] ?? '').trim() : '';
+  };
+  const seen = new Set(options.existing.map(g => nameKey(g.name)));
+  const preview: GuestImportPreview = { rows: [], skipped: [] };
+
+  rows.forEach((row, index) => {
+    if (index === 0 && options.hasHeader) return;
+    const line = index + 1;
+    const fullName = cell(row, 'name') || [cell(row, 'firstName'), cell(row, 'lastName')].filter(Boolean).join(' ');
+    if (!fullName) {
+      preview.skipped.push({ line, reason: 'No name' });
+      return;
+    }
+
+    const warnings: string[] = [];
+    let name = formatGuestUnitName(fullName);
+    const sizeCell = cell(row, 'count');
+    if (sizeCell) {
+      const size = parseInt(sizeCell, 10);
+      const heads = Math.max(1, countHeads(name));
+      if (!isNumeric(sizeCell)) {
+        warnings.push(`Party size "${sizeCell}" is not a number`);
+      } else if (size === 0) {
+        preview.skipped.push({ line, reason: `${name}: party size 0` });
+        return;
+      } else if (size > heads) {
+        // The app counts seats from the name, so extra seats become "+N"
+        name = formatGuestUnitName(`${name} + ${size - heads}`);
+      } else if (size < heads) {
+        warnings.push(`Party size ${size} is less than the ${heads} names listed`);
+      }
+    }
+
+    const { idCsv, warnings: tableWarnings } = normalizeAssignmentInputToIdsWithWarnings(
+      cell(row, 'assignment').replace(/\btable\s*(?:#|no\.?)?\s*/gi, ''),
+      options.tables,
+      options.isPremium
+    );
+    warnings.push(...tableWarnings);
+
+    const key = nameKey(name);
+    preview.rows.push({
+      line,
+      name,
+      count: Math.max(1, countHeads(name)),
+      tags: parseTagList(cell(row, 'tags')),
+      assignment: idCsv,
+      notes: cell(row, 'notes'),
+      warnings,
+      duplicate: seen.has(key),
+    });
+    seen.add(key);
+  });
+  return preview;
+}
+
+/**
+ * Guests and assignments to add, leaving out duplicates
+ */
+export function guestImportPayload(
+  preview: GuestImportPreview,
+  newId: () => string = () => crypto.randomUUID()
+): { guests: Guest[]; assignments: Assignments } {
+  const guests: Guest[] = [];
+  const assignments: Assignments = {};
+  for (const row of preview.rows) {
+    if (row.duplicate) continue;
+    const guest: Guest = { id: newId(), name: row.name, count: row.count };
+    if (row.tags.length) guest.tags = row.tags;
+    if (row.notes) guest.notes = row.notes;
+    if (row.assignment) assignments[guest.id] = row.assignment;
+    guests.push(guest);
+  }
+  return { guests, assignments };
+}
@@ -0,0 +1,31 @@
+/**
+ * Tests for the find-your-seat lookup
+ */
+
+import { buildGuestLookup, filterGuestLookup } from './guestLookup';
+import { SeatingPlan } from '../types';
+
+export const testGuestLookup = () => {
+  const plan: SeatingPlan = {
+    id: 1,
+    tables: [
+      { id: 1, capacity: 4, seats: [
+        { name: 'Zoë %Óbrien + Max Payne', partyIndex: 0, id: 'z' },
+        { name: 'Zoë %Óbrien + Max Payne', partyIndex: 1, id: 'z' },
+        { name: 'Al Berg', partyIndex: 0, id: 'a' },
+      ] },
+      { id: 2, capacity: 4, seats: [{ name: 'Cy Norr + 1', partyIndex: 1, id: 'c', seat: 3 }, { name: 'Cy Norr + 1', partyIndex: 0, id: 'c', seat: 2 }] },
+    ],
+  };
+  const entries = buildGuestLookup(plan, id => `Table ${id}`);
+  console.assert(entries.map(e => e.key).join() === 'a,c,z', 'Lookup should be alphabetical by surname');
+  console.assert(entries[2].letter === 'O', 'Index letters should ignore accents and sort markers');
+  const cy = entries[1];
+  console.assert(cy.members.join('|') === 'Cy Norr|Guest of Cy Norr' && cy.seats.join() === '3,4', 'Parties should list every seat in party order');
+
+  console.assert(filterGuestLookup(entries, 'max').map(e => e.key).join() === 'z', 'Search should match party members');
+  console.assert(filterGuestLookup(entries, 'zoe obrien').length === 1, 'Search should ignore case and accents');
+  console.assert(filterGuestLookup(entries, 'table 2').map(e => e.key).join() === 'c', 'Search should match table labels');
+
+  console.log('✅ Guest lookup tests passed!');
+};
@@ -0,0 +1,67 @@
+// src/utils/guestLookup.ts
+import type { SeatingPlan } from '../types';
+import { formatGuestUnitName } from './formatGuestName';
+import { getLastNameForSorting } from './formatters';
+import { cleanGuestName, seatCardName } from './printCards';
+import { seatsByIndex } from './seatPins';
+
+export interface GuestLookupEntry {
+  key: string;        // guest id, or the name for seats without one
+  name: string;       // party name as printed
+  members: string[];  // one name per seat, in party order
+  tableId: number;
+  table: string;
+  seats: number[];    // 1-based seat numbers at the table
+  letter: string;     // index letter, from the sorting surname
+}
+
+// Case- and accent-insensitive form for matching
+const fold = (text: string) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/%/g, '').toLowerCase();
+
+/**
+ * Every seated party in a plan, alphabetical by surname (getLastNameForSorting), with the
+ * names of each seat in the party and where they sit
+ */
+export function buildGuestLookup(plan: SeatingPlan, tableLabel: (tableId: number) => string): GuestLookupEntry[] {
+  const entries: (GuestLookupEntry & { sortKey: string })[] = [];
+  for (const t of plan.tables) {
+    const parties = new Map<string, { raw: string; seats: { partyIndex: number; number: number }[] }>();
+    seatsByIndex(t.seats).forEach((seat, i) => {
+      if (!seat) return;
+      const key = seat.id ?? seat.name;
+      if (!parties.has(key)) parties.set(key, { raw: seat.name, seats: [] });
+      parties.get(key)!.seats.push({ partyIndex: seat.partyIndex, number: i + 1 });
+    });
+    for (const [key, party] of parties) {
+      const ordered = [...party.seats].sort((a, b) => a.partyIndex - b.partyIndex);
+      const sortKey = fold(getLastNameForSorting(formatGuestUnitName(party.raw)));
+      entries.push({
+        key,
+        name: cleanGuestName(party.raw),
+        members: ordered.map(s => seatCardName(party.raw, s.partyIndex)),
+        tableId: t.id,
+        table: tableLabel(t.id),
+        seats: party.seats.map(s => s.number).sort((a, b) => a - b),
+        letter: /^[a-z]/.test(sortKey) ? sortKey[0].toUpperCase() : '#',
+        sortKey,
+      });
+    }
+  }
+  entries.sort((a, b) => a.sortKey.localeCompare(b.sortKey) || a.name.localeCompare(b.name));
+  return entries.map(e => ({
+    key: e.key, name: e.name, members: e.members, tableId: e.tableId, table: e.table, seats: e.seats, letter: e.letter,
+  }));
+}
+
+/**
+ * Entries matching every word of the query in a party or member name, or the table label
+ */
+export function filterGuestLookup(entries: GuestLookupEntry[], query: string): GuestLookupEntry[] {
+  const terms = fold(query).split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return entries;
+  return entries.filter(e => {
+    const haystack = fold([e.name, ...e.members, e.table].join(' '));
+    return terms.every(term => haystack.includes(term));
+  });
+}
@@ -0,0 +1,21 @@
+/**
+ * Tests for guest tags and attributes
+ */
+
+import { addGuestTags, getGuestTags, removeGuestTag } from './guestTags';
+import { Guest } from '../types';
+
+export const testBulkGuestTags = () => {
+  const guest: Guest = { id: 'a', name: 'Ann Lee', count: 1, attributes: { side: 'Bride', dietary: ['vegan', 'nut allergy'], vip: true }, tags: ['band'] };
+  const added = addGuestTags(guest, 'Band, Cousins; cousins');
+  console.assert(added.tags?.join() === 'band,cousins' && added.attributes === guest.attributes, 'Adding should merge normalized free tags');
+
+  console.assert(getGuestTags({ ...guest, ...removeGuestTag(guest, 'band') }).join() === 'side:bride,diet:vegan,diet:nut allergy,vip', 'Free tags should be removable');
+  const noDiet = removeGuestTag(guest, 'diet:vegan');
+  console.assert(noDiet.attributes?.dietary?.join() === 'nut allergy' && noDiet.tags?.join() === 'band', 'Derived tags should clear their attribute');
+  const noSide = removeGuestTag({ attributes: { side: 'Bride' } }, 'side:bride');
+  console.assert(noSide.attributes === undefined && noSide.tags?.length === 0, 'Emptied attributes should be dropped');
+  console.assert(removeGuestTag(guest, 'vip').attributes?.vip === undefined, 'VIP should be removable');
+
+  console.log('✅ Bulk guest tag tests passed!');
+};
@@ -0,0 +1,174 @@
+// src/utils/guestTags.ts
+import type { AgeGroup, Guest, GuestAttributes, GuestID, TagRule, TagRuleMode } from '../types';
+
+export const AGE_GROUPS: AgeGroup[] = ['adult', 'teen', 'child', 'infant'];
+
+const MAX_TAG_LENGTH = 40;
+
+export const normalizeTag = (raw: string): string =>
+  String(raw ?? '').trim().replace(/\s+/g, ' ').toLowerCase().slice(0, MAX_TAG_LENGTH);
+
+/**
+ * Split "vegan, Bride's side; vip" into normalized, de-duplicated tags
+ */
+export function parseTagList(raw: string): string[] {
+  const out: string[] = [];
+  for (const part of String(raw ?? '').split(/[,;]+/)) {
+    const tag = normalizeTag(part);
+    if (tag && !out.includes(tag)) out.push(tag);
+  }
+  return out;
+}
+
+/**
+ * All tags a guest carries: free-form tags plus ones derived from typed attributes
+ * (side:<value>, age:<group>, diet:<value>, vip).
+ */
+export function getGuestTags(guest: Pick<Guest, 'attributes' | 'tags'>): string[] {
+  const tags: string[] = [];
+  const add = (t: string) => { if (t && !tags.includes(t)) tags.push(t); };
+  const a = guest.attributes;
+  if (a?.side) add(`side:${normalizeTag(a.side)}`);
+  if (a?.ageGroup) add(`age:${a.ageGroup}`);
+  for (const d of a?.dietary ?? []) add(`diet:${normalizeTag(d)}`);
+  if (a?.vip) add('vip');
+  for (const t of guest.tags ?? []) add(normalizeTag(t));
+  return tags;
+}
+
+/**
+ * The guest's tags and attributes with free-form tags added, e.g. from a bulk edit
+ */
+export function addGuestTags(guest: Pick<Guest, 'attributes' | 'tags'>, raw: string): Pick<Guest, 'attributes' | 'tags'> {
+  const tags = [...(guest.tags ?? []).map(normalizeTag)];
+  for (const t of parseTagList(raw)) if (!tags.includes(t)) tags.push(t);
+  return { attributes: guest.attributes, tags };
+}
+
+/**
+ * The guest's tags and attributes without one tag as getGuestTags reports it; a derived
+ * tag ("side:bride", "diet:vegan", "vip") clears the attribute it came from
+ */
+export function removeGuestTag(guest: Pick<Guest, 'attributes' | 'tags'>, tag: string): Pick<Guest, 'attributes' | 'tags'> {
+  const key = normalizeTag(tag);
+  const attributes: GuestAttributes = { ...(guest.attributes ?? {}) };
+  if (attributes.side && key === `side:${normalizeTag(attributes.side)}`) delete attributes.side;
+  if (attributes.ageGroup && key === `age:${attributes.ageGroup}`) delete attributes.ageGroup;
+  if (attributes.dietary) {
+    attributes.dietary = attributes.dietary.filter(d => key !== `diet:${normalizeTag(d)}`);
+    if (attributes.dietary.length === 0) delete attributes.dietary;
+  }
+  if (attributes.vip && key === 'vip') delete attributes.vip;
+  return {
+    attributes: Object.keys(attributes).length ? attributes : undefined,
+    tags: (guest.tags ?? []).filter(t => normalizeTag(t) !== key),
+  };
+}
+
+/**
+ * Sorted union of every tag used in the guest list
+ */
+export function collectTags(guests: Guest[]): string[] {
+  const all = new Set<string>();
+  guests.forEach(g => getGuestTags(g).forEach(t => all.add(t)));
+  return Array.from(all).sort();
+}
+
+/**
+ * Dimensions ("side:", "age:", "diet:") present in the tag list
+ */
+export function collectTagDimensions(tags: string[]): string[] {
+  const dims = new Set<string>();
+  tags.forEach(t => {
+    const i = t.indexOf(':');
+    if (i > 0) dims.add(t.slice(0, i + 1));
+  });
+  return Array.from(dims).sort();
+}
+
+export const isTagDimension = (tag: string): boolean => tag.endsWith(':');
+
+export function guestHasTag(guest: Pick<Guest, 'attributes' | 'tags'>, tag: string): boolean {
+  const wanted = normalizeTag(tag);
+  const tags = getGuestTags(guest);
+  return isTagDimension(wanted) ? tags.some(t => t.startsWith(wanted)) : tags.includes(wanted);
+}
+
+/**
+ * Guest id sets a rule applies to. A dimension rule ("side:") yields one set per value,
+ * so "group by side" keeps each side together rather than everyone with any side.
+ */
+export function resolveTagRuleMembers(rule: TagRule, guests: Guest[]): GuestID[][] {
+  const tag = normalizeTag(rule.tag);
+  if (!isTagDimension(tag)) {
+    const members = guests.filter(g => getGuestTags(g).includes(tag)).map(g => g.id);
+    return members.length > 1 ? [members] : [];
+  }
+  const byValue = new Map<string, GuestID[]>();
+  for (const g of guests) {
+    for (const t of getGuestTags(g)) {
+      if (!t.startsWith(tag)) continue;
+      if (!byValue.has(t)) byValue.set(t, []);
+      byValue.get(t)!.push(g.id);
+    }
+  }
+  return Array.from(byValue.values()).filter(ids => ids.length > 1);
+}
+
+/**
+ * Display label: "side:bride" → "Side: bride", "vip" → "VIP"
+ */
+export function formatTag(tag: string): string {
+  if (tag === 'vip') return 'VIP';
+  const i = tag.indexOf(':');
+  if (i <= 0) return tag;
+  const dim = tag.slice(0, i);
+  const label = dim === 'age' ? 'Age' : dim === 'diet' ? 'Diet' : dim === 'side' ? 'Side' : dim;
+  const value = tag.slice(i + 1);
+  return value ? `${label}: ${value}` : `Any ${label.toLowerCase()}`;
+}
+
+export function describeTagRule(rule: TagRule): string {
+  const tag = normalizeTag(rule.tag);
+  const what = isTagDimension(tag) ? `each ${formatTag(tag).replace(/^Any /, '')}` : `"${formatTag(tag)}" guests`;
+  return rule.mode === 'group' ? `Seat ${what} together` : `Spread ${what} across tables`;
+}
+
+export function sanitizeGuestAttributes(incoming: unknown): GuestAttributes | undefined {
+  if (!incoming || typeof incoming !== 'object') return undefined;
+  const src = incoming as Record<string, unknown>;
+  const out: GuestAttributes = {};
+  if (typeof src.side === 'string' && src.side.trim()) out.side = src.side.trim().slice(0, MAX_TAG_LENGTH);
+  if (typeof src.ageGroup === 'string' && (AGE_GROUPS as string[]).includes(src.ageGroup)) {
+    out.ageGroup = src.ageGroup as AgeGroup;
+  }
+  if (Array.isArray(src.dietary)) {
+    const dietary = parseTagList(src.dietary.filter(d => typeof d === 'string').join(','));
+    if (dietary.length) out.dietary = dietary;
+  }
+  if (src.vip === true) out.vip = true;
+  return Object.keys(out).length ? out : undefined;
+}
+
+export function sanitizeTags(incoming: unknown): string[] | undefined {
+  if (!Array.isArray(incoming)) return undefined;
+  const tags = parseTagList(incoming.filter(t => typeof t === 'string').join(','));
+  return tags.length ? tags : undefined;
+}
+
+export function sanitizeTagRules(incoming: unknown): TagRule[] {
+  if (!Array.isArray(incoming)) return [];
+  const modes: TagRuleMode[] = ['group', 'mix'];
+  const out: TagRule[] = [];
+  incoming.forEach((r, i) => {
+    if (!r || typeof r !== 'object') return;
+    const src = r as Record<string, unknown>;
+    const tag = typeof src.tag === 'string' ? normalizeTag(src.tag) : '';
+    if (!tag || !modes.includes(src.mode as TagRuleMode)) return;
+    // One rule per tag; the later one wins
+    const existing = out.findIndex(x => x.tag === tag);
+    if (existing >= 0) out.splice(existing, 1);
+    out.push({ id: typeof src.id === 'string' && src.id ? src.id : `rule-${i + 1}`, tag, mode: src.mode as TagRuleMode });
+  });
+  return out;
+}
@@ -0,0 +1,64 @@
+/**
+ * Tests for undo/redo history
+ */
+
+import { createHistory, describeAppAction, restoreAppState, snapshotAppState, withHistory } from './history';
+import { AppState, Guest } from '../types';
+import { createGenerationTracker } from '../workers/seatingWorkerClient';
+
+export const testHistory = () => {
+  type CountAction = { type: string; payload?: number };
+  const counter = withHistory((n: number, a: CountAction) => (a.type === 'ADD' ? n + (a.payload ?? 0) : a.type === 'TICK' ? n + 100 : n), {
+    limit: 3,
+    describe: (a, _before, after) => (a.type === 'ADD' ? `Added to ${after}` : null),
+    snapshot: n => n,
+    restore: snapshot => snapshot,
+    resets: a => a.type === 'RESET',
+  });
+  let h = createHistory<number, number>(0);
+  for (const step of [1, 2, 3, 4]) h = counter(h, { type: 'ADD', payload: step });
+  console.assert(h.present === 10 && h.past.length === 3 && h.past[0].label === 'Added to 3', 'History should keep only the newest steps');
+
+  h = counter(h, { type: 'UNDO', payload: 2 });
+  console.assert(h.present === 3 && h.future.map(e => e.label).join() === 'Added to 6,Added to 10', 'Undo should move steps to redo');
+  h = counter(h, { type: 'TICK' });
+  console.assert(h.present === 103 && h.future.length === 2, 'Unlabelled changes should not be steps or drop redo');
+  h = counter(h, { type: 'REDO' });
+  console.assert(h.present === 6 && h.past.length === 2 && h.future.length === 1, 'Redo should restore the next snapshot');
+  h = counter(h, { type: 'ADD', payload: 1 });
+  console.assert(h.future.length === 0 && counter(h, { type: 'REDO' }) === h, 'A new step should clear redo');
+  console.assert(counter(h, { type: 'RESET' }).past.length === 0, 'Resets should forget the history');
+
+  const guests: Guest[] = [{ id: 'a', name: 'Ann Lee', count: 1 }, { id: 'b', name: 'Bob Ray', count: 1 }];
+  const before = { guests, tables: [{ id: 4, seats: 8, name: 'Head' }], constraints: {}, user: { id: 'u1' }, sessionVersion: 7 } as unknown as AppState;
+  const after = { ...before, guests: [guests[1]], tables: [], constraints: { a: { b: 'cannot' } } } as unknown as AppState;
+  console.assert(describeAppAction({ type: 'REMOVE_TABLE', payload: 4 }, before, after) === 'Removed table 4 (Head)', 'Table steps should name the table');
+  console.assert(describeAppAction({ type: 'REMOVE_GUESTS', payload: ['a'] }, before, after) === 'Removed Ann Lee', 'Guest steps should name the guest');
+  console.assert(describeAppAction({ type: 'SET_CONSTRAINT', payload: { guest1: 'a', guest2: 'b', value: 'cannot' } }, before, after) === 'Ann Lee & Bob Ray: cannot sit together', 'Rule steps should name the pair');
+  console.assert(describeAppAction({ type: 'SET_SEATING_PLANS', payload: [] }, before, after) === null, 'Generated plans should not be steps');
+
+  const snapshot = snapshotAppState(before);
+  console.assert(!('user' in snapshot), 'Snapshots should leave out the account');
+  const restored = restoreAppState(snapshot, { ...after, user: { id: 'u2' }, sessionVersion: 9 } as unknown as AppState);
+  console.assert(restored.guests.length === 2 && restored.user?.id === 'u2' && restored.sessionVersion === 10, 'Restoring should keep the session and bump the version');
+
+  // Undo stops the run started by the undone step, so its plans can't land on the restored state
+  type PlanState = { guests: string[]; plans: string[] };
+  const planHistory = withHistory((st: PlanState, a: { type: string; payload?: string[] }) => {
+    if (a.type === 'SET_GUESTS') return { guests: a.payload ?? [], plans: [] };
+    if (a.type === 'SET_SEATING_PLANS') return { ...st, plans: a.payload ?? [] };
+    return st;
+  }, { describe: a => (a.type === 'SET_GUESTS' ? 'Replaced the guest list' : null), snapshot: st => st, restore: snapshot => snapshot });
+  const tracker = createGenerationTracker();
+  let ph = createHistory<PlanState, PlanState>({ guests: ['a', 'b'], plans: ['a+b'] });
+  ph = planHistory(ph, { type: 'SET_GUESTS', payload: ['a'] });
+  const run = tracker.start();
+  tracker.stop();
+  ph = planHistory(ph, { type: 'UNDO' });
+  if (tracker.isCurrent(run)) ph = planHistory(ph, { type: 'SET_SEATING_PLANS', payload: ['a'] });
+  console.assert(run.signal.aborted && ph.present.plans.join() === 'a+b', 'Undo should drop the plans of a run started before it');
+  const next = tracker.start();
+  console.assert(tracker.isCurrent(next) && !tracker.isCurrent(run), 'A new run should be the current one');
+
+  console.log('✅ History tests passed!');
+};
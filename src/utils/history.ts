@@ -0,0 +1,243 @@
+// src/utils/history.ts
+import type { AppState, Guest, GuestID, Table, TableID } from '../types';
+
+/*
+ * Undo/redo for a reducer: each labelled step keeps a snapshot of the state before it,
+ * so undoing swaps the present for that snapshot and redoing swaps it back.
+ */
+
+export const MAX_HISTORY = 50;
+
+export interface HistoryEntry<T> {
+  label: string;
+  snapshot: T;
+}
+
+export interface History<S, T> {
+  present: S;
+  past: HistoryEntry<T>[];    // oldest first; the last entry is the next undo
+  future: HistoryEntry<T>[];  // the first entry is the next redo
+}
+
+export interface HistoryOptions<S, T, A> {
+  limit?: number;
+  describe: (action: A, before: S, after: S) => string | null;  // null: not a user step
+  snapshot: (state: S) => T;
+  restore: (snapshot: T, current: S) => S;
+  resets?: (action: A, before: S, after: S) => boolean;        // forget the history, e.g. on sign out
+}
+
+type HistoryAction = { type: string; payload?: unknown };
+
+export function createHistory<S, T>(present: S): History<S, T> {
+  return { present, past: [], future: [] };
+}
+
+/**
+ * The reducer with history. UNDO and REDO take an optional number of steps (default 1);
+ * every other action goes to the reducer, and is recorded when describe gives it a label.
+ */
+export function withHistory<S, T, A extends HistoryAction>(
+  reducer: (state: S, action: A) => S,
+  options: HistoryOptions<S, T, A>
+): (history: History<S, T>, action: A) => History<S, T> {
+  const limit = options.limit ?? MAX_HISTORY;
+
+  return (history, action) => {
+    if (action.type === 'UNDO' || action.type === 'REDO') {
+      const undo = action.type === 'UNDO';
+      const available = undo ? history.past.length : history.future.length;
+      const steps = Math.min(available, Math.max(1, Math.floor(Number(action.payload) || 1)));
+      if (steps === 0) return history;
+
+      const past = [...history.past];
+      const future = [...history.future];
+      let present = history.present;
+      for (let i = 0; i < steps; i++) {
+        const entry = undo ? past.pop()! : future.shift()!;
+        const current = { label: entry.label, snapshot: options.snapshot(present) };
+        if (undo) future.unshift(current);
+        else past.push(current);
+        present = options.restore(entry.snapshot, present);
+      }
+      return { present, past, future };
+    }
+
+    const before = history.present;
+    const after = reducer(before, action);
+    if (options.resets?.(action, before, after)) return createHistory(after);
+    if (after === before) return history;
+
+    const label = options.describe(action, before, after);
+    if (!label) return { ...history, present: after };
+    // A new step makes the undone ones unreachable
+    const past = [...history.past, { label, snapshot: options.snapshot(before) }].slice(-limit);
+    return { present: after, past, future: [] };
+  };
+}
+
+// AppState history
+
+// Who is signed in and what they pay for are not part of an edit
+export type AppSnapshot = Omit<AppState, 'user' | 'subscription' | 'trial'>;
+
+export function snapshotAppState(state: AppState): AppSnapshot {
+  const snapshot: Partial<AppState> = { ...state };
+  delete snapshot.user;
+  delete snapshot.subscription;
+  delete snapshot.trial;
+  return snapshot as AppSnapshot;
+}
+
+/**
+ * The snapshot with the current session kept: the account, the startup flags, and a newer
+ * sessionVersion so autosave picks up the change
+ */
+export function restoreAppState(snapshot: AppSnapshot, current: AppState): AppState {
+  return {
+    ...snapshot,
+    user: current.user,
+    subscription: current.subscription,
+    trial: current.trial,
+    isSupabaseConnected: current.isSupabaseConnected,
+    isReady: current.isReady,
+    loadedRestoreDecision: current.loadedRestoreDecision,
+    sessionVersion: current.sessionVersion + 1,
+    timestamp: new Date().toISOString(),
+  };
+}
+
+const guestName = (guests: Guest[], id: GuestID | undefined) =>
+  guests.find(g => g.id === id)?.name ?? 'a guest';
+
+const tableName = (tables: Table[], id: unknown) => {
+  const table = tables.find(t => t.id === Number(id));
+  return table?.name ? `table ${id} (${table.name})` : `table ${id}`;
+};
+
+const count = (n: number, noun: string) => `${n} ${noun}${n === 1 ? '' : 's'}`;
+
+const RULE_LABELS: Record<string, string> = {
+  must: 'must sit together',
+  cannot: 'cannot sit together',
+  prefer: 'prefer together',
+  avoid: 'prefer apart',
+};
+
+// The payload fields the labels read
+interface LabelPayload {
+  id?: GuestID | TableID;
+  name?: string;
+  guestId?: GuestID;
+  tableId?: TableID;
+  seat?: number;
+  guest1?: GuestID;
+  guest2?: GuestID;
+  a?: GuestID;
+  b?: GuestID;
+  seats?: number;
+  shape?: unknown;
+  layout?: unknown;
+  rules?: unknown;
+}
+
+/**
+ * History label for an action, e.g. "Removed table 4"; null for actions that are not edits
+ * (sign in, loading, generated plans, page navigation)
+ */
+export function describeAppAction(action: HistoryAction, before: AppState, after: AppState): string | null {
+  const p = (action.payload ?? {}) as LabelPayload;
+  const ids = Array.isArray(action.payload) ? action.payload : [];
+  switch (action.type) {
+    case 'ADD_GUEST':
+      return `Added ${p.name}`;
+    case 'ADD_GUESTS': {
+      const added = after.guests.length - before.guests.length;
+      return added === 1 ? `Added ${after.guests[after.guests.length - 1].name}` : `Added ${count(added, 'guest')}`;
+    }
+    case 'REMOVE_GUEST':
+      return `Removed ${guestName(before.guests, action.payload as GuestID)}`;
+    case 'REMOVE_GUESTS': {
+      const removed = before.guests.length - after.guests.length;
+      return removed === 1 ? `Removed ${guestName(before.guests, ids[0])}` : `Removed ${count(removed, 'guest')}`;
+    }
+    case 'RENAME_GUEST':
+      return `Renamed ${guestName(before.guests, p.id as GuestID)} to ${guestName(after.guests, p.id as GuestID)}`;
+    case 'UPDATE_GUEST_TAGS':
+      return `Edited tags for ${guestName(before.guests, p.id as GuestID)}`;
+    case 'UPDATE_GUESTS':
+      return ids.length === 1 ? `Edited ${guestName(before.guests, ids[0]?.id)}` : `Edited ${count(ids.length, 'guest')}`;
+    case 'SET_GUESTS':
+      return 'Replaced the guest list';
+    case 'UPDATE_ASSIGNMENT':
+      return `Changed the table assignment for ${guestName(before.guests, p.guestId)}`;
+    case 'SET_CONSTRAINT':
+    case 'CYCLE_CONSTRAINT': {
+      const a = action.type === 'SET_CONSTRAINT' ? p.guest1 : p.a;
+      const b = action.type === 'SET_CONSTRAINT' ? p.guest2 : p.b;
+      const pair = `${guestName(before.guests, a)} & ${guestName(before.guests, b)}`;
+      const value = a && b ? after.constraints[a]?.[b] : '';
+      return value ? `${pair}: ${RULE_LABELS[value] ?? value}` : `Cleared the rule for ${pair}`;
+    }
+    case 'SET_TAG_RULES':
+      return 'Changed tag rules';
+    case 'SET_GENERATION_OPTIONS':
+      return 'Changed generation options';
+    case 'ADD_TABLE':
+      return `Added ${tableName(after.tables, after.tables[after.tables.length - 1]?.id)}`;
+    case 'REMOVE_TABLE':
+      return `Removed ${tableName(before.tables, action.payload)}`;
+    case 'RENUMBER_TABLES':
+      return 'Renumbered tables';
+    case 'UPDATE_TABLE': {
+      const table = tableName(before.tables, p.id);
+      if (p.seats !== undefined) return `Set ${table} to ${count(Number(p.seats), 'seat')}`;
+      if (p.name !== undefined) return `Renamed ${table}`;
+      if (p.shape !== undefined) return `Changed the shape of ${table}`;
+      if (p.layout !== undefined) return p.layout ? `Moved ${table}` : `Reset the position of ${table}`;
+      if (p.rules !== undefined) return `Changed rules for ${table}`;
+      return `Edited ${table}`;
+    }
+    case 'LOCK_TABLE_FROM_PLAN':
+      return `Locked ${tableName(before.tables, p.tableId)}`;
+    case 'UNLOCK_TABLE':
+      return `Unlocked ${tableName(before.tables, p.tableId)}`;
+    case 'LOCK_GUEST_TO_TABLE':
+      return `Locked ${guestName(before.guests, p.guestId)} to ${tableName(before.tables, p.tableId)}`;
+    case 'UNLOCK_GUEST':
+      return `Unlocked ${guestName(before.guests, p.guestId)}`;
+    case 'PIN_SEAT':
+      return `Pinned ${guestName(before.guests, p.guestId)} to ${tableName(before.tables, p.tableId)}, seat ${Number(p.seat) + 1}`;
+    case 'UNPIN_SEAT':
+      return `Unpinned ${guestName(before.guests, p.guestId)}`;
+    case 'START_PLAN_EDIT':
+      return 'Started editing the plan';
+    case 'MOVE_EDITED_PLAN_GUEST':
+      return `Moved ${guestName(before.guests, p.guestId)} to ${tableName(before.tables, p.tableId)}`;
+    case 'DISCARD_EDITED_PLAN':
+      return 'Discarded plan edits';
+    case 'SET_BASELINE_PLAN':
+      return 'Set the comparison baseline';
+    case 'CLEAR_BASELINE_PLAN':
+      return 'Cleared the comparison baseline';
+    case 'APPLY_SETTINGS_IMPORT':
+      return 'Imported settings';
+    case 'IMPORT_STATE':
+    case 'LOAD_SAVED_SETTING':
+      return 'Loaded a saved setting';
+    case 'CLEAR_ALL':
+      return 'Cleared all data';
+    default:
+      return null;
+  }
+}
+
+/**
+ * A new account, a sign out, or the startup restore starts a fresh history, so one
+ * person's edits can't be undone into another's session
+ */
+export function resetsAppHistory(action: HistoryAction, before: AppState, after: AppState): boolean {
+  if (action.type === 'RESET_APP_STATE' || action.type === 'LOAD_MOST_RECENT') return after !== before;
+  if (action.type === 'SET_USER') return (before.user?.id ?? null) !== (after.user?.id ?? null);
+  return false;
+}
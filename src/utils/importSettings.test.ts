@@ -0,0 +1,58 @@
+/**
+ * Tests for re-importing the settings CSV export
+ */
+
+import { exportSettingsToCSV } from './exportSettings';
+import { parseCSVRows, parseSettingsCSV, resolveSettingsImport } from './importSettings';
+import { Constraints, Guest, Table } from '../types';
+
+export const testSettingsImport = () => {
+  const rows = parseCSVRows('\ufeffa,"b, ""c""",\r\n"multi\nline",d\r\n');
+  console.assert(rows.length === 2 && rows[0][1] === 'b, "c"' && rows[0][2] === '' && rows[1][0] === 'multi\nline', 'CSV rows should follow RFC 4180');
+
+  const guests: Guest[] = [
+    { id: 'a', name: 'Ann Lee', count: 1, attributes: { side: 'bride', vip: true }, tags: ['band'] },
+    { id: 'b', name: 'Smith, Bob + 1', count: 2 },
+    { id: 'c', name: 'Cy Norr', count: 1 },
+    { id: 'd', name: 'Di Moss', count: 1 },
+  ];
+  const tables: Table[] = [{ id: 1, seats: 6, name: 'Head' }, { id: 2, seats: 4 }, { id: 3, seats: 4 }];
+  const constraints: Constraints = {
+    a: { b: 'must', c: 'prefer' }, b: { a: 'must', d: 'cannot' }, c: { a: 'prefer' }, d: { b: 'cannot' },
+  };
+  const data = {
+    guests, tables, constraints,
+    adjacents: { a: ['b'], b: ['a'] },
+    assignments: { c: '1,2,3', d: '3' },
+    preferenceWeights: { a: { c: 3 }, c: { a: 3 } },
+  };
+  const csv = exportSettingsToCSV(data, 'Round trip');
+  const file = parseSettingsCSV(csv);
+  console.assert(file.settingName === 'Round trip' && file.guests.length === 4 && file.tables.length === 3, 'Export sections should parse back');
+
+  let n = 0;
+  const empty = { guests: [], tables: [], constraints: {}, adjacents: {}, assignments: {}, preferenceWeights: {} };
+  const fresh = resolveSettingsImport(file, empty, 'replace', { newId: () => `n${++n}` });
+  const id = (name: string) => fresh.guests.find(g => g.name === name)?.id ?? '';
+  const [ann, bob, cy, di] = ['Ann Lee', 'Smith, Bob + 1', 'Cy Norr', 'Di Moss'].map(id);
+  console.assert(fresh.unresolved.length === 0, 'Every exported name should resolve');
+  console.assert(fresh.constraints[ann]?.[bob] === 'must' && fresh.constraints[bob]?.[di] === 'cannot', 'Must/cannot should round-trip, including names with commas');
+  console.assert(fresh.constraints[ann]?.[cy] === 'prefer' && fresh.preferenceWeights[cy]?.[ann] === 3, 'Preferences should keep their strength');
+  console.assert(fresh.adjacents[ann]?.includes(bob) && fresh.adjacents[bob]?.includes(ann), 'Adjacent pairs should round-trip');
+  console.assert(fresh.assignments[cy] === '1,2,3' && fresh.assignments[di] === '3', 'Ranges and lists should round-trip');
+  const annGuest = fresh.guests.find(g => g.id === ann);
+  console.assert(annGuest?.attributes?.side === 'bride' && annGuest.attributes.vip === true && annGuest.tags?.join() === 'band', 'Tags should split back into attributes');
+  console.assert(fresh.tables.find(t => t.id === 1)?.name === 'Head' && fresh.guests.find(g => g.id === bob)?.count === 2, 'Tables and party sizes should round-trip');
+
+  // Merge keeps ids and unlisted guests; unknown names are reported
+  const edited = csv.replace('Cy Norr,1,', 'Cy Norr,1,Nobody Here').replace('\n\n=== TABLE', '\nEve Park,1\n\n=== TABLE');
+  const withExtra = { ...data, guests: [...guests, { id: 'z', name: 'Zed Quinn', count: 1 }] };
+  const merged = resolveSettingsImport(parseSettingsCSV(edited), withExtra, 'merge', { newId: () => 'new' });
+  console.assert(merged.guests.some(g => g.id === 'z') && merged.guests.some(g => g.id === 'new' && g.name === 'Eve Park'), 'Merge should keep current guests and add new ones');
+  console.assert(merged.updated.length === 4 && merged.constraints.a?.b === 'must', 'Merge should match guests by name and keep their ids');
+  console.assert(merged.unresolved.length === 1 && merged.unresolved[0].value === 'Nobody Here', 'Unknown names should be reported');
+  const replaced = resolveSettingsImport(parseSettingsCSV(edited), withExtra, 'replace', { newId: () => 'new' });
+  console.assert(replaced.removed.join() === 'Zed Quinn' && !replaced.guests.some(g => g.id === 'z'), 'Replace should drop guests missing from the file');
+
+  console.log('✅ Settings import tests passed!');
+};
@@ -0,0 +1,370 @@
+// src/utils/importSettings.ts
+import type { Adjacents, AgeGroup, Assignments, Constraints, ConstraintValue, Guest, GuestAttributes, PreferenceWeights, Table } from '../types';
+import { addAdjacent, setConstraint, withPreferenceWeight } from './constraints';
+import { normalizeAssignmentInputToIdsWithWarnings } from './assignments';
+import { AGE_GROUPS, normalizeTag } from './guestTags';
+import { formatGuestUnitName } from './formatGuestName';
+import { countHeads, getDisplayName } from './guestCount';
+import type { ExportData } from './exportSettings';
+
+/*
+ * Reads back the file written by exportSettingsToCSV: a "=== GUEST LIST ===" section with one
+ * row per guest (rules listed by name) and a "=== TABLE INFORMATION ===" section.
+ */
+
+const GUEST_SECTION = 'GUEST LIST';
+const TABLE_SECTION = 'TABLE INFORMATION';
+
+/**
+ * RFC 4180 rows: quoted fields may hold the delimiter, doubled quotes and line breaks.
+ * Strips a UTF-8 BOM and accepts CRLF, LF or CR line endings.
+ */
+export function parseCSVRows(text: string, delimiter = ','): string[][] {
+  const src = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') { field += '"'; i++; }
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"' && field === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+const sectionName = (row: string[]): string | null => {
+  const m = /^===\s*(.+?)\s*===$/.exec((row[0] ?? '').trim());
+  return m ? m[1].toUpperCase() : null;
+};
+
+const isBlankRow = (row: string[]) => row.every(cell => cell.trim() === '');
+
+/**
+ * True when the text carries the settings export's section markers
+ */
+export function isSettingsCSV(text: string): boolean {
+  return parseCSVRows(text).some(row => sectionName(row) === GUEST_SECTION);
+}
+
+export interface SettingsCSVGuestRow {
+  name: string;
+  count: number | null; // Party Size column, null when blank or not a number
+  must: string;
+  cannot: string;
+  adjacent: string;
+  assignment: string;
+  prefer: string;
+  avoid: string;
+  tags: string;
+}
+
+export interface SettingsCSV {
+  settingName?: string;
+  guests: SettingsCSVGuestRow[];
+  tables: { id: number; seats: number; name?: string }[];
+  hasTableSection: boolean;
+  skippedRows: number; // rows without a guest name or with an invalid table id/size
+}
+
+// Header → row field; unknown columns are ignored so Excel users can add their own
+const GUEST_COLUMNS: Record<string, keyof SettingsCSVGuestRow> = {
+  'guest name': 'name',
+  'party size': 'count',
+  'must constraints': 'must',
+  'cannot constraints': 'cannot',
+  'adjacent pairs': 'adjacent',
+  'seating assignments': 'assignment',
+  'prefer together': 'prefer',
+  'prefer apart': 'avoid',
+  'tags': 'tags',
+};
+
+/**
+ * Rows of a settings export, as text. Columns are found by header, so reordered or
+ * extra columns from a spreadsheet round trip are fine.
+ */
+export function parseSettingsCSV(text: string): SettingsCSV {
+  const out: SettingsCSV = { guests: [], tables: [], hasTableSection: false, skippedRows: 0 };
+  let section: string | null = null;
+  let header: string[] | null = null;
+
+  for (const row of parseCSVRows(text)) {
+    const marker = sectionName(row);
+    if (marker) {
+      section = marker;
+      header = null;
+      if (marker === TABLE_SECTION) out.hasTableSection = true;
+      continue;
+    }
+    if (isBlankRow(row)) continue;
+    if (!section) {
+      const m = /^Seatyr Settings Export:\s*(.*)$/.exec(row.join(',').trim());
+      if (m) out.settingName = m[1].trim();
+      continue;
+    }
+    if (!header) {
+      header = row.map(cell => cell.trim().toLowerCase());
+      continue;
+    }
+    const cell = (name: string) => {
+      const i = header!.indexOf(name);
+      return i >= 0 ? (row[i] ?? '').trim() : '';
+    };
+
+    if (section === GUEST_SECTION) {
+      const guest: SettingsCSVGuestRow = {
+        name: '', count: null, must: '', cannot: '', adjacent: '', assignment: '', prefer: '', avoid: '', tags: '',
+      };
+      for (const [column, key] of Object.entries(GUEST_COLUMNS)) {
+        const value = cell(column);
+        if (key === 'count') {
+          const n = parseInt(value, 10);
+          guest.count = Number.isFinite(n) && n > 0 ? n : null;
+        } else {
+          guest[key] = value;
+        }
+      }
+      if (guest.name) out.guests.push(guest);
+      else out.skippedRows++;
+    } else if (section === TABLE_SECTION) {
+      const id = Number(cell('table id'));
+      const seats = Number(cell('seats'));
+      if (Number.isInteger(id) && id > 0 && Number.isInteger(seats) && seats > 0) {
+        const name = cell('table name');
+        out.tables.push(name ? { id, seats, name } : { id, seats });
+      } else {
+        out.skippedRows++;
+      }
+    }
+  }
+  return out;
+}
+
+export type SettingsImportMode = 'replace' | 'merge';
+
+export interface UnresolvedImportName {
+  guest: string;  // row the name was found on
+  column: string;
+  value: string;  // the name (or table) that matched nothing
+}
+
+export interface SettingsImportResult extends ExportData {
+  preferenceWeights: PreferenceWeights;
+  added: string[];     // guests new to the list
+  updated: string[];   // guests already in the list, matched by name
+  removed: string[];   // guests dropped by a replace
+  duplicates: string[]; // repeated rows, only the first is used
+  unresolved: UnresolvedImportName[];
+}
+
+export interface SettingsImportOptions {
+  isPremium?: boolean;     // table names in assignments are a premium feature
+  newId?: () => string;
+}
+
+// Same name regardless of case, spacing or connector formatting
+const nameKey = (name: string) => formatGuestUnitName(name).replace(/\s+/g, ' ').trim().toLowerCase();
+
+// "Side: bride" → "side:bride", "VIP" → "vip"; the inverse of formatTag
+const parseTagLabel = (label: string): string => {
+  const i = label.indexOf(':');
+  return normalizeTag(i > 0 ? `${label.slice(0, i)}:${label.slice(i + 1).trim()}` : label);
+};
+
+/**
+ * Tags from the Tags column, split back into typed attributes and free-form tags
+ */
+function guestTagFields(raw: string): Pick<Guest, 'attributes' | 'tags'> {
+  const attributes: GuestAttributes = {};
+  const tags: string[] = [];
+  for (const part of raw.split(';')) {
+    const tag = parseTagLabel(part);
+    if (!tag) continue;
+    const [dim, ...rest] = tag.split(':');
+    const value = rest.join(':');
+    if (tag === 'vip') attributes.vip = true;
+    else if (dim === 'side' && value) attributes.side = value;
+    else if (dim === 'age' && (AGE_GROUPS as string[]).includes(value)) attributes.ageGroup = value as AgeGroup;
+    else if (dim === 'diet' && value) attributes.dietary = [...(attributes.dietary ?? []), value];
+    else if (!tags.includes(tag)) tags.push(tag);
+  }
+  return {
+    ...(Object.keys(attributes).length ? { attributes } : {}),
+    ...(tags.length ? { tags } : {}),
+  };
+}
+
+// "1-3" → "1,2,3"; other tokens (ids, table names) pass through
+const expandRanges = (raw: string): string =>
+  raw.split(/[;,]+/).map(token => {
+    const m = /^\s*(\d+)\s*-\s*(\d+)\s*$/.exec(token);
+    if (!m) return token;
+    const [from, to] = [Number(m[1]), Number(m[2])];
+    if (to < from || to - from > 500) return token;
+    return Array.from({ length: to - from + 1 }, (_, i) => String(from + i)).join(',');
+  }).join(',');
+
+/**
+ * Turn a parsed file into the next guests, tables and rules.
+ *
+ * Guests are matched to the current list by name and keep their ids, so locks and pins
+ * survive. A row is the source of truth for its guest's party size, tags and assignment.
+ * Replace drops everything the file does not list; merge keeps the current guests, tables
+ * and rules and adds the file's on top (the file wins where a pair is set both ways).
+ */
+export function resolveSettingsImport(
+  file: SettingsCSV,
+  current: ExportData,
+  mode: SettingsImportMode,
+  options: SettingsImportOptions = {}
+): SettingsImportResult {
+  const newId = options.newId ?? (() => crypto.randomUUID());
+  const merge = mode === 'merge';
+  const currentByKey = new Map(current.guests.map(g => [nameKey(g.name), g]));
+
+  // Guests: one per distinct name in the file, reusing ids of known guests
+  const fileGuests: { row: SettingsCSVGuestRow; guest: Guest }[] = [];
+  const seenKeys = new Set<string>();
+  const added: string[] = [];
+  const updated: string[] = [];
+  const duplicates: string[] = [];
+  for (const row of file.guests) {
+    const name = formatGuestUnitName(row.name);
+    const key = nameKey(name);
+    if (seenKeys.has(key)) {
+      duplicates.push(name);
+      continue;
+    }
+    seenKeys.add(key);
+    const existing = currentByKey.get(key);
+    const guest: Guest = {
+      id: existing?.id ?? newId(),
+      name,
+      count: row.count ?? Math.max(1, countHeads(name)),
+      ...guestTagFields(row.tags),
+    };
+    (existing ? updated : added).push(name);
+    fileGuests.push({ row, guest });
+  }
+
+  const fileIds = new Set(fileGuests.map(f => f.guest.id));
+  const kept = merge ? current.guests.filter(g => !fileIds.has(g.id)) : [];
+  const guests = [...kept, ...fileGuests.map(f => f.guest)];
+  const removed = merge ? [] : current.guests.filter(g => !fileIds.has(g.id)).map(g => g.name);
+
+  // Tables: file rows by id, keeping shape/layout/rules the CSV cannot carry
+  const currentTables = new Map(current.tables.map(t => [t.id, t]));
+  let tables: Table[] = merge || !file.hasTableSection || file.tables.length === 0 ? [...current.tables] : [];
+  for (const row of file.tables) {
+    const base = currentTables.get(row.id);
+    const table: Table = { ...base, id: row.id, seats: row.seats };
+    if (row.name) table.name = row.name;
+    else delete table.name;
+    tables = [...tables.filter(t => t.id !== row.id), table];
+  }
+  tables.sort((a, b) => a.id - b.id);
+
+  // Names resolve by exact name, then by display name when that is unambiguous
+  const byKey = new Map(guests.map(g => [nameKey(g.name), g.id]));
+  const byDisplay = new Map<string, string | null>();
+  for (const g of guests) {
+    const key = nameKey(getDisplayName(g.name));
+    byDisplay.set(key, byDisplay.has(key) ? null : g.id);
+  }
+  const lookup = (name: string, exact: boolean): string | undefined =>
+    exact ? byKey.get(nameKey(name)) : byDisplay.get(nameKey(getDisplayName(name))) ?? undefined;
+
+  // "Name (2)" is a weighted preference unless a guest is called that; exact names win
+  const matchName = (text: string, weighted: boolean): { id: string; weight: number } | null => {
+    const m = weighted ? /^(.*\S)\s*\((\d+)\)$/.exec(text) : null;
+    for (const exact of [true, false]) {
+      const id = lookup(text, exact);
+      if (id) return { id, weight: 1 };
+      const weightedId = m ? lookup(m[1], exact) : undefined;
+      if (m && weightedId) return { id: weightedId, weight: Number(m[2]) };
+    }
+    return null;
+  };
+
+  // Names are joined with ", " on export; rejoin the longest run of pieces that names a guest
+  const unresolved: UnresolvedImportName[] = [];
+  const resolveList = (cell: string, owner: string, column: string, weighted: boolean) => {
+    const pieces = cell.split(',');
+    const found: { id: string; weight: number }[] = [];
+    let i = 0;
+    while (i < pieces.length) {
+      let run: { id: string; weight: number; end: number } | null = null;
+      for (let end = pieces.length; end > i && !run; end--) {
+        const text = pieces.slice(i, end).join(',').trim();
+        const hit = text ? matchName(text, weighted) : null;
+        if (hit) run = { ...hit, end };
+      }
+      if (run) {
+        found.push({ id: run.id, weight: run.weight });
+        i = run.end;
+      } else {
+        const text = pieces[i].trim();
+        if (text) unresolved.push({ guest: owner, column, value: text });
+        i++;
+      }
+    }
+    return found;
+  };
+
+  const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value ?? {}));
+  const constraints: Constraints = merge ? clone(current.constraints) : {};
+  const adjacents: Adjacents = merge ? clone(current.adjacents) : {};
+  const assignments: Assignments = merge ? { ...current.assignments } : {};
+  let preferenceWeights: PreferenceWeights = merge ? clone(current.preferenceWeights ?? {}) : {};
+
+  const ruleColumns: { key: 'must' | 'cannot' | 'prefer' | 'avoid'; column: string; value: ConstraintValue }[] = [
+    { key: 'must', column: 'Must Constraints', value: 'must' },
+    { key: 'cannot', column: 'Cannot Constraints', value: 'cannot' },
+    { key: 'prefer', column: 'Prefer Together', value: 'prefer' },
+    { key: 'avoid', column: 'Prefer Apart', value: 'avoid' },
+  ];
+
+  for (const { row, guest } of fileGuests) {
+    for (const { key, column, value } of ruleColumns) {
+      const soft = value === 'prefer' || value === 'avoid';
+      for (const other of resolveList(row[key], guest.name, column, soft)) {
+        if (other.id === guest.id) continue;
+        setConstraint(constraints, guest.id, other.id, value);
+        if (soft) preferenceWeights = withPreferenceWeight(preferenceWeights, guest.id, other.id, other.weight > 1 ? other.weight : null);
+      }
+    }
+    for (const other of resolveList(row.adjacent, guest.name, 'Adjacent Pairs', false)) {
+      if (other.id !== guest.id) addAdjacent(adjacents, guest.id, other.id);
+    }
+
+    const { idCsv, warnings } = normalizeAssignmentInputToIdsWithWarnings(
+      expandRanges(row.assignment), tables, options.isPremium ?? false
+    );
+    warnings.forEach(w => unresolved.push({ guest: guest.name, column: 'Seating Assignments', value: w }));
+    if (idCsv) assignments[guest.id] = idCsv;
+    else delete assignments[guest.id];
+  }
+
+  return { guests, tables, constraints, adjacents, assignments, preferenceWeights, added, updated, removed, duplicates, unresolved };
+}
@@ -0,0 +1,33 @@
+/**
+ * Tests for the client-side PDF seating chart
+ */
+
+import { exportPlanToPDF } from './pdfExport';
+import { SeatingPlan } from '../types';
+import { createTestTables } from './testFixtures';
+
+export const testPdfExport = () => {
+  const tables = createTestTables([4, 4]);
+  const plan: SeatingPlan = {
+    id: 1,
+    tables: [
+      { id: 1, capacity: 4, seats: [{ name: 'Ann (Annie) Lee', partyIndex: 0, id: 'a' }] },
+      { id: 2, capacity: 4, seats: [{ name: 'Bo Kim', partyIndex: 0, id: 'b' }] },
+    ],
+  };
+  const bytes = new Uint8Array(exportPlanToPDF(plan, tables, { title: 'Test Chart' }));
+  const text = Array.from(bytes, b => String.fromCharCode(b)).join('');
+  console.assert(text.startsWith('%PDF-1.4') && text.trimEnd().endsWith('%%EOF'), 'PDF should have a header and trailer');
+  console.assert(text.includes('(Ann \\(Annie\\) Lee)'), 'Parentheses in names should be escaped');
+  console.assert(text.includes('(Guest Index)') && text.includes('(Bo Kim)'), 'PDF should include the guest index');
+
+  // Every xref entry should point at its object
+  const xrefAt = Number(text.match(/startxref\n(\d+)/)![1]);
+  const entries = text.slice(xrefAt).split('\n').slice(3).filter(l => / n $/.test(l));
+  console.assert(entries.length > 0, 'PDF should have an xref table');
+  entries.forEach((entry, i) => {
+    console.assert(text.startsWith(`${i + 1} 0 obj`, Number(entry.slice(0, 10))), `xref entry ${i + 1} should point at its object`);
+  });
+
+  console.log('✅ PDF export tests passed!');
+};
@@ -0,0 +1,243 @@
+// src/utils/pdfExport.ts
+import type { SeatingPlan, Table } from '../types';
+import { buildEscortCards, seatCardName } from './printCards';
+import { seatsByIndex } from './seatPins';
+import { getCapacity, tableLabelById } from './tables';
+
+/*
+ * Minimal PDF 1.4 writer: US Letter pages, the standard Helvetica fonts (no embedding) and
+ * WinAnsi text. Enough for a seating chart without pulling in a PDF library.
+ */
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 36;
+const GRID_COLUMNS = 4;
+const GRID_GAP = 8;
+const SEAT_LINE = 11;
+const INDEX_LINE = 13;
+
+// Advance widths (1/1000 em) of characters 32..126 in Helvetica and Helvetica-Bold
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// WinAnsi code points outside Latin-1 that show up in names and labels
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+};
+
+/**
+ * Text as one WinAnsi byte per character; characters the standard fonts lack become "?"
+ */
+function toWinAnsi(text: string): string {
+  let out = '';
+  for (const ch of text) {
+    const code = ch.codePointAt(0) ?? 63;
+    if (WIN_ANSI_EXTRAS[ch] !== undefined) out += String.fromCharCode(WIN_ANSI_EXTRAS[ch]);
+    else if ((code >= 32 && code < 127) || (code >= 160 && code < 256)) out += ch;
+    else out += '?';
+  }
+  return out;
+}
+
+function textWidth(text: string, size: number, bold = false): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let units = 0;
+  for (const ch of toWinAnsi(text)) {
+    const code = ch.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? widths[code - 32] : code === 0x85 ? 1000 : 556;
+  }
+  return (units * size) / 1000;
+}
+
+function fitText(text: string, maxWidth: number, size: number, bold = false): string {
+  if (textWidth(text, size, bold) <= maxWidth) return text;
+  let cut = text;
+  while (cut.length > 0 && textWidth(`${cut}…`, size, bold) > maxWidth) cut = cut.slice(0, -1);
+  return `${cut.trimEnd()}…`;
+}
+
+const pdfString = (text: string) => `(${toWinAnsi(text).replace(/[\\()]/g, m => `\\${m}`)})`;
+
+interface PageWriter {
+  text: (x: number, y: number, text: string, size: number, options?: { bold?: boolean; gray?: boolean }) => void;
+  rect: (x: number, y: number, width: number, height: number) => void;
+}
+
+/**
+ * Collects page content streams; `addPage` starts a new page and returns its writer
+ */
+function createPdf() {
+  const pages: string[][] = [];
+  const addPage = (): PageWriter => {
+    const ops: string[] = [];
+    pages.push(ops);
+    return {
+      text: (x, y, text, size, options = {}) => {
+        const font = options.bold ? 'F2' : 'F1';
+        ops.push(`${options.gray ? '0.4' : '0'} g BT /${font} ${size} Tf 1 0 0 1 ${x.toFixed(2)} ${y.toFixed(2)} Tm ${pdfString(text)} Tj ET`);
+      },
+      rect: (x, y, width, height) => {
+        ops.push(`0.6 G 0.5 w ${x.toFixed(2)} ${y.toFixed(2)} ${width.toFixed(2)} ${height.toFixed(2)} re S`);
+      },
+    };
+  };
+
+  const toBytes = (title: string): ArrayBuffer => {
+    const objects: string[] = [];
+    const pageRefs = pages.map((_, i) => `${5 + i * 2} 0 R`);
+    objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+    objects.push(`<< /Type /Pages /Kids [${pageRefs.join(' ')}] /Count ${pages.length} >>`);
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    pages.forEach((ops, i) => {
+      const content = ops.join('\n');
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + i * 2} 0 R >>`
+      );
+      objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    });
+    objects.push(`<< /Title ${pdfString(title)} /Producer (Seatyr) >>`);
+
+    // Every character is one byte, so string offsets are byte offsets
+    let out = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(out.length);
+      out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+    const xref = out.length;
+    out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    out += offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+    out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    const buffer = new ArrayBuffer(out.length);
+    const bytes = new Uint8Array(buffer);
+    for (let i = 0; i < out.length; i++) bytes[i] = out.charCodeAt(i) & 0xff;
+    return buffer;
+  };
+
+  return { addPage, toBytes };
+}
+
+export interface PlanPdfOptions {
+  title?: string;      // heading on the first page, e.g. the saved setting name
+  planLabel?: string;  // e.g. "Plan 2"
+}
+
+/**
+ * Seating chart as a PDF: every table with its seats in a grid (as in the plan viewer),
+ * then an alphabetical guest index with each party's table
+ */
+export function exportPlanToPDF(plan: SeatingPlan, tables: Table[], options: PlanPdfOptions = {}): ArrayBuffer {
+  const pdf = createPdf();
+  const tableLabel = (tableId: number) => tableLabelById(tables, tableId);
+  const title = options.title || 'Seating Chart';
+  const contentWidth = PAGE_WIDTH - 2 * MARGIN;
+  const columnWidth = (contentWidth - GRID_GAP * (GRID_COLUMNS - 1)) / GRID_COLUMNS;
+
+  let page = pdf.addPage();
+  let y = PAGE_HEIGHT - MARGIN - 16;
+  page.text(MARGIN, y, title, 16, { bold: true });
+  const subtitle = [options.planLabel, new Date().toLocaleDateString()].filter(Boolean).join(' · ');
+  page.text(MARGIN, y - 14, subtitle, 9, { gray: true });
+  y -= 32;
+
+  // Plan grid: one block per table, GRID_COLUMNS to a row
+  const blocks = plan.tables.map(t => {
+    const appTable = tables.find(at => at.id === t.id);
+    const capacity = Math.max(t.capacity || 0, appTable ? getCapacity(appTable) : 0, t.seats.length);
+    const rows = seatsByIndex(t.seats);
+    const lines = Array.from({ length: capacity }, (_, i) => rows[i]);
+    return { table: t, capacity, lines, height: 30 + lines.length * SEAT_LINE };
+  });
+
+  for (let start = 0; start < blocks.length; start += GRID_COLUMNS) {
+    const row = blocks.slice(start, start + GRID_COLUMNS);
+    const rowHeight = Math.max(...row.map(b => b.height));
+    if (y - rowHeight < MARGIN) {
+      page = pdf.addPage();
+      y = PAGE_HEIGHT - MARGIN;
+    }
+    row.forEach((block, col) => {
+      const x = MARGIN + col * (columnWidth + GRID_GAP);
+      const inner = columnWidth - 12;
+      page.rect(x, y - rowHeight, columnWidth, rowHeight);
+      page.text(x + 6, y - 13, fitText(tableLabel(block.table.id), inner, 9, true), 9, { bold: true });
+      page.text(x + 6, y - 24, `${block.table.seats.length} / ${block.capacity} seats`, 7.5, { gray: true });
+      block.lines.forEach((seat, i) => {
+        const lineY = y - 36 - i * SEAT_LINE;
+        const label = seat ? seatCardName(seat.name, seat.partyIndex) : '—';
+        page.text(x + 6, lineY, fitText(`${i + 1}. ${label}`, inner, 8.5), 8.5, { gray: !seat });
+      });
+    });
+    y -= rowHeight + GRID_GAP;
+  }
+
+  // Guest index: two columns, continued across pages
+  const entries = buildEscortCards(plan, tableLabel);
+  if (entries.length > 0) {
+    page = pdf.addPage();
+    const indexColumn = (contentWidth - 2 * GRID_GAP) / 2;
+    const top = PAGE_HEIGHT - MARGIN - 16;
+    page.text(MARGIN, top, 'Guest Index', 14, { bold: true });
+    let col = 0;
+    let columnTop = top - 24;
+    y = columnTop;
+    for (const entry of entries) {
+      if (y < MARGIN) {
+        if (col === 0) {
+          col = 1;
+        } else {
+          page = pdf.addPage();
+          col = 0;
+          columnTop = PAGE_HEIGHT - MARGIN - 10;
+        }
+        y = columnTop;
+      }
+      const x = MARGIN + col * (indexColumn + 2 * GRID_GAP);
+      const table = fitText(entry.table, indexColumn * 0.45, 9);
+      const tableWidth = textWidth(table, 9);
+      const name = entry.seats > 1 ? `${entry.name} (${entry.seats})` : entry.name;
+      page.text(x, y, fitText(name, indexColumn - tableWidth - 10, 9), 9);
+      page.text(x + indexColumn - tableWidth, y, table, 9, { gray: true });
+      y -= INDEX_LINE;
+    }
+  }
+
+  return pdf.toBytes(title);
+}
+
+/**
+ * Triggers a download of the PDF file
+ */
+export function downloadPDF(content: ArrayBuffer, filename: string): void {
+  const blob = new Blob([content], { type: 'application/pdf' });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
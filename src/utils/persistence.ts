@@ -8,11 +8,18 @@
  * 4. Automatic recovery mechanisms
  */
 
-import { AppState } from '../types';
+import { AppState, GenerationOptions, PreferenceWeights } from '../types';
+import { clampPreferenceWeight } from './constraints';
+import { sanitizeGuestAttributes, sanitizeTags, sanitizeTagRules } from './guestTags';
+import { sanitizeTableRules } from './tableRules';
+import { sanitizeTableShape } from './tables';
+import { sanitizeTableLayout } from './floorPlan';
+import { sanitizeSeatPins } from './seatPins';
 
 const STORAGE_KEY = 'seatyr_app_state';
 const LKG_KEY = 'seatyr_lkg'; // Last Known Good state
 const STORAGE_HEALTH_CHECK_MS = 300000; // 5 minutes
+const MAX_GUEST_NOTES_LENGTH = 500;
 
 /**
  * Atomic write to localStorage using .tmp pattern
@@ -84,6 +91,55 @@ function recoverOrphanedTmpKeys(): void {
   }
 }
 
+/**
+ * Whitelist generation options; drops anything non-numeric so tier defaults apply
+ */
+export function sanitizeGenerationOptions(incoming: unknown): GenerationOptions {
+  if (!incoming || typeof incoming !== 'object') return {};
+  const src = incoming as Record<string, unknown>;
+  const num = (v: unknown, min: number): number | undefined =>
+    typeof v === 'number' && Number.isFinite(v) && v >= min ? v : undefined;
+  const out: GenerationOptions = {};
+  const seed = num(src.seed, 0);
+  if (seed !== undefined) out.seed = Math.floor(seed) >>> 0;
+  const timeBudgetMs = num(src.timeBudgetMs, 1);
+  if (timeBudgetMs !== undefined) out.timeBudgetMs = Math.floor(timeBudgetMs);
+  const targetPlans = num(src.targetPlans, 1);
+  if (targetPlans !== undefined) out.targetPlans = Math.floor(targetPlans);
+  const maxAttemptsPerRun = num(src.maxAttemptsPerRun, 1);
+  if (maxAttemptsPerRun !== undefined) out.maxAttemptsPerRun = Math.floor(maxAttemptsPerRun);
+  const runsMultiplier = num(src.runsMultiplier, 1);
+  if (runsMultiplier !== undefined) out.runsMultiplier = runsMultiplier;
+  const w = (src.weights && typeof src.weights === 'object' ? src.weights : {}) as Record<string, unknown>;
+  const adj = num(w.adj, 0), util = num(w.util, 0), balance = num(w.balance, 0);
+  if (adj !== undefined && util !== undefined && balance !== undefined) {
+    out.weights = { adj, util, balance };
+    const soft = num(w.soft, 0);
+    if (soft !== undefined) out.weights.soft = soft;
+    const tags = num(w.tags, 0);
+    if (tags !== undefined) out.weights.tags = tags;
+  }
+  if (src.solver === 'heuristic' || src.solver === 'exact') out.solver = src.solver;
+  if (typeof src.localSearch === 'boolean') out.localSearch = src.localSearch;
+  return out;
+}
+
+/**
+ * Keep only numeric prefer/avoid strengths, clamped to the supported range
+ */
+export function sanitizePreferenceWeights(incoming: unknown): PreferenceWeights {
+  if (!incoming || typeof incoming !== 'object') return {};
+  const out: PreferenceWeights = {};
+  Object.entries(incoming as Record<string, unknown>).forEach(([g1, row]) => {
+    if (!row || typeof row !== 'object') return;
+    Object.entries(row as Record<string, unknown>).forEach(([g2, w]) => {
+      if (g1 === g2 || typeof w !== 'number' || !Number.isFinite(w)) return;
+      (out[String(g1)] ||= {})[String(g2)] = clampPreferenceWeight(w);
+    });
+  });
+  return out;
+}
+
 /**
  * Sanitize and migrate incoming app state
  * PURE FUNCTION - No app-level flags
@@ -98,11 +154,18 @@ export function sanitizeAndMigrateAppState(incoming: any): Partial<AppState> {
     guests: Array.isArray(incoming.guests)
       ? incoming.guests
           .filter((g: any) => g?.id && typeof g.name === 'string')
-          .map((g: any) => ({
-            id: String(g.id),
-            name: String(g.name),
-            count: Math.max(1, Number(g.count) || 1)
-          }))
+          .map((g: any) => {
+            const attributes = sanitizeGuestAttributes(g.attributes);
+            const tags = sanitizeTags(g.tags);
+            return {
+              id: String(g.id),
+              name: String(g.name),
+              count: Math.max(1, Number(g.count) || 1),
+              ...(attributes && { attributes }),
+              ...(tags && { tags }),
+              ...(typeof g.notes === 'string' && g.notes.trim() && { notes: g.notes.trim().slice(0, MAX_GUEST_NOTES_LENGTH) })
+            };
+          })
       : [],
     
     // REVISED: Coerce string seats, dedupe, stable validation
@@ -111,13 +174,19 @@ export function sanitizeAndMigrateAppState(incoming: any): Partial<AppState> {
           .map((t: any) => ({
             id: t?.id,
             seats: Number(t?.seats),
-            name: typeof t?.name === 'string' ? t.name : undefined
+            name: typeof t?.name === 'string' ? t.name : undefined,
+            rules: sanitizeTableRules(t?.rules),
+            shape: sanitizeTableShape(t?.shape),
+            layout: sanitizeTableLayout(t?.layout)
           }))
           .filter((t: any) => t.id != null && Number.isFinite(t.seats) && t.seats > 0)
           .map((t: any) => ({
             id: String(t.id),
             seats: Math.max(1, Math.floor(t.seats)),
-            name: t.name
+            name: t.name,
+            ...(t.rules && { rules: t.rules }),
+            ...(t.shape && { shape: t.shape }),
+            ...(t.layout && { layout: t.layout })
           }))
       : [],
     
@@ -143,7 +212,7 @@ export function sanitizeAndMigrateAppState(incoming: any): Partial<AppState> {
             Object.fromEntries(
               Object.entries(constraints as any).map(([g2, value]) => [
                 String(g2),
-                ['must', 'cannot', ''].includes(String(value)) ? String(value) : ''
+                ['must', 'cannot', 'prefer', 'avoid', ''].includes(String(value)) ? String(value) : ''
               ])
             )
           ])
@@ -159,6 +228,10 @@ export function sanitizeAndMigrateAppState(incoming: any): Partial<AppState> {
         )
       : {},
     
+    preferenceWeights: sanitizePreferenceWeights(incoming.preferenceWeights),
+    
+    tagRules: sanitizeTagRules(incoming.tagRules),
+    
     lockedTableAssignments: typeof incoming.lockedTableAssignments === 'object' && incoming.lockedTableAssignments !== null
       ? Object.fromEntries(
           Object.entries(incoming.lockedTableAssignments).map(([tableId, guestIds]) => [
@@ -168,6 +241,20 @@ export function sanitizeAndMigrateAppState(incoming: any): Partial<AppState> {
         )
       : {},
     
+    seatPins: sanitizeSeatPins(incoming.seatPins),
+    
+    generationOptions: sanitizeGenerationOptions(incoming.generationOptions),
+    
+    // Hand-edited plan from the viewer, if any
+    editedPlan: incoming.editedPlan && typeof incoming.editedPlan === 'object' && Array.isArray(incoming.editedPlan.tables)
+      ? { ...incoming.editedPlan, edited: true }
+      : null,
+
+    // Repair-mode baseline plan, if any
+    baselinePlan: incoming.baselinePlan && typeof incoming.baselinePlan === 'object' && Array.isArray(incoming.baselinePlan.tables)
+      ? incoming.baselinePlan
+      : null,
+    
     // NEW: Preserve or initialize sessionVersion
     sessionVersion: typeof incoming.sessionVersion === 'number' && incoming.sessionVersion >= 0
       ? incoming.sessionVersion
@@ -0,0 +1,28 @@
+/**
+ * Tests for comparing two seating plans
+ */
+
+import { diffSeatingPlans } from './planDiff';
+import { SeatingPlan } from '../types';
+import { createSolverGuests, planOf } from './testFixtures';
+
+export const testPlanDiff = () => {
+  const guests = createSolverGuests(6).map(g => ({ ...g, count: 1 }));
+
+  const same = diffSeatingPlans(planOf(guests, [['g1', 'g2', 'g3'], ['g4', 'g5']]), planOf(guests, [['g3', 'g2', 'g1'], ['g5', 'g4']]), guests);
+  console.assert(same.moved.length === 0 && same.tables.length === 0, 'Seat order alone is not a change');
+
+  const diff = diffSeatingPlans(planOf(guests, [['g1', 'g2', 'g3'], ['g4', 'g5']]), planOf(guests, [['g1', 'g4', 'g6'], ['g2', 'g3']]), guests);
+  console.assert(diff.moved.map(m => m.key).join() === 'g2,g3,g4', 'Guests at another table should be reported as moved');
+  console.assert(diff.unseated.map(g => g.key).join() === 'g5', 'Guests who lost their seat should be reported');
+  console.assert(diff.seated.length === 1 && diff.seated[0].toTableId === 1, 'Newly seated guests should be reported with their table');
+  const table1 = diff.tables.find(t => t.tableId === 1)!;
+  console.assert(table1.joined.length === 2 && table1.left.length === 2, 'Table 1 gained g4 and g6 and lost g2 and g3');
+
+  // Saved plans without seat ids line up by name
+  const legacy: SeatingPlan = { id: 1, tables: [{ id: 1, capacity: 3, seats: [{ name: 'Guest 1', partyIndex: 0 }] }] };
+  const byName = diffSeatingPlans(legacy, planOf(guests, [['g1'], []]), guests);
+  console.assert(byName.moved.length === 0 && byName.seated.length === 0, 'Seats without ids should match guests by name');
+
+  console.log('✅ Plan diff tests passed!');
+};
@@ -0,0 +1,80 @@
+// src/utils/planDiff.ts
+import type { Guest, GuestID, SeatingPlan } from '../types';
+
+export interface PlanDiffGuest {
+  key: string;  // guest id, or the name for seats saved without one
+  name: string;
+}
+
+export interface PlanDiffMove extends PlanDiffGuest {
+  fromTableId: number;
+  toTableId: number;
+}
+
+export interface PlanDiffTable {
+  tableId: number;
+  joined: PlanDiffGuest[];
+  left: PlanDiffGuest[];
+}
+
+export interface PlanDiff {
+  moved: PlanDiffMove[];                                   // seated in both, at different tables
+  unseated: (PlanDiffGuest & { fromTableId: number })[];  // seated before, not after
+  seated: (PlanDiffGuest & { toTableId: number })[];      // seated after, not before
+  tables: PlanDiffTable[];                                 // only tables whose occupants changed
+}
+
+/**
+ * Table of every guest party in a plan, in seat order. Seats are matched to guests by id,
+ * then by name, so plans saved before seats carried ids still line up.
+ */
+function seatedGuests(plan: SeatingPlan, nameToId: Map<string, GuestID>): Map<string, { name: string; tableId: number }> {
+  const out = new Map<string, { name: string; tableId: number }>();
+  for (const t of plan.tables) {
+    for (const seat of t.seats) {
+      const key = String(seat.id ?? nameToId.get(seat.name) ?? seat.name);
+      if (!out.has(key)) out.set(key, { name: seat.name, tableId: t.id });
+    }
+  }
+  return out;
+}
+
+/**
+ * What changed from one plan to another: who moved table, who lost or gained a seat, and
+ * who joined or left each table. Seat order within a table is not a change.
+ */
+export function diffSeatingPlans(before: SeatingPlan, after: SeatingPlan, guests: Guest[] = []): PlanDiff {
+  const nameToId = new Map(guests.map(g => [g.name, g.id]));
+  const a = seatedGuests(before, nameToId);
+  const b = seatedGuests(after, nameToId);
+
+  const diff: PlanDiff = { moved: [], unseated: [], seated: [], tables: [] };
+  const tables = new Map<number, PlanDiffTable>();
+  const tableDiff = (tableId: number) => {
+    if (!tables.has(tableId)) tables.set(tableId, { tableId, joined: [], left: [] });
+    return tables.get(tableId)!;
+  };
+
+  for (const [key, was] of a) {
+    const now = b.get(key);
+    if (!now) {
+      diff.unseated.push({ key, name: was.name, fromTableId: was.tableId });
+      tableDiff(was.tableId).left.push({ key, name: was.name });
+    } else if (now.tableId !== was.tableId) {
+      diff.moved.push({ key, name: now.name, fromTableId: was.tableId, toTableId: now.tableId });
+      tableDiff(was.tableId).left.push({ key, name: was.name });
+      tableDiff(now.tableId).joined.push({ key, name: now.name });
+    }
+  }
+  for (const [key, now] of b) {
+    if (a.has(key)) continue;
+    diff.seated.push({ key, name: now.name, toTableId: now.tableId });
+    tableDiff(now.tableId).joined.push({ key, name: now.name });
+  }
+
+  diff.tables = Array.from(tables.values()).sort((x, y) => x.tableId - y.tableId);
+  return diff;
+}
+
+export const isEmptyPlanDiff = (diff: PlanDiff): boolean =>
+  diff.moved.length === 0 && diff.unseated.length === 0 && diff.seated.length === 0;
@@ -0,0 +1,145 @@
+// src/utils/planEditing.ts
+import type { Adjacents, Assignments, Constraints, Guest, GuestID, LockedTableAssignments, PlanSeat, SeatPins, SeatingPlan, Table, ValidationError } from '../types';
+import { parseAssignmentIds } from './assignments';
+import { detectPlanConflicts } from './seatingAlgorithm';
+import { seatsByIndex } from './seatPins';
+
+export interface PlanCheckInputs {
+  guests: Guest[];
+  tables: Table[];
+  constraints: Constraints;
+  adjacents: Adjacents;
+  assignments: Assignments;
+  lockedTableAssignments: LockedTableAssignments;
+  seatPins?: SeatPins;
+}
+
+const seatGuestId = (seat: PlanSeat, nameToId: Map<string, GuestID>): GuestID | undefined =>
+  seat.id ?? nameToId.get(seat.name);
+
+// Hand-moved tables are seated in list order, so pinned seat indices no longer apply
+const withoutSeatIndex = (seat: PlanSeat): PlanSeat => {
+  const out = { ...seat };
+  delete out.seat;
+  return out;
+};
+
+/**
+ * Editable copy of a generated plan. Scores and the seed are dropped: they describe the
+ * engine's placement, not the hand-edited one.
+ */
+export function startPlanEdit(plan: SeatingPlan): SeatingPlan {
+  return {
+    id: plan.id,
+    tables: plan.tables.map(t => ({ ...t, seats: t.seats.map(s => ({ ...s })) })),
+    edited: true,
+  };
+}
+
+/**
+ * Move every seat of a guest's party to another table, before `beforeGuestId`'s party
+ * (or after the last seated party when omitted)
+ */
+export function moveGuestInPlan(
+  plan: SeatingPlan,
+  guests: Guest[],
+  guestId: GuestID,
+  toTableId: number,
+  beforeGuestId?: GuestID | null
+): SeatingPlan {
+  const guest = guests.find(g => g.id === guestId);
+  if (!guest || !plan.tables.some(t => t.id === toTableId)) return plan;
+  const nameToId = new Map(guests.map(g => [g.name, g.id]));
+  const party: PlanSeat[] = Array.from({ length: Math.max(1, guest.count) }, (_, i) => ({
+    name: guest.name,
+    partyIndex: i,
+    id: guest.id,
+  }));
+
+  const tables = plan.tables.map(t => {
+    const seats = t.seats.filter(s => seatGuestId(s, nameToId) !== guestId).map(withoutSeatIndex);
+    if (t.id !== toTableId) return seats.length === t.seats.length ? t : { ...t, seats };
+    const at = beforeGuestId && beforeGuestId !== guestId
+      ? seats.findIndex(s => seatGuestId(s, nameToId) === beforeGuestId)
+      : -1;
+    return { ...t, seats: at >= 0 ? [...seats.slice(0, at), ...party, ...seats.slice(at)] : [...seats, ...party] };
+  });
+  return { ...plan, tables, edited: true };
+}
+
+/**
+ * Guests seated outside the tables they are assigned or locked to
+ */
+export function detectPlacementRuleBreaks(
+  plan: SeatingPlan,
+  guests: Guest[],
+  assignments: Assignments,
+  lockedTableAssignments: LockedTableAssignments,
+  tableLabel: (tableId: number) => string
+): ValidationError[] {
+  const nameToId = new Map(guests.map(g => [g.name, g.id]));
+  const seatedAt = new Map<GuestID, number>();
+  plan.tables.forEach(t => t.seats.forEach(s => {
+    const id = seatGuestId(s, nameToId);
+    if (id) seatedAt.set(id, t.id);
+  }));
+
+  const out: ValidationError[] = [];
+  for (const g of guests) {
+    const at = seatedAt.get(g.id);
+    if (at === undefined) continue;
+    const lockedTo = Object.entries(lockedTableAssignments || {})
+      .find(([, ids]) => (ids || []).map(String).includes(String(g.id)))?.[0];
+    if (lockedTo !== undefined && Number(lockedTo) !== at) {
+      out.push({ type: 'error', message: `${g.name} is locked to ${tableLabel(Number(lockedTo))}` });
+      continue;
+    }
+    const allowed = parseAssignmentIds(assignments?.[g.id]);
+    if (allowed.length > 0 && !allowed.includes(at)) {
+      out.push({ type: 'error', message: `${g.name} is assigned to ${allowed.map(tableLabel).join(', ')}` });
+    }
+  }
+  return out;
+}
+
+/**
+ * Pinned guests whose party does not start at their pinned seat
+ */
+export function detectSeatPinBreaks(
+  plan: SeatingPlan,
+  guests: Guest[],
+  seatPins: SeatPins | undefined,
+  tableLabel: (tableId: number) => string
+): ValidationError[] {
+  const nameToId = new Map(guests.map(g => [g.name, g.id]));
+  const out: ValidationError[] = [];
+  for (const [tableId, seats] of Object.entries(seatPins || {})) {
+    const planTable = plan.tables.find(t => t.id === Number(tableId));
+    const byIndex = seatsByIndex(planTable?.seats ?? []);
+    for (const [seat, guestId] of Object.entries(seats || {})) {
+      const at = byIndex[Number(seat)];
+      if (at && at.partyIndex === 0 && seatGuestId(at, nameToId) === guestId) continue;
+      const name = guests.find(g => g.id === guestId)?.name;
+      if (!name) continue;
+      // At the right table but another seat is only a warning; the wrong table is a broken lock
+      const sameTable = (planTable?.seats ?? []).some(s => seatGuestId(s, nameToId) === guestId);
+      out.push({ type: sameTable ? 'warn' : 'error', message: `${name} is pinned to seat ${Number(seat) + 1} at ${tableLabel(Number(tableId))}` });
+    }
+  }
+  return out;
+}
+
+/**
+ * Every problem with a plan as it stands: constraint conflicts plus assignment and lock breaks
+ */
+export function validateEditedPlan(
+  plan: SeatingPlan,
+  inputs: PlanCheckInputs,
+  tableLabel: (tableId: number) => string
+): ValidationError[] {
+  const conflicts = detectPlanConflicts(plan, inputs.guests, inputs.tables, inputs.constraints, inputs.adjacents)
+    .map(e => ({ type: e.type, message: e.message }));
+  const breaks = detectPlacementRuleBreaks(plan, inputs.guests, inputs.assignments, inputs.lockedTableAssignments, tableLabel);
+  const pinBreaks = detectSeatPinBreaks(plan, inputs.guests, inputs.seatPins, tableLabel);
+  return [...conflicts, ...breaks, ...pinBreaks];
+}
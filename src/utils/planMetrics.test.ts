@@ -0,0 +1,36 @@
+/**
+ * Tests for the plan quality scorecard helpers
+ */
+
+import { PLAN_METRICS, formatPlanMetric, formatSoftPreferences, formatSolverStatus, getPlanMetric, guestTableMap } from './planMetrics';
+import { createSolverGuests, planOf } from './testFixtures';
+
+export const testPlanMetrics = () => {
+  const guests = createSolverGuests(4);
+  const plan = { ...planOf(guests, [['g1', 'g2'], ['g3', 'g4']]), score: 0.8341, balance: 1, softSatisfaction: 0, softPreferencesTotal: 0 };
+
+  console.assert(PLAN_METRICS[0].key === 'score', 'The score should lead the scorecard');
+  console.assert(getPlanMetric(plan, 'score') === 0.8341 && getPlanMetric(plan, 'adjacencySatisfaction') === undefined, 'Missing metrics should read as undefined');
+  console.assert(getPlanMetric(plan, 'softSatisfaction') === undefined, 'Preferences should not be scored when the event has none');
+  console.assert(getPlanMetric({ ...plan, score: NaN }, 'score') === undefined, 'Non-numeric metrics should be ignored');
+
+  console.assert(formatPlanMetric(0.8341) === '83%' && formatPlanMetric(1) === '100%' && formatPlanMetric(undefined) === '—', 'Metrics should show as whole percentages');
+  console.assert(formatSoftPreferences(plan) === null, 'No preference line without preferences');
+  console.assert(formatSoftPreferences({ ...plan, softPreferencesHonoured: 1, softPreferencesTotal: 1 }) === '1 of 1 soft preference honoured', 'One preference should be singular');
+  console.assert(formatSoftPreferences({ ...plan, softPreferencesHonoured: 2, softPreferencesTotal: 3 }) === '2 of 3 soft preferences honoured', 'Preference counts should be shown');
+
+  console.assert(formatSolverStatus(plan) === null, 'Heuristic plans should have no solver status');
+  console.assert(formatSolverStatus({ ...plan, solver: 'exact', provenOptimal: true }) === 'Proven optimal', 'Exact plans should say when they are proven');
+  console.assert(formatSolverStatus({ ...plan, solver: 'repair', provenOptimal: false }) === 'Fewest moves found before the time limit', 'Unproven repairs should say so');
+
+  const tables = guestTableMap(plan);
+  console.assert(tables.get('g2') === 1 && tables.get('g4') === 2 && tables.size === 4, 'Each guest should map to their table');
+
+  // Two guests sharing a name stay apart; seats without ids are matched to guests by name
+  const namesakes = guests.map(g => (g.id === 'g3' ? { ...g, name: 'Guest 1' } : g));
+  console.assert(guestTableMap(planOf(namesakes, [['g1', 'g2'], ['g3', 'g4']])).size === 4, 'Guests with the same name should not collide');
+  const unkeyed = { ...plan, tables: plan.tables.map(t => ({ ...t, seats: t.seats.map(s => ({ name: s.name, partyIndex: s.partyIndex })) })) };
+  console.assert(guestTableMap(unkeyed, guests).get('g4') === 2 && guestTableMap(unkeyed).get('Guest 4') === 2, 'Seats without ids should fall back to guest names');
+
+  console.log('✅ Plan metric tests passed!');
+};
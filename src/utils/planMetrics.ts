@@ -0,0 +1,81 @@
+import type { Guest, GuestID, PlanSeat, SeatingPlan } from '../types';
+
+export type PlanMetricKey = 'score' | 'adjacencySatisfaction' | 'capacityUtilization' | 'balance' | 'softSatisfaction' | 'tagRuleSatisfaction' | 'tableBalance';
+
+export interface PlanMetricDef {
+  key: PlanMetricKey;
+  label: string;
+  description: string;
+}
+
+/**
+ * Engine quality metrics shown on the scorecard, in display order.
+ * All values are 0..1; higher is better.
+ */
+export const PLAN_METRICS: PlanMetricDef[] = [
+  { key: 'score', label: 'Score', description: 'Weighted total the plans are ranked by' },
+  { key: 'adjacencySatisfaction', label: 'Adjacency', description: 'Adjacent pairings seated side by side' },
+  { key: 'capacityUtilization', label: 'Utilization', description: 'Guests seated / seats available' },
+  { key: 'balance', label: 'Balance', description: 'How evenly tables are filled (target 80%)' },
+  { key: 'softSatisfaction', label: 'Preferences', description: 'Prefer together / prefer apart pairs honoured, weighted by strength' },
+  { key: 'tagRuleSatisfaction', label: 'Tag rules', description: 'How well "seat together" / "spread out" tag rules are followed' },
+  { key: 'tableBalance', label: 'Table balance', description: 'How evenly tables with a balance rule mix the values of their tag' },
+];
+
+/**
+ * Read a metric from a plan; undefined for plans saved before metrics were recorded
+ * and for the preference / tag rule / table balance metrics when the event has none.
+ */
+export function getPlanMetric(plan: SeatingPlan, key: PlanMetricKey): number | undefined {
+  if (key === 'softSatisfaction' && !plan.softPreferencesTotal) return undefined;
+  const v = plan[key];
+  return typeof v === 'number' && Number.isFinite(v) ? v : undefined;
+}
+
+/**
+ * Format a 0..1 metric as a whole percentage ("—" when missing).
+ */
+export function formatPlanMetric(value: number | undefined): string {
+  return value === undefined ? '—' : `${Math.round(value * 100)}%`;
+}
+
+/**
+ * "3 of 4 soft preferences honoured", or null when the plan has none
+ */
+export function formatSoftPreferences(plan: SeatingPlan): string | null {
+  const total = plan.softPreferencesTotal ?? 0;
+  if (total === 0) return null;
+  return `${plan.softPreferencesHonoured ?? 0} of ${total} soft preference${total === 1 ? '' : 's'} honoured`;
+}
+
+/**
+ * Exact solver outcome for the plan it ranked best, or null for other plans
+ */
+export function formatSolverStatus(plan: SeatingPlan): string | null {
+  if (!plan.solver || plan.provenOptimal === undefined) return null;
+  if (plan.solver === 'repair') return plan.provenOptimal ? 'Fewest moves (proven)' : 'Fewest moves found before the time limit';
+  return plan.provenOptimal ? 'Proven optimal' : 'Best found before the time limit';
+}
+
+/**
+ * Key for the guest party in a seat: its id, else the id of the guest with that name, else the
+ * name itself, as in the plan diff.
+ */
+export function seatGuestKey(seat: PlanSeat, nameToId: Map<string, GuestID>): string {
+  return String(seat.id ?? nameToId.get(seat.name) ?? seat.name);
+}
+
+/**
+ * Map guest key → table id for a plan (first seat of each party).
+ */
+export function guestTableMap(plan: SeatingPlan, guests: Guest[] = []): Map<string, number> {
+  const nameToId = new Map(guests.map(g => [g.name, g.id]));
+  const map = new Map<string, number>();
+  for (const t of plan.tables) {
+    for (const seat of t.seats) {
+      const key = seatGuestKey(seat, nameToId);
+      if (!map.has(key)) map.set(key, t.id);
+    }
+  }
+  return map;
+}
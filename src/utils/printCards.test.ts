@@ -0,0 +1,35 @@
+/**
+ * Tests for place cards, tent cards and escort cards
+ */
+
+import { buildEscortCards, buildPlaceCards, renderPrintDocument } from './printCards';
+import { SeatingPlan } from '../types';
+
+export const testPrintCards = () => {
+  const plan: SeatingPlan = {
+    id: 1,
+    tables: [
+      { id: 1, capacity: 4, seats: [
+        { name: 'Ann %Zed + Bob Zed', partyIndex: 0, id: 'a' },
+        { name: 'Ann %Zed + Bob Zed', partyIndex: 1, id: 'a' },
+        { name: 'Cy Adams + 1', partyIndex: 0, id: 'c' },
+        { name: 'Cy Adams + 1', partyIndex: 1, id: 'c' },
+      ] },
+      { id: 2, capacity: 4, seats: [{ name: 'Di "<Dee>" Moss', partyIndex: 0, id: 'd' }] },
+    ],
+  };
+  const label = (id: number) => `Table ${id}`;
+
+  const place = buildPlaceCards(plan, label).map(c => c.name);
+  console.assert(place.join('|') === 'Ann Zed|Bob Zed|Cy Adams|Guest of Cy Adams|Di "<Dee>" Moss', 'Place cards should name each seat of a party');
+
+  const escort = buildEscortCards(plan, label);
+  console.assert(escort.map(c => c.name).join('|') === 'Cy Adams|Di "<Dee>" Moss|Ann Zed + Bob Zed', 'Escort cards should be one per party, by surname');
+  console.assert(escort[0].seats === 2 && escort[0].table === 'Table 1', 'Escort cards should carry the party size and table');
+
+  const html = renderPrintDocument('place', plan, label);
+  console.assert(html.includes('&quot;&lt;Dee&gt;&quot;') && !html.includes('<Dee>'), 'Printed names should be escaped');
+  console.assert(html.includes('page-break-after'), 'Print documents should break pages between sheets');
+
+  console.log('✅ Print card tests passed!');
+};
@@ -0,0 +1,190 @@
+// src/utils/printCards.ts
+import type { SeatingPlan } from '../types';
+import { getDisplayName } from './guestCount';
+import { formatGuestUnitName } from './formatGuestName';
+import { getLastNameForSorting, seatingTokensFromGuestUnit } from './formatters';
+
+export type PrintCardKind = 'place' | 'table' | 'escort';
+
+export interface PlaceCard {
+  name: string;
+  table: string;
+}
+
+export interface TableCard {
+  table: string;
+  guests: string[];
+}
+
+export interface EscortCard {
+  name: string;
+  table: string;
+  seats: number; // seats the party takes at the table
+}
+
+const PLACE_CARDS_PER_SHEET = 8;
+const ESCORT_CARDS_PER_SHEET = 30;
+
+// % marks the sorting surname in the guest list; it is never printed
+const stripMarkers = (name: string) => name.replace(/%/g, '').replace(/\s{2,}/g, ' ').trim();
+
+/**
+ * A party's name as printed: formatted, without the "+N" / "(N)" suffix or sort markers
+ */
+export function cleanGuestName(rawName: string): string {
+  return stripMarkers(getDisplayName(formatGuestUnitName(rawName || '')));
+}
+
+/**
+ * Name for one seat of a party: the member's own name when the unit lists them
+ * ("Ann + Bob"), otherwise "Guest of Ann" for the extra "+N" seats
+ */
+export function seatCardName(rawName: string, partyIndex: number): string {
+  const tokens = seatingTokensFromGuestUnit(formatGuestUnitName(rawName || '')).map(stripMarkers).filter(Boolean);
+  if (tokens.length === 0) return cleanGuestName(rawName);
+  return partyIndex < tokens.length ? tokens[partyIndex] : `Guest of ${tokens[0]}`;
+}
+
+/**
+ * One place card per seat, table by table in seat order
+ */
+export function buildPlaceCards(plan: SeatingPlan, tableLabel: (tableId: number) => string): PlaceCard[] {
+  return plan.tables.flatMap(t =>
+    t.seats.map(seat => ({ name: seatCardName(seat.name, seat.partyIndex), table: tableLabel(t.id) }))
+  );
+}
+
+/**
+ * One tent card per occupied table listing everyone seated there
+ */
+export function buildTableCards(plan: SeatingPlan, tableLabel: (tableId: number) => string): TableCard[] {
+  return plan.tables
+    .filter(t => t.seats.length > 0)
+    .map(t => ({ table: tableLabel(t.id), guests: t.seats.map(seat => seatCardName(seat.name, seat.partyIndex)) }));
+}
+
+/**
+ * One escort card per party, sorted by surname then name
+ */
+export function buildEscortCards(plan: SeatingPlan, tableLabel: (tableId: number) => string): EscortCard[] {
+  const cards: (EscortCard & { sortKey: string })[] = [];
+  for (const t of plan.tables) {
+    const seatsByParty = new Map<string, number>();
+    const names = new Map<string, string>();
+    for (const seat of t.seats) {
+      const key = seat.id ?? seat.name;
+      seatsByParty.set(key, (seatsByParty.get(key) ?? 0) + 1);
+      if (!names.has(key)) names.set(key, seat.name);
+    }
+    for (const [key, seats] of seatsByParty) {
+      const raw = names.get(key)!;
+      cards.push({
+        name: cleanGuestName(raw),
+        table: tableLabel(t.id),
+        seats,
+        sortKey: getLastNameForSorting(formatGuestUnitName(raw)).toLowerCase(),
+      });
+    }
+  }
+  cards.sort((a, b) => a.sortKey.localeCompare(b.sortKey) || a.name.localeCompare(b.name));
+  return cards.map(c => ({ name: c.name, table: c.table, seats: c.seats }));
+}
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const out: T[][] = [];
+  for (let i = 0; i < items.length; i += size) out.push(items.slice(i, i + size));
+  return out;
+};
+
+const PRINT_CSS = `
+  @page { size: letter; margin: 0.5in; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: Georgia, 'Times New Roman', serif; color: #222; }
+  .sheet { break-after: page; page-break-after: always; }
+  .sheet:last-child { break-after: auto; page-break-after: auto; }
+  .card { break-inside: avoid; page-break-inside: avoid; }
+  .place-grid { display: grid; grid-template-columns: 1fr 1fr; grid-auto-rows: 2.4in; gap: 0.1in; }
+  .place { border: 1px dashed #999; display: flex; flex-direction: column; }
+  .place .fold { flex: 1; border-bottom: 1px dotted #ccc; }
+  .place .front { flex: 1; display: flex; flex-direction: column; align-items: center; justify-content: center; }
+  .place .name { font-size: 20pt; text-align: center; padding: 0 0.2in; }
+  .place .table { font-size: 11pt; margin-top: 0.1in; color: #555; }
+  .tent { height: 9.5in; border: 1px dashed #999; display: flex; flex-direction: column; }
+  .tent .half { flex: 1; display: flex; flex-direction: column; align-items: center; justify-content: center; padding: 0.3in; }
+  .tent .back { transform: rotate(180deg); border-bottom: 1px dotted #ccc; }
+  .tent .title { font-size: 32pt; margin-bottom: 0.2in; }
+  .tent ul { list-style: none; margin: 0; padding: 0; text-align: center; font-size: 13pt; line-height: 1.5; }
+  .escort-grid { display: grid; grid-template-columns: repeat(3, 1fr); grid-auto-rows: 0.85in; gap: 0.1in; }
+  .escort { border: 1px solid #bbb; padding: 0.1in; display: flex; flex-direction: column; justify-content: center; }
+  .escort .name { font-size: 12pt; }
+  .escort .table { font-size: 10pt; color: #555; }
+  h1 { font-size: 14pt; font-weight: normal; margin: 0 0 0.15in; color: #555; }
+`;
+
+function placeCardsHtml(cards: PlaceCard[]): string {
+  return chunk(cards, PLACE_CARDS_PER_SHEET).map(sheet => `
+    <section class="sheet"><div class="place-grid">${sheet.map(c => `
+      <div class="card place">
+        <div class="fold"></div>
+        <div class="front"><div class="name">${escapeHtml(c.name)}</div><div class="table">${escapeHtml(c.table)}</div></div>
+      </div>`).join('')}
+    </div></section>`).join('');
+}
+
+function tableCardsHtml(cards: TableCard[]): string {
+  // Both halves carry the card so it reads from either side once folded
+  const half = (c: TableCard, extra: string) => `
+    <div class="half ${extra}">
+      <div class="title">${escapeHtml(c.table)}</div>
+      <ul>${c.guests.map(g => `<li>${escapeHtml(g)}</li>`).join('')}</ul>
+    </div>`;
+  return cards.map(c => `
+    <section class="sheet"><div class="card tent">${half(c, 'back')}${half(c, 'front')}</div></section>`).join('');
+}
+
+function escortCardsHtml(cards: EscortCard[]): string {
+  return chunk(cards, ESCORT_CARDS_PER_SHEET).map((sheet, i) => `
+    <section class="sheet">
+      <h1>Find your seat${i > 0 ? ' (continued)' : ''}</h1>
+      <div class="escort-grid">${sheet.map(c => `
+        <div class="card escort">
+          <div class="name">${escapeHtml(c.name)}${c.seats > 1 ? ` (party of ${c.seats})` : ''}</div>
+          <div class="table">${escapeHtml(c.table)}</div>
+        </div>`).join('')}
+      </div>
+    </section>`).join('');
+}
+
+/**
+ * Stand-alone HTML document for one kind of card, with print CSS page breaks
+ */
+export function renderPrintDocument(kind: PrintCardKind, plan: SeatingPlan, tableLabel: (tableId: number) => string): string {
+  const titles: Record<PrintCardKind, string> = { place: 'Place cards', table: 'Table cards', escort: 'Escort cards' };
+  const body = kind === 'place'
+    ? placeCardsHtml(buildPlaceCards(plan, tableLabel))
+    : kind === 'table'
+      ? tableCardsHtml(buildTableCards(plan, tableLabel))
+      : escortCardsHtml(buildEscortCards(plan, tableLabel));
+  return `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>${titles[kind]}</title><style>${PRINT_CSS}</style></head>
+<body>${body}</body></html>`;
+}
+
+/**
+ * Open the cards in a new window and start printing. Returns false when the browser
+ * blocked the window.
+ */
+export function printPlanCards(kind: PrintCardKind, plan: SeatingPlan, tableLabel: (tableId: number) => string): boolean {
+  const win = window.open('', '_blank');
+  if (!win) return false;
+  win.document.open();
+  win.document.write(renderPrintDocument(kind, plan, tableLabel));
+  win.document.close();
+  win.focus();
+  // Give the new document a beat to lay out before the dialog freezes it
+  win.setTimeout(() => win.print(), 250);
+  return true;
+}
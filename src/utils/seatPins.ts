@@ -0,0 +1,81 @@
+// src/utils/seatPins.ts
+import type { GuestID, PlanSeat, SeatPins, TableID } from '../types';
+
+export interface SeatPin {
+  tableId: TableID;
+  seat: number;
+}
+
+/**
+ * Table and seat a guest is pinned to, if any
+ */
+export function findSeatPin(seatPins: SeatPins | undefined, guestId: GuestID): SeatPin | null {
+  for (const [tableId, seats] of Object.entries(seatPins || {})) {
+    for (const [seat, id] of Object.entries(seats || {})) {
+      if (String(id) === String(guestId)) return { tableId: Number(tableId), seat: Number(seat) };
+    }
+  }
+  return null;
+}
+
+/**
+ * Pins without the guest; tables left with no pins are dropped
+ */
+export function unpinGuest(seatPins: SeatPins | undefined, guestId: GuestID): SeatPins {
+  const out: SeatPins = {};
+  for (const [tableId, seats] of Object.entries(seatPins || {})) {
+    const kept = Object.fromEntries(Object.entries(seats || {}).filter(([, id]) => String(id) !== String(guestId)));
+    if (Object.keys(kept).length > 0) out[Number(tableId)] = kept;
+  }
+  return out;
+}
+
+/**
+ * Pin a guest's party to start at a seat. A guest has at most one pin, and a seat holds
+ * one pinned guest, so both the guest's old pin and the seat's old guest are replaced.
+ */
+export function pinGuestToSeat(seatPins: SeatPins | undefined, guestId: GuestID, tableId: TableID, seat: number): SeatPins {
+  const out = unpinGuest(seatPins, guestId);
+  out[tableId] = { ...(out[tableId] || {}), [seat]: guestId };
+  return out;
+}
+
+/**
+ * Guest ids pinned at each table, the way lockedTableAssignments lists them
+ */
+export function pinnedGuestsByTable(seatPins: SeatPins | undefined): Record<TableID, GuestID[]> {
+  return Object.fromEntries(
+    Object.entries(seatPins || {}).map(([tableId, seats]) => [Number(tableId), Object.values(seats || {}).map(String)])
+  );
+}
+
+/**
+ * Plan seats laid out by seat index. Seats without an index (tables with no pins) sit at
+ * their position in the list; index gaps are empty seats.
+ */
+export function seatsByIndex(seats: PlanSeat[]): (PlanSeat | undefined)[] {
+  const out: (PlanSeat | undefined)[] = [];
+  seats.forEach((s, i) => {
+    out[typeof s.seat === 'number' ? s.seat : i] = s;
+  });
+  return Array.from(out);
+}
+
+export function sanitizeSeatPins(incoming: unknown): SeatPins {
+  if (!incoming || typeof incoming !== 'object') return {};
+  const out: SeatPins = {};
+  const seen = new Set<string>();
+  for (const [tableId, seats] of Object.entries(incoming as Record<string, unknown>)) {
+    const tid = Number(tableId);
+    if (!Number.isInteger(tid) || !seats || typeof seats !== 'object') continue;
+    for (const [seat, guestId] of Object.entries(seats as Record<string, unknown>)) {
+      const index = Number(seat);
+      if (!Number.isInteger(index) || index < 0 || guestId == null || guestId === '') continue;
+      // One pin per guest; the first one wins
+      if (seen.has(String(guestId))) continue;
+      seen.add(String(guestId));
+      out[tid] = { ...(out[tid] || {}), [index]: String(guestId) };
+    }
+  }
+  return out;
+}
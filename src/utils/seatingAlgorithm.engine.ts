@@ -18,14 +18,40 @@ export interface TableIn {
   name?: string;
   seats?: number;
   capacity?: number;
+  rules?: TableRuleIn[];
+  shape?: TableShapeIn;
+  pins?: Record<number, ID>; // seat index -> guest whose party starts at that seat
+}
+/**
+ * Seat layout. round: one ring. rectangle: two facing sides, seats numbered around the
+ * table, so a seat neighbours the seats beside it and the one across. head / u-shape: a
+ * single row with two ends (the arms of a U are too far apart to talk across).
+ */
+export type TableShapeIn = "round" | "rectangle" | "head" | "u-shape";
+/**
+ * A table rule with its tag already resolved to guest ids. max/only restrict who may sit
+ * at the table; balance keeps the heads of each bucket (one per dimension value) even.
+ */
+export interface TableRuleIn {
+  kind: "max" | "only" | "balance";
+  members: string[];
+  limit?: number;
+  buckets?: string[][];
+}
+export type ConstraintsMap = Record<string, Record<string, "must" | "cannot" | "prefer" | "avoid" | "">>;
+export type PreferenceWeightsMap = Record<string, Record<string, number>>;
+export interface TagGroupIn {
+  members: string[];
+  mode: "group" | "mix"; // group = seat together, mix = spread across tables
 }
-export type ConstraintsMap = Record<string, Record<string, "must" | "cannot" | "">>;
 export type AdjRecord = Record<string, string[]>;
 export type AssignmentsIn = Record<string, string | string[]>;
 
 export interface PlanSeat {
   name: string;
   partyIndex: number;
+  id?: ID; // guest id
+  seat?: number; // seat index, set on tables with pinned seats
 }
 export interface PlanTableOut {
   tableId: ID;
@@ -37,8 +63,16 @@ export interface SeatingPlanOut {
   adjacencySatisfaction?: number;
   capacityUtilization?: number;
   balance?: number;
+  softSatisfaction?: number;
+  softPreferencesHonoured?: number;
+  softPreferencesTotal?: number;
+  tagRuleSatisfaction?: number;
+  tableBalance?: number;
+  solver?: "exact" | "repair";
+  provenOptimal?: boolean; // exact / repair, best plan only: search finished, no better plan exists
   seedUsed?: number;
   attemptsUsed?: number;
+  improvementSteps?: number;
 }
 
 export type ConflictKind =
@@ -49,6 +83,12 @@ export type ConflictKind =
   | "assignment_conflict"
   | "cant_within_must_group"
   | "group_too_big_for_any_table"
+  | "table_rule_conflict"
+  | "exact_solver_too_large"
+  | "table_over_capacity"
+  | "cant_seated_together"
+  | "adjacent_not_side_by_side"
+  | "guest_not_seated"
   | "unknown_guest"
   | "invalid_input_data"
   | "self_reference_ignored";
@@ -58,9 +98,24 @@ export interface ValidationError {
   message: string;
   details?: any;
 }
+/**
+ * One hard rule in an infeasibility explanation: a must/cannot/adjacent pair, a guest's
+ * table assignment (allowed tables in `tables`), or a max/only rule of table `tables[0]`.
+ */
+export interface ConflictItem {
+  kind: "must" | "cannot" | "adjacent" | "assignment" | "table_rule";
+  guests: ID[];
+  tables?: ID[];
+  ruleIndex?: number; // position in the table's rules
+}
+export interface InfeasibilityExplanation {
+  items: ConflictItem[]; // empty: the guests do not fit even without any rules
+  minimal: boolean;      // true only when every check was exact and finished in time
+}
 export interface GenerateReturn {
   plans: SeatingPlanOut[];
   errors: ValidationError[];
+  infeasibility?: InfeasibilityExplanation;
 }
 
 class RNG {
@@ -80,7 +135,7 @@ class RNG {
     return x >>> 0;
   }
   next(): number {
-    return (this.nextU32() & 0xffffffff) / 0x1_0000_0000;
+    return this.nextU32() / 0x1_0000_0000; // [0, 1); masking with & would go negative past 2^31
   }
   shuffle<T>(arr: T[]): void {
     for (let i = arr.length - 1; i > 0; i--) {
@@ -129,14 +184,30 @@ interface SafeTable {
   id: ID;
   name?: string;
   capacity: number;
+  rules?: TableRuleIn[];
+  shape?: TableShapeIn; // omitted for round
+  pins?: Record<number, ID>; // omitted without pins
+}
+interface CompiledTableRule {
+  kind: TableRuleIn["kind"];
+  heads: Map<ID, number>; // tagged guest id → party size
+  limit: number;
+  buckets: Map<ID, number>; // guest id → bucket index (balance)
+  bucketCount: number;
 }
 interface Pair {
   0: ID;
   1: ID;
 }
+interface SoftPair {
+  a: ID;
+  b: ID;
+  weight: number; // > 0 prefer together, < 0 prefer apart
+}
 interface ConstraintsPairs {
   mustPairs: Pair[];
   cantPairs: Pair[];
+  softPairs: SoftPair[];
 }
 interface AdjacencyPairs {
   pairs: Pair[];
@@ -158,6 +229,7 @@ interface TableState {
   table: SafeTable;
   remaining: number;
   occupants: ID[];
+  rules: CompiledTableRule[];
 }
 interface PlacementState {
   placed: Map<ID, ID>;
@@ -231,7 +303,23 @@ function normalizeTables(
       }
       const name = String(t?.name ?? "").trim() || `Table ${id}`;
       const capacity = Math.max(1, Math.floor(Number(t?.capacity ?? t?.seats) || 1));
-      tables.push({ id, name, capacity });
+      const rules = Array.isArray(t?.rules)
+        ? t.rules.filter((r) => r && ["max", "only", "balance"].includes(r.kind) && Array.isArray(r.members))
+        : [];
+      const shape = ["rectangle", "head", "u-shape"].includes(t?.shape as string) ? t.shape : undefined;
+      const pins: Record<number, ID> = {};
+      for (const [seat, gid] of Object.entries(t?.pins ?? {})) {
+        const index = Number(seat);
+        if (Number.isInteger(index) && index >= 0 && index < capacity && gid) pins[index] = String(gid);
+      }
+      tables.push({
+        id,
+        name,
+        capacity,
+        ...(rules.length > 0 && { rules }),
+        ...(shape && { shape }),
+        ...(Object.keys(pins).length > 0 && { pins }),
+      });
       ids.add(id);
     } catch (e) {
       errors.push({
@@ -259,10 +347,12 @@ function dedupUndirected(pairs: Pair[]): Pair[] {
   return out;
 }
 
-function toPairsFromConstraints(map: ConstraintsMap | undefined): ConstraintsPairs {
+function toPairsFromConstraints(map: ConstraintsMap | undefined, weights?: PreferenceWeightsMap): ConstraintsPairs {
   const must: Pair[] = [];
   const cant: Pair[] = [];
-  if (!map) return { mustPairs: must, cantPairs: cant };
+  const soft: SoftPair[] = [];
+  const seenSoft = new Set<string>();
+  if (!map) return { mustPairs: must, cantPairs: cant, softPairs: soft };
   for (const a of Object.keys(map)) {
     const row = map[a] || {};
     for (const b of Object.keys(row)) {
@@ -270,9 +360,171 @@ function toPairsFromConstraints(map: ConstraintsMap | undefined): ConstraintsPai
       if (a === b) continue;
       if (v === "must") must.push([String(a), String(b)]);
       else if (v === "cannot") cant.push([String(a), String(b)]);
+      else if (v === "prefer" || v === "avoid") {
+        const [A, B] = String(a) < String(b) ? [String(a), String(b)] : [String(b), String(a)];
+        const k = `${A}|${B}`;
+        if (seenSoft.has(k)) continue;
+        seenSoft.add(k);
+        const w = weights?.[a]?.[b] ?? weights?.[b]?.[a];
+        const mag = typeof w === "number" && Number.isFinite(w) && w > 0 ? w : 1;
+        soft.push({ a: A, b: B, weight: v === "prefer" ? mag : -mag });
+      }
+    }
+  }
+  return { mustPairs: dedupUndirected(must), cantPairs: dedupUndirected(cant), softPairs: soft };
+}
+
+function buildSoftMap(pairs: SoftPair[]): Map<ID, Map<ID, number>> {
+  const m = new Map<ID, Map<ID, number>>();
+  for (const { a, b, weight } of pairs) {
+    if (!m.has(a)) m.set(a, new Map());
+    if (!m.has(b)) m.set(b, new Map());
+    m.get(a)!.set(b, weight);
+    m.get(b)!.set(a, weight);
+  }
+  return m;
+}
+
+function softPreferenceStats(
+  pairs: SoftPair[],
+  placed: Map<ID, ID>,
+): { honoured: number; total: number; satisfaction: number } {
+  let honoured = 0,
+    total = 0,
+    weightHonoured = 0,
+    weightTotal = 0;
+  for (const { a, b, weight } of pairs) {
+    const ta = placed.get(a),
+      tb = placed.get(b);
+    if (ta === undefined || tb === undefined) continue;
+    const together = ta === tb;
+    total++;
+    weightTotal += Math.abs(weight);
+    if (together === weight > 0) {
+      honoured++;
+      weightHonoured += Math.abs(weight);
+    }
+  }
+  return { honoured, total, satisfaction: weightTotal > 0 ? weightHonoured / weightTotal : 1 };
+}
+
+function buildTagMembership(tagGroups: TagGroupIn[]): Map<ID, Set<number>> {
+  const m = new Map<ID, Set<number>>();
+  tagGroups.forEach((tg, i) => {
+    for (const id of tg.members) {
+      const k = String(id);
+      if (!m.has(k)) m.set(k, new Set());
+      m.get(k)!.add(i);
+    }
+  });
+  return m;
+}
+
+/**
+ * Mean rule satisfaction from the number of tables each tag group ends up on:
+ * group → 1 when all at one table, mix → 1 when spread over as many tables as possible.
+ */
+function tagGroupSatisfaction(
+  tagGroups: TagGroupIn[],
+  placed: Map<ID, ID>,
+  tableCount: number,
+): number | undefined {
+  if (tagGroups.length === 0) return undefined;
+  let sum = 0;
+  for (const tg of tagGroups) {
+    const used = new Set<ID>();
+    let n = 0;
+    for (const id of tg.members) {
+      const tid = placed.get(String(id));
+      if (tid === undefined) continue;
+      used.add(tid);
+      n++;
+    }
+    if (tg.mode === "group") sum += n > 1 ? (n - used.size) / (n - 1) : 1;
+    else {
+      const best = Math.min(n, tableCount);
+      sum += best > 1 ? (used.size - 1) / (best - 1) : 1;
+    }
+  }
+  return sum / tagGroups.length;
+}
+
+function compileTableRules(tables: SafeTable[], guests: SafeGuest[]): Map<ID, CompiledTableRule[]> {
+  const counts = new Map<ID, number>(guests.map((g) => [g.id, g.count]));
+  const out = new Map<ID, CompiledTableRule[]>();
+  for (const t of tables) {
+    if (!t.rules?.length) continue;
+    out.set(
+      t.id,
+      t.rules.map((r) => {
+        const heads = new Map<ID, number>();
+        for (const id of r.members) if (counts.has(String(id))) heads.set(String(id), counts.get(String(id))!);
+        const buckets = new Map<ID, number>();
+        (r.buckets || []).forEach((ids, i) => ids.forEach((id) => buckets.set(String(id), i)));
+        return {
+          kind: r.kind,
+          heads,
+          limit: Math.max(0, Math.floor(Number(r.limit) || 0)),
+          buckets,
+          bucketCount: r.buckets?.length ?? 0,
+        };
+      }),
+    );
+  }
+  return out;
+}
+
+function ruleHeads(rule: CompiledTableRule, ids: ID[]): number {
+  let n = 0;
+  for (const id of ids) n += rule.heads.get(id) ?? 0;
+  return n;
+}
+
+/**
+ * Whether the max/only rules of a table let these guests join its occupants
+ */
+function tableRulesAllow(rules: CompiledTableRule[], members: ID[], occupants: ID[]): boolean {
+  for (const r of rules) {
+    if (r.kind === "only" && members.some((m) => !r.heads.has(m))) return false;
+    if (r.kind === "max" && ruleHeads(r, members) + ruleHeads(r, occupants) > r.limit) return false;
+  }
+  return true;
+}
+
+function bucketHeads(rule: CompiledTableRule, ids: ID[], heads: Map<ID, number>): number[] {
+  const counts = new Array(rule.bucketCount).fill(0);
+  for (const id of ids) {
+    const b = rule.buckets.get(id);
+    if (b !== undefined) counts[b] += heads.get(id) ?? 1;
+  }
+  return counts;
+}
+
+/**
+ * Mean evenness of balance rules over the tables that seat anyone from their buckets:
+ * 1 when bucket head counts differ by no more than the remainder forces.
+ */
+function tableBalanceSatisfaction(
+  tableRules: Map<ID, CompiledTableRule[]>,
+  byTable: Map<ID, ID[]>,
+  heads: Map<ID, number>,
+): number | undefined {
+  let sum = 0,
+    n = 0;
+  for (const [tid, rules] of tableRules) {
+    const occ = byTable.get(tid) || [];
+    for (const r of rules) {
+      if (r.kind !== "balance" || r.bucketCount < 2) continue;
+      const counts = bucketHeads(r, occ, heads);
+      const total = counts.reduce((a, b) => a + b, 0);
+      if (total === 0) continue;
+      const ideal = total % r.bucketCount === 0 ? 0 : 1;
+      const spread = Math.max(...counts) - Math.min(...counts);
+      sum += total > ideal ? 1 - (spread - ideal) / (total - ideal) : 1;
+      n++;
     }
   }
-  return { mustPairs: dedupUndirected(must), cantPairs: dedupUndirected(cant) };
+  return n > 0 ? sum / n : undefined;
 }
 
 function toPairsFromAdj(adjs: AdjRecord | undefined): AdjacencyPairs {
@@ -346,6 +598,11 @@ function checkAdjacencyCyclesUndirected(
   return errors;
 }
 
+// Diagnostics of validation and placement. Re-runs (the conflict explainer, checks of a
+// hand-edited plan) pass silent so they stay out of the log.
+type DiagnosticLog = Pick<Console, "log" | "group" | "groupEnd" | "error">;
+const SILENT_LOG: DiagnosticLog = { log: () => {}, group: () => {}, groupEnd: () => {}, error: () => {} };
+
 function validateAndGroup(
   guests: GuestUnit[],
   tables: TableIn[],
@@ -353,6 +610,9 @@ function validateAndGroup(
   adj: AdjacencyPairs,
   assignments: AssignmentsIn,
   isPremium: boolean = false,
+  tieBreak: (a: { members: ID[] }, b: { members: ID[] }) => number = () => 0,
+  tableRules: Map<ID, CompiledTableRule[]> = new Map(),
+  silent = false,
 ): {
   groups: any[];
   errors: ValidationError[];
@@ -360,6 +620,7 @@ function validateAndGroup(
   cantMap: Map<ID, Set<ID>>;
   adjMap: Map<ID, Set<ID>>;
 } {
+  const log = silent ? SILENT_LOG : console;
   const errors: ValidationError[] = [];
   const idToGuest = new Map<ID, GuestUnit>(guests.map((g) => [String(g.id), g]));
   const idToTable = new Map<ID, TableIn>(tables.map((t) => [String(t.id), t as any]));
@@ -372,20 +633,20 @@ function validateAndGroup(
   for (const [a, b] of adj?.pairs || []) dsu.union(a, b);
 
   // DIAGNOSTIC: Input summary
-  console.group('[Algorithm Start]');
-  console.log('Total guests:', guests.length, 'Total people:', guests.reduce((sum, g) => sum + (g.count || 0), 0));
-  console.log('Tables:', tables.map(t => `${t.id}:${getCapacity(t)}seats`).join(', '));
-  console.log('Total capacity:', tables.reduce((sum, t) => sum + getCapacity(t), 0));
-  console.log('isPremium:', isPremium);
-  console.log('MUST pairs:', constr?.mustPairs?.length || 0);
-  console.log('ADJ pairs:', adj?.pairs?.length || 0);
+  log.group('[Algorithm Start]');
+  log.log('Total guests:', guests.length, 'Total people:', guests.reduce((sum, g) => sum + (g.count || 0), 0));
+  log.log('Tables:', tables.map(t => `${t.id}:${getCapacity(t)}seats`).join(', '));
+  log.log('Total capacity:', tables.reduce((sum, t) => sum + getCapacity(t), 0));
+  log.log('isPremium:', isPremium);
+  log.log('MUST pairs:', constr?.mustPairs?.length || 0);
+  log.log('ADJ pairs:', adj?.pairs?.length || 0);
   
   // DIAGNOSTIC: Check guest structure
   if (guests.length > 0) {
-    console.log('First guest structure:', JSON.stringify(guests[0]));
-    console.log('Guest count values:', guests.map(g => `${g.name || g.id}: ${g.count || 'undefined'}`).slice(0, 5));
+    log.log('First guest structure:', JSON.stringify(guests[0]));
+    log.log('Guest count values:', guests.map(g => `${g.name || g.id}: ${g.count || 'undefined'}`).slice(0, 5));
   }
-  console.groupEnd();
+  log.groupEnd();
 
   const byRoot = new Map<ID, { root: ID; members: ID[]; size: number; adjacencyDegree: number; cantNeighbors: Set<ID>; preassignedTable?: ID; allowedTables?: Set<ID> }>();
 
@@ -414,7 +675,7 @@ function validateAndGroup(
   }
 
   // DIAGNOSTIC: Assignment intersection with detailed logging
-  console.group('[Assignment Intersection]');
+  log.group('[Assignment Intersection]');
   for (const gi of byRoot.values()) {
     let groupAllowed: Set<ID> | null = null;
     const assignedMembers: string[] = [];
@@ -424,7 +685,7 @@ function validateAndGroup(
       const raw = assignments[m];
       if (!raw) {
         unassignedMembers.push(m);
-        console.log(`Member ${m}: No assignment (flexible)`);
+        log.log(`Member ${m}: No assignment (flexible)`);
         continue;
       }
       
@@ -435,42 +696,42 @@ function validateAndGroup(
         .filter((tid) => idToTable.has(String(tid)));
       const memberAllowed = new Set<ID>(list);
       
-      console.log(`Member ${m}: "${raw}" → [${Array.from(memberAllowed).join(',')}]`);
+      log.log(`Member ${m}: "${raw}" → [${Array.from(memberAllowed).join(',')}]`);
       
       if (memberAllowed.size === 0) {
-        console.log(`  → Skipping (no valid tables)`);
+        log.log(`  → Skipping (no valid tables)`);
         continue;
       }
       
       if (groupAllowed === null) {
         groupAllowed = memberAllowed;
-        console.log(`  → Initial group allowed: [${Array.from(groupAllowed).join(',')}]`);
+        log.log(`  → Initial group allowed: [${Array.from(groupAllowed).join(',')}]`);
       } else {
         const before = Array.from(groupAllowed).join(',');
         const next = new Set<ID>();
         for (const tid of groupAllowed) if (memberAllowed.has(tid)) next.add(tid);
         groupAllowed = next;
-        console.log(`  → Intersection: [${before}] ∩ [${Array.from(memberAllowed).join(',')}] = [${Array.from(groupAllowed).join(',')}]`);
+        log.log(`  → Intersection: [${before}] ∩ [${Array.from(memberAllowed).join(',')}] = [${Array.from(groupAllowed).join(',')}]`);
       }
     }
     
     if (assignedMembers.length > 0) {
-      console.log(`Group [${gi.members.join(',')}]: ${gi.size} people`);
-      console.log(`  Assigned members: [${assignedMembers.join(',')}]`);
+      log.log(`Group [${gi.members.join(',')}]: ${gi.size} people`);
+      log.log(`  Assigned members: [${assignedMembers.join(',')}]`);
       if (unassignedMembers.length > 0) {
-        console.log(`  Unassigned members: [${unassignedMembers.join(',')}] (flexible)`);
+        log.log(`  Unassigned members: [${unassignedMembers.join(',')}] (flexible)`);
       }
-      console.log(`  Final intersection: [${groupAllowed ? Array.from(groupAllowed).join(',') : 'NONE'}]`);
+      log.log(`  Final intersection: [${groupAllowed ? Array.from(groupAllowed).join(',') : 'NONE'}]`);
       
       if (groupAllowed && groupAllowed.size === 0) {
-        console.error(`  ❌ CONFLICT: No common table for assigned members`);
+        log.error(`  ❌ CONFLICT: No common table for assigned members`);
       } else if (groupAllowed && groupAllowed.size === 1) {
-        console.log(`  ✓ Pre-assigned to table: ${Array.from(groupAllowed)[0]}`);
+        log.log(`  ✓ Pre-assigned to table: ${Array.from(groupAllowed)[0]}`);
       } else if (groupAllowed && groupAllowed.size > 1) {
-        console.log(`  ✓ Can be placed at tables: [${Array.from(groupAllowed).join(',')}]`);
+        log.log(`  ✓ Can be placed at tables: [${Array.from(groupAllowed).join(',')}]`);
       }
     } else {
-      console.log(`Group [${gi.members.join(',')}]: ${gi.size} people, No assignments (can be placed anywhere)`);
+      log.log(`Group [${gi.members.join(',')}]: ${gi.size} people, No assignments (can be placed anywhere)`);
     }
     
     // Only apply assignment restrictions if there are assigned members
@@ -490,7 +751,7 @@ function validateAndGroup(
     }
     // If no assigned members, group can be placed anywhere (no restrictions)
   }
-  console.groupEnd();
+  log.groupEnd();
 
   for (const [id, s] of adjMap.entries())
     if (s.size > 2)
@@ -512,6 +773,20 @@ function validateAndGroup(
         details: { group: gi.members },
       });
 
+  // A group no table's max/only rules admit (among its assigned tables) can never be placed
+  if (tableRules.size > 0)
+    for (const gi of byRoot.values()) {
+      const candidates = tables.filter(
+        (t) => !gi.allowedTables?.size || gi.allowedTables.has(String(t.id)),
+      );
+      if (!candidates.some((t) => tableRulesAllow(tableRules.get(String(t.id)) || [], gi.members, [])))
+        errors.push({
+          kind: "table_rule_conflict",
+          message: "Table rules leave no table these guests may sit at",
+          details: { group: gi.members },
+        });
+    }
+
   const guestIds = new Set(guests.map((g) => String(g.id)));
   const checkSelf = (pairs: Pair[], kind: string) =>
     pairs.forEach(([a, b]) => {
@@ -535,11 +810,11 @@ function validateAndGroup(
     if (!guestIds.has(gid))
       errors.push({ kind: "unknown_guest", message: `Unknown assignment guest: ${gid}` });
 
-  // order groups (harder first)
+  // order groups (harder first); the caller may break ties (soft preferences, tag rules)
   const groups = Array.from(byRoot.values()).sort((a, b) => {
     const ah = a.size + a.cantNeighbors.size + a.adjacencyDegree - (a.preassignedTable ? 1000 : 0);
     const bh = b.size + b.cantNeighbors.size + b.adjacencyDegree - (b.preassignedTable ? 1000 : 0);
-    return bh - ah;
+    return bh - ah || tieBreak(a, b);
   });
 
   return { groups, errors, ctx: { idToGuest: idToGuest as any, idToTable }, cantMap, adjMap };
@@ -547,6 +822,7 @@ function validateAndGroup(
 
 function canPlaceGroup(gi: any, ts: any, cantMap: Map<ID, Set<ID>>): boolean {
   if (gi.size > ts.remaining) return false;
+  if (ts.rules.length && !tableRulesAllow(ts.rules, gi.members, ts.occupants)) return false;
   for (const m of gi.members) {
     const cset = cantMap.get(m);
     if (!cset) continue;
@@ -565,29 +841,38 @@ function placeGroups(
   rng: RNG,
   attemptCap: number,
   deadline: number,
+  affinity: (members: ID[], occupants: ID[], tableId: ID) => number = () => 0,
+  tableRules: Map<ID, CompiledTableRule[]> = new Map(),
+  silent = false,
 ): { success: boolean; state: any; attempts: number } {
+  const log = silent ? SILENT_LOG : console;
   const state = {
     placed: new Map<ID, ID>(),
-    tables: tables.map((t: any) => ({ table: t, remaining: getCapacity(t), occupants: [] as ID[] })),
+    tables: tables.map((t: any) => ({
+      table: t,
+      remaining: getCapacity(t),
+      occupants: [] as ID[],
+      rules: tableRules.get(String(t.id)) ?? [],
+    })),
   };
   let attempts = 0;
 
   // DIAGNOSTIC: Pre-assignment phase
   const preassignedGroups = groups.filter(g => g.preassignedTable);
-  console.log(`[Pre-assignment Phase] ${preassignedGroups.length} groups to pre-assign`);
+  log.log(`[Pre-assignment Phase] ${preassignedGroups.length} groups to pre-assign`);
   
   for (const gi of groups) {
     if (!gi.preassignedTable) continue;
     const ts = state.tables.find((s: any) => String(s.table.id) === String(gi.preassignedTable));
     if (!ts) {
-      console.error(`❌ Cannot find table ${gi.preassignedTable} for pre-assigned group [${gi.members.join(',')}]`);
+      log.error(`❌ Cannot find table ${gi.preassignedTable} for pre-assigned group [${gi.members.join(',')}]`);
       return { success: false, state, attempts };
     }
     if (!canPlaceGroup(gi, ts, cantMap)) {
-      console.error(`❌ Cannot place pre-assigned group [${gi.members.join(',')}] at table ${gi.preassignedTable}: Need ${gi.size} seats, Available: ${ts.remaining}`);
+      log.error(`❌ Cannot place pre-assigned group [${gi.members.join(',')}] at table ${gi.preassignedTable}: Need ${gi.size} seats, Available: ${ts.remaining}`);
       return { success: false, state, attempts };
     }
-    console.log(`✓ Placed group [${gi.members.join(',')}] (${gi.size} people) at table ${gi.preassignedTable}`);
+    log.log(`✓ Placed group [${gi.members.join(',')}] (${gi.size} people) at table ${gi.preassignedTable}`);
     ts.remaining -= gi.size;
     ts.occupants.push(...gi.members);
     for (const m of gi.members) state.placed.set(m, ts.table.id);
@@ -611,7 +896,7 @@ function placeGroups(
       if (!canPlaceGroup(gi, ts, cantMap)) continue;
       let overlap = 0;
       for (const occ of ts.occupants) if (partnerSet.has(occ)) overlap++;
-      candidates.push({ ts, score: overlap * 10 - (ts.remaining - gi.size) });
+      candidates.push({ ts, score: overlap * 10 + affinity(gi.members, ts.occupants, String(ts.table.id)) - (ts.remaining - gi.size) });
     }
 
     if (!candidates.length) return false;
@@ -689,7 +974,175 @@ function orderTableCircular(guestIds: ID[], localAdj: Map<ID, Set<ID>>): ID[] {
   return bestOrder;
 }
 
-function adjacencyPairsSatisfied(order: ID[], adj: Map<ID, Set<ID>>): number {
+/**
+ * Neighbouring seat indices for each seat of a table. Round tables only need this once
+ * seats are pinned: empty seats between pins then really do keep guests apart.
+ */
+function seatNeighbours(shape: TableShapeIn, capacity: number): Set<number>[] {
+  const out = Array.from({ length: capacity }, () => new Set<number>());
+  const link = (a: number, b: number) => {
+    if (a === b || a < 0 || b < 0 || a >= capacity || b >= capacity) return;
+    out[a].add(b);
+    out[b].add(a);
+  };
+  if (shape === "rectangle") {
+    // Seats 0..side-1 run along one side, the rest come back along the other
+    const side = Math.ceil(capacity / 2);
+    const position = (i: number) => (i < side ? i : capacity - 1 - i);
+    for (let i = 0; i + 1 < side; i++) link(i, i + 1);
+    for (let i = side; i + 1 < capacity; i++) link(i, i + 1);
+    for (let i = 0; i < side; i++)
+      for (let j = side; j < capacity; j++) if (position(i) === position(j)) link(i, j);
+  } else if (shape === "round") {
+    for (let i = 0; i < capacity; i++) link(i, (i + 1) % capacity);
+  } else {
+    for (let i = 0; i + 1 < capacity; i++) link(i, i + 1);
+  }
+  return out;
+}
+
+interface SeatLayout {
+  counts: Map<ID, number>; // seats each unit takes
+  neighbours: Set<number>[];
+  pins?: Record<number, ID>; // pinned seats; units are then seated by seatUnitsAroundPins
+}
+
+/**
+ * Unit in each seat when units take consecutive seats from seat 0
+ */
+function seatUnitsInOrder(order: ID[], counts: Map<ID, number>): (ID | undefined)[] {
+  const seatOwner: ID[] = [];
+  for (const id of order) for (let i = 0; i < (counts.get(id) ?? 1); i++) seatOwner.push(id);
+  return seatOwner;
+}
+
+/**
+ * Unit in each seat of a table with pinned seats. A pinned unit starts at its pin (moved
+ * back if its party would run off the end); the others take free seats in table order,
+ * starting just after the first pinned unit so it keeps the neighbours the ordering gave it.
+ * Parties stay in consecutive seats where a long enough run is free.
+ */
+function seatUnitsAroundPins(
+  order: ID[],
+  counts: Map<ID, number>,
+  capacity: number,
+  pins: Record<number, ID>,
+): (ID | undefined)[] {
+  const seatOwner: (ID | undefined)[] = new Array(capacity).fill(undefined);
+  const size = (id: ID) => counts.get(id) ?? 1;
+  // Seats a unit from `from` onwards; returns the seat after its last one
+  const take = (id: ID, from: number): number => {
+    const n = size(id);
+    for (let k = 0; k < capacity; k++) {
+      const start = (from + k) % capacity;
+      if (start + n > capacity) continue;
+      let run = 0;
+      while (run < n && seatOwner[start + run] === undefined) run++;
+      if (run === n) {
+        for (let r = 0; r < n; r++) seatOwner[start + r] = id;
+        return (start + n) % capacity;
+      }
+    }
+    let left = n,
+      next = from;
+    for (let k = 0; k < capacity && left > 0; k++) {
+      const seat = (from + k) % capacity;
+      if (seatOwner[seat] !== undefined) continue;
+      seatOwner[seat] = id;
+      left--;
+      next = (seat + 1) % capacity;
+    }
+    return next;
+  };
+
+  const present = new Set(order);
+  const pinnedAt = new Map<ID, number>();
+  Object.entries(pins)
+    .map(([seat, id]) => [Number(seat), String(id)] as const)
+    .sort((a, b) => a[0] - b[0])
+    .forEach(([seat, id]) => {
+      if (present.has(id) && !pinnedAt.has(id)) pinnedAt.set(id, seat);
+    });
+  if (pinnedAt.size === 0 || capacity === 0) return seatUnitsInOrder(order, counts);
+
+  let afterFirst = 0;
+  const first = order.findIndex((id) => pinnedAt.has(id));
+  for (const [id, seat] of pinnedAt) {
+    const next = take(id, Math.max(0, Math.min(seat, capacity - size(id))));
+    if (id === order[first]) afterFirst = next;
+  }
+  let cursor = afterFirst;
+  for (let k = 1; k < order.length; k++) {
+    const id = order[(first + k) % order.length];
+    if (!pinnedAt.has(id)) cursor = take(id, cursor);
+  }
+  return seatOwner;
+}
+
+/**
+ * Unit pairs that end up in neighbouring seats: consecutive seats from seat 0, or around the
+ * pins when the layout has them
+ */
+function layoutNeighbourPairs(order: ID[], layout: SeatLayout): Set<string> {
+  const seatOwner = layout.pins
+    ? seatUnitsAroundPins(order, layout.counts, layout.neighbours.length, layout.pins)
+    : seatUnitsInOrder(order, layout.counts);
+  const pairs = new Set<string>();
+  seatOwner.forEach((a, seat) => {
+    if (a === undefined) return;
+    for (const other of layout.neighbours[seat] ?? []) {
+      const b = seatOwner[other];
+      if (b === undefined || b === a) continue;
+      pairs.add(String(a) < String(b) ? `${a}|${b}` : `${b}|${a}`);
+    }
+  });
+  return pairs;
+}
+
+/**
+ * Order units for a non-round table: start from the ring order, then swap units while more
+ * adjacency pairs land in neighbouring seats
+ */
+function orderTableForLayout(guestIds: ID[], localAdj: Map<ID, Set<ID>>, layout: SeatLayout): ID[] {
+  let best = orderTableCircular(guestIds, localAdj);
+  if (localAdj.size === 0) return best;
+  let bestScore = adjacencyPairsSatisfied(best, localAdj, layout);
+  let improved = true;
+  while (improved && bestScore < 1) {
+    improved = false;
+    for (let i = 0; i < best.length && !improved; i++) {
+      for (let j = i + 1; j < best.length && !improved; j++) {
+        const cand = best.slice();
+        [cand[i], cand[j]] = [cand[j], cand[i]];
+        const score = adjacencyPairsSatisfied(cand, localAdj, layout);
+        if (score > bestScore + 1e-9) {
+          best = cand;
+          bestScore = score;
+          improved = true;
+        }
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Unit pairs seated next to each other at one table ("a|b" keys, a < b). Round tables use
+ * the ring of occupied units, like adjacencyPairsSatisfied; other shapes their seat layout.
+ */
+function seatedNeighbourPairs(order: ID[], counts: Map<ID, number>, shape: TableShapeIn | undefined, capacity: number): Set<string> {
+  if (shape && shape !== "round") return layoutNeighbourPairs(order, { counts, neighbours: seatNeighbours(shape, capacity) });
+  const pairs = new Set<string>();
+  if (order.length < 2) return pairs;
+  for (let i = 0; i < order.length; i++) {
+    const a = order[i],
+      b = order[(i + 1) % order.length];
+    if (a !== b) pairs.add(String(a) < String(b) ? `${a}|${b}` : `${b}|${a}`);
+  }
+  return pairs;
+}
+
+function adjacencyPairsSatisfied(order: ID[], adj: Map<ID, Set<ID>>, layout?: SeatLayout): number {
   if (order.length < 2) return 1;
   let totalPairs = 0;
   const occupants = new Set(order),
@@ -706,6 +1159,15 @@ function adjacencyPairsSatisfied(order: ID[], adj: Map<ID, Set<ID>>): number {
     }
   if (totalPairs === 0) return 1;
 
+  if (layout) {
+    let satisfied = 0;
+    for (const k of layoutNeighbourPairs(order, layout)) {
+      const [a, b] = k.split("|");
+      if (adj.get(a)?.has(b) || adj.get(b)?.has(a)) satisfied++;
+    }
+    return satisfied / totalPairs;
+  }
+
   let satisfied = 0;
   const satPairs = new Set<string>();
   for (let i = 0; i < order.length; i++) {
@@ -752,17 +1214,35 @@ function buildPlanTables(
       const within = new Set(Array.from(adjMap.get(gid) || []).filter((v) => occ.includes(v)));
       if (within.size > 0) localAdj.set(gid, within);
     }
-    const orderedUnits = orderTableCircular(occ, localAdj);
+    const { shape, pins: allPins } = t as SafeTable;
+    const cap = getCapacity(t as any);
+    const counts = new Map(occ.map((gid) => [gid, idToGuest.get(gid)?.count ?? 1]));
+    // Pins for guests not at this table (placement can't honour every lock) are ignored
+    const pins = allPins && Object.values(allPins).some((gid) => occ.includes(gid)) ? allPins : undefined;
+    const layout: SeatLayout | undefined =
+      (shape && shape !== "round") || pins
+        ? { counts, neighbours: seatNeighbours(shape ?? "round", cap), ...(pins && { pins }) }
+        : undefined;
+    const orderedUnits = layout ? orderTableForLayout(occ, localAdj, layout) : orderTableCircular(occ, localAdj);
     const seats: any[] = [];
-    for (const uid of orderedUnits) {
-      const gu = idToGuest.get(uid)!;
-      for (let pi = 0; pi < gu.count; pi++) seats.push({ name: gu.name, partyIndex: pi });
+    if (pins) {
+      const partyIndex = new Map<ID, number>();
+      seatUnitsAroundPins(orderedUnits, counts, cap, pins).forEach((uid, seat) => {
+        if (uid === undefined) return;
+        const pi = partyIndex.get(uid) ?? 0;
+        partyIndex.set(uid, pi + 1);
+        seats.push({ name: idToGuest.get(uid)!.name, partyIndex: pi, id: uid, seat });
+      });
+    } else {
+      for (const uid of orderedUnits) {
+        const gu = idToGuest.get(uid)!;
+        for (let pi = 0; pi < gu.count; pi++) seats.push({ name: gu.name, partyIndex: pi, id: uid });
+      }
     }
     used += seats.length;
-    const sat = adjacencyPairsSatisfied(orderedUnits, localAdj);
+    const sat = adjacencyPairsSatisfied(orderedUnits, localAdj, layout);
     totalAdjSat += sat;
     totalAdjTables++;
-    const cap = getCapacity(t as any);
     const fill = cap > 0 ? seats.length / cap : 1;
     balanceSum += Math.abs(0.8 - fill);
     countNonEmpty++;
@@ -776,13 +1256,402 @@ function buildPlanTables(
   return { planTables, adjSat, capUtil, balance, byTable };
 }
 
-interface EngineOptions {
+function parseAssignedTables(raw: string | string[]): ID[] {
+  return (Array.isArray(raw) ? raw : String(raw).split(/[,\s]+/))
+    .map((t) => String(t).trim().replace(/\.$/, ""))
+    .filter(Boolean);
+}
+
+/**
+ * Deletion-based conflicting subset of the hard rules. Each rule is dropped in turn and stays
+ * out while the remaining rules still cannot be seated. Checks reuse validateAndGroup, then
+ * solveExact up to EXACT_SOLVER_MAX_GUESTS entries (a proof either way) or placeGroups with a
+ * few fixed seeds beyond that (a failure there proves nothing). The set is minimal, i.e.
+ * relaxing any rule left lets placement succeed, only when every check was exact and finished
+ * in time; otherwise it may hold rules that are not needed.
+ * Undefined when the full rule set turns out to be seatable after all.
+ */
+function explainInfeasibility(
+  guests: SafeGuest[],
+  tables: SafeTable[],
+  constr: ConstraintsPairs,
+  adj: AdjacencyPairs,
+  assignments: AssignmentsIn,
+  attemptCap: number,
+  deadline: number,
+): InfeasibilityExplanation | undefined {
+  const items: ConflictItem[] = [
+    ...constr.mustPairs.map((p): ConflictItem => ({ kind: "must", guests: [p[0], p[1]] })),
+    ...adj.pairs.map((p): ConflictItem => ({ kind: "adjacent", guests: [p[0], p[1]] })),
+    ...constr.cantPairs.map((p): ConflictItem => ({ kind: "cannot", guests: [p[0], p[1]] })),
+    ...tables.flatMap((t) =>
+      (t.rules || [])
+        .map((r, i): ConflictItem | null =>
+          r.kind === "balance" ? null : { kind: "table_rule", guests: [], tables: [t.id], ruleIndex: i },
+        )
+        .filter((x): x is ConflictItem => x !== null),
+    ),
+    ...Object.entries(assignments)
+      .map(([gid, raw]): ConflictItem => ({ kind: "assignment", guests: [gid], tables: parseAssignedTables(raw) }))
+      .filter((x) => x.tables!.length > 0),
+  ];
+  const SEEDS = 3;
+  const exact = guests.length <= EXACT_SOLVER_MAX_GUESTS;
+  let proven = exact;
+
+  // true = seated, false = cannot be seated (proven only when exact), undefined = out of time
+  const feasible = (active: ConflictItem[]): boolean | undefined => {
+    const pairs = (kind: ConflictItem["kind"]): Pair[] =>
+      active.filter((x) => x.kind === kind).map((x) => [x.guests[0], x.guests[1]]);
+    const kept = new Set(
+      active.filter((x) => x.kind === "table_rule").map((x) => `${x.tables![0]}|${x.ruleIndex}`),
+    );
+    const ts = tables.map((t) =>
+      t.rules ? { ...t, rules: t.rules.filter((_r, i) => kept.has(`${t.id}|${i}`)) } : t,
+    );
+    const asg: AssignmentsIn = {};
+    for (const x of active) if (x.kind === "assignment") asg[x.guests[0]] = x.tables!;
+    const tableRules = compileTableRules(ts, guests);
+    const { groups, errors, cantMap, adjMap } = validateAndGroup(
+      guests,
+      ts,
+      { mustPairs: pairs("must"), cantPairs: pairs("cannot"), softPairs: [] },
+      { pairs: pairs("adjacent") },
+      asg,
+      false,
+      undefined,
+      tableRules,
+      true,
+    );
+    if (errors.some((e) => e.kind !== "self_reference_ignored")) return false;
+    if (exact) {
+      // Stop at the first complete placement: the bound drops to 0 once one is found
+      let seated = false;
+      const { proven: finished } = solveExact(
+        groups,
+        ts,
+        cantMap,
+        adjMap,
+        Math.min(deadline, Date.now() + 200 * SEEDS),
+        () => 0,
+        tableRules,
+        () => (seated ? 0 : 1),
+        () => {
+          seated = true;
+          return 1;
+        },
+      );
+      return seated ? true : finished ? false : undefined;
+    }
+    for (let seed = 1; seed <= SEEDS; seed++) {
+      const checkDeadline = Math.min(deadline, Date.now() + 200);
+      const { success } = placeGroups(
+        groups,
+        ts,
+        cantMap,
+        adjMap,
+        new RNG(seed),
+        attemptCap,
+        checkDeadline,
+        undefined,
+        tableRules,
+        true,
+      );
+      if (success) return true;
+      if (Date.now() > checkDeadline) return undefined;
+    }
+    return false;
+  };
+
+  // The runs may have failed on time alone; only explain a failure the checks can reproduce
+  if (feasible(items) !== false) return undefined;
+
+  let core = items.slice();
+  for (const item of items) {
+    if (Date.now() > deadline) {
+      proven = false;
+      break;
+    }
+    const without = core.filter((x) => x !== item);
+    const result = feasible(without);
+    if (result === false) core = without;
+    else if (result === undefined) proven = false;
+  }
+  return { items: core, minimal: proven };
+}
+
+function putGroup(state: PlacementState, gi: GroupInfo, ts: TableState): void {
+  ts.remaining -= gi.size;
+  ts.occupants.push(...gi.members);
+  for (const m of gi.members) state.placed.set(m, ts.table.id);
+}
+
+function takeGroup(state: PlacementState, gi: GroupInfo, ts: TableState): void {
+  ts.remaining += gi.size;
+  const rm = new Set(gi.members);
+  ts.occupants = ts.occupants.filter((id) => !rm.has(id));
+  for (const m of gi.members) state.placed.delete(m);
+}
+
+/**
+ * Hill climbing on a complete placement: move one group to another table, or swap two groups
+ * between tables, keeping each change that raises the score. Every step passes the same
+ * allowedTables / canPlaceGroup checks as placeGroups, so must, cannot, assignment, lock and
+ * table rules hold throughout. Stops at a local optimum, after maxEvaluations scored steps,
+ * after maxSteps improving steps or at the deadline. The steps are tried in a fixed order, so
+ * a replay given the same maxSteps and no deadline ends in the same placement.
+ * Returns the number of improving steps taken.
+ */
+function improvePlacement(
+  state: PlacementState,
+  groups: GroupInfo[],
+  cantMap: Map<ID, Set<ID>>,
+  evaluate: (state: PlacementState) => number,
+  maxEvaluations: number,
+  deadline: number,
+  maxSteps = Infinity,
+): number {
+  const allowed = (gi: GroupInfo, ts: TableState) =>
+    !gi.allowedTables || gi.allowedTables.size === 0 || gi.allowedTables.has(String(ts.table.id));
+  const tableOf = (gi: GroupInfo) => {
+    const tid = state.placed.get(gi.members[0]);
+    return state.tables.find((ts) => ts.table.id === tid);
+  };
+  let current = evaluate(state);
+  let evaluations = 0;
+  let steps = 0;
+  const canContinue = () => evaluations < maxEvaluations && steps < maxSteps && Date.now() <= deadline;
+  const tryStep = (): boolean => {
+    evaluations++;
+    const score = evaluate(state);
+    if (score <= current + 1e-9) return false;
+    current = score;
+    steps++;
+    return true;
+  };
+
+  let improved = true;
+  while (improved && canContinue()) {
+    improved = false;
+
+    for (const gi of groups) {
+      const from = tableOf(gi);
+      if (!from) continue;
+      for (const to of state.tables) {
+        if (to === from || !allowed(gi, to)) continue;
+        if (!canContinue()) return steps;
+        takeGroup(state, gi, from);
+        if (canPlaceGroup(gi, to, cantMap)) {
+          putGroup(state, gi, to);
+          if (tryStep()) {
+            improved = true;
+            break;
+          }
+          takeGroup(state, gi, to);
+        }
+        putGroup(state, gi, from);
+      }
+    }
+
+    for (let i = 0; i < groups.length; i++) {
+      for (let j = i + 1; j < groups.length; j++) {
+        const a = groups[i],
+          b = groups[j];
+        const ta = tableOf(a),
+          tb = tableOf(b);
+        if (!ta || !tb || ta === tb || !allowed(a, tb) || !allowed(b, ta)) continue;
+        if (!canContinue()) return steps;
+        takeGroup(state, a, ta);
+        takeGroup(state, b, tb);
+        let swapped = false;
+        if (canPlaceGroup(a, tb, cantMap)) {
+          putGroup(state, a, tb);
+          if (canPlaceGroup(b, ta, cantMap)) {
+            putGroup(state, b, ta);
+            swapped = tryStep();
+            if (!swapped) takeGroup(state, b, ta);
+          }
+          if (!swapped) takeGroup(state, a, tb);
+        }
+        if (swapped) {
+          improved = true;
+        } else {
+          putGroup(state, a, ta);
+          putGroup(state, b, tb);
+        }
+      }
+    }
+  }
+  return steps;
+}
+
+export const EXACT_SOLVER_MAX_GUESTS = 80;
+
+// Repair ranking: below one moved head, so the score only breaks ties
+const REPAIR_SCORE_WEIGHT = 0.001;
+
+/**
+ * Branch and bound over the table of each group, in the same hardest-first order as
+ * placeGroups. `upperBound` must never underestimate the best score reachable from a partial
+ * placement; `onLeaf` scores a complete one and returns its score. Empty tables that no group
+ * can tell apart (same capacity, no rules, not assigned, not in `distinctTables`) are tried
+ * once per node. proven = the search finished before the deadline, so the best leaf is optimal.
+ */
+function solveExact(
+  groups: GroupInfo[],
+  tables: SafeTable[],
+  cantMap: Map<ID, Set<ID>>,
+  adjMap: Map<ID, Set<ID>>,
+  deadline: number,
+  affinity: (members: ID[], occupants: ID[], tableId: ID) => number,
+  tableRules: Map<ID, CompiledTableRule[]>,
+  upperBound: (state: PlacementState) => number,
+  onLeaf: (state: PlacementState) => number,
+  distinctTables: Set<ID> = new Set(),
+): { proven: boolean; nodes: number } {
+  const state: PlacementState = {
+    placed: new Map<ID, ID>(),
+    tables: tables.map((t) => ({
+      table: t,
+      remaining: getCapacity(t),
+      occupants: [] as ID[],
+      rules: tableRules.get(String(t.id)) ?? [],
+    })),
+  };
+  const put = (gi: GroupInfo, ts: TableState) => putGroup(state, gi, ts);
+  const take = (gi: GroupInfo, ts: TableState) => takeGroup(state, gi, ts);
+
+  const referenced = new Set<ID>(distinctTables);
+  for (const gi of groups) {
+    if (gi.preassignedTable) referenced.add(String(gi.preassignedTable));
+    for (const tid of gi.allowedTables ?? []) referenced.add(String(tid));
+  }
+  const symmetryClass = (ts: TableState) =>
+    ts.rules.length || referenced.has(String(ts.table.id)) ? `#${ts.table.id}` : `cap:${getCapacity(ts.table)}`;
+
+  for (const gi of groups) {
+    if (!gi.preassignedTable) continue;
+    const ts = state.tables.find((x) => String(x.table.id) === String(gi.preassignedTable));
+    // Pre-assignments are fixed, so failing here settles it: no plan exists
+    if (!ts || !canPlaceGroup(gi, ts, cantMap)) return { proven: true, nodes: 0 };
+    put(gi, ts);
+  }
+
+  let best = -Infinity;
+  let nodes = 0;
+  let timedOut = false;
+
+  const search = (idx: number): void => {
+    if (timedOut) return;
+    if ((++nodes & 255) === 0 && Date.now() > deadline) {
+      timedOut = true;
+      return;
+    }
+    if (idx >= groups.length) {
+      best = Math.max(best, onLeaf(state));
+      return;
+    }
+    const gi = groups[idx];
+    if (gi.preassignedTable && gi.members.every((m) => state.placed.has(m))) return search(idx + 1);
+    if (upperBound(state) <= best + 1e-9) return;
+
+    const partnerSet = new Set<ID>();
+    for (const m of gi.members) for (const v of adjMap.get(m) || []) partnerSet.add(v);
+    const seenEmpty = new Set<string>();
+    const candidates: { ts: TableState; score: number }[] = [];
+    for (const ts of state.tables) {
+      if (gi.allowedTables && gi.allowedTables.size > 0 && !gi.allowedTables.has(String(ts.table.id))) continue;
+      if (!canPlaceGroup(gi, ts, cantMap)) continue;
+      if (ts.occupants.length === 0) {
+        const cls = symmetryClass(ts);
+        if (seenEmpty.has(cls)) continue;
+        seenEmpty.add(cls);
+      }
+      let overlap = 0;
+      for (const occ of ts.occupants) if (partnerSet.has(occ)) overlap++;
+      candidates.push({ ts, score: overlap * 10 + affinity(gi.members, ts.occupants, String(ts.table.id)) - (ts.remaining - gi.size) });
+    }
+    // Most promising table first so good plans tighten the bound early
+    candidates.sort((a, b) => b.score - a.score || String(a.ts.table.id).localeCompare(String(b.ts.table.id)));
+
+    for (const { ts } of candidates) {
+      put(gi, ts);
+      search(idx + 1);
+      take(gi, ts);
+      if (timedOut) return;
+    }
+  };
+
+  search(0);
+  return { proven: !timedOut, nodes };
+}
+
+export interface EngineOptions {
   seed?: number;
   timeBudgetMs?: number;
   targetPlans?: number;
   maxAttemptsPerRun?: number;
   runsMultiplier?: number;
-  weights?: { adj: number; util: number; balance: number };
+  weights?: { adj: number; util: number; balance: number; soft?: number; tags?: number };
+  preferenceWeights?: PreferenceWeightsMap; // strength of each prefer/avoid pair (default 1)
+  tagGroups?: TagGroupIn[];
+  solver?: "heuristic" | "exact"; // exact = branch and bound, for events up to EXACT_SOLVER_MAX_GUESTS
+  localSearch?: boolean; // heuristic only: improve each run's placement with moves and swaps
+  baseline?: Record<string, ID>; // repair: guest id -> table id in the plan to stay close to
+  replaySeed?: number; // run exactly once with this run seed (rebuilds a plan from its seedUsed)
+  replaySteps?: number; // with replaySeed: local search steps to repeat (the plan's improvementSteps)
+}
+
+export interface EngineProgress {
+  runsCompleted: number;
+  maxRuns: number;
+  plansFound: number;
+  targetPlans: number;
+  bestScore: number | null;
+  elapsedMs: number;
+  timeBudgetMs: number;
+}
+
+export interface EngineHooks {
+  onProgress?: (progress: EngineProgress) => void;
+}
+
+type ResolvedEngineOptions = Required<Omit<EngineOptions, "replaySeed" | "replaySteps" | "preferenceWeights" | "tagGroups" | "weights" | "baseline">> & {
+  weights: Required<NonNullable<EngineOptions["weights"]>>;
+};
+
+export function getDefaultEngineOptions(isPremium: boolean = false): ResolvedEngineOptions {
+  return {
+    seed: 12345,
+    timeBudgetMs: isPremium ? 3500 : 1500,
+    targetPlans: isPremium ? 30 : 10,
+    maxAttemptsPerRun: 7500,
+    runsMultiplier: 3,
+    weights: { adj: 0.6, util: 0.3, balance: 0.1, soft: 0.4, tags: 0.4 },
+    solver: "heuristic",
+    localSearch: false,
+  };
+}
+
+function resolveEngineOptions(isPremium: boolean, options: EngineOptions = {}): ResolvedEngineOptions {
+  const base = getDefaultEngineOptions(isPremium);
+  const num = (v: unknown, fallback: number) => (typeof v === "number" && Number.isFinite(v) ? v : fallback);
+  return {
+    seed: num(options.seed, base.seed) >>> 0,
+    timeBudgetMs: Math.max(1, num(options.timeBudgetMs, base.timeBudgetMs)),
+    targetPlans: Math.max(1, Math.floor(num(options.targetPlans, base.targetPlans))),
+    maxAttemptsPerRun: Math.max(1, Math.floor(num(options.maxAttemptsPerRun, base.maxAttemptsPerRun))),
+    runsMultiplier: Math.max(1, num(options.runsMultiplier, base.runsMultiplier)),
+    weights: {
+      adj: Math.max(0, num(options.weights?.adj, base.weights.adj)),
+      util: Math.max(0, num(options.weights?.util, base.weights.util)),
+      balance: Math.max(0, num(options.weights?.balance, base.weights.balance)),
+      soft: Math.max(0, num(options.weights?.soft, base.weights.soft)),
+      tags: Math.max(0, num(options.weights?.tags, base.weights.tags)),
+    },
+    solver: options.solver === "exact" ? "exact" : base.solver,
+    localSearch: typeof options.localSearch === "boolean" ? options.localSearch : base.localSearch,
+  };
 }
 
 export async function generateSeatingPlans(
@@ -792,22 +1661,118 @@ export async function generateSeatingPlans(
   appAdjacents: AdjRecord,
   appAssignments: AssignmentsIn = {},
   isPremium: boolean = false,
+  options: EngineOptions = {},
+  hooks: EngineHooks = {},
 ): Promise<GenerateReturn> {
   const start = Date.now();
-  const defaults: Required<EngineOptions> = {
-    seed: 12345,
-    timeBudgetMs: isPremium ? 3500 : 1500,
-    targetPlans: isPremium ? 30 : 10,
-    maxAttemptsPerRun: 7500,
-    runsMultiplier: 3,
-    weights: { adj: 0.6, util: 0.3, balance: 0.1 },
-  };
+  const opts = resolveEngineOptions(isPremium, options);
 
   const { guests, errors: gErr } = normalizeGuests(appGuests);
   const { tables, errors: tErr } = normalizeTables(appTables);
 
-  const constr = toPairsFromConstraints(appConstraints);
+  const constr = toPairsFromConstraints(appConstraints, options.preferenceWeights);
   const adj = toPairsFromAdj(appAdjacents);
+  const softMap = buildSoftMap(constr.softPairs);
+  const tagGroups = (options.tagGroups || []).filter((tg) => tg && Array.isArray(tg.members) && tg.members.length > 1);
+  const tagMembership = buildTagMembership(tagGroups);
+  const tableRules = compileTableRules(tables, guests);
+  const heads = new Map<ID, number>(guests.map((g) => [g.id, g.count]));
+
+  // Soft preferences, tag rules and balance table rules nudge the table order but never rule
+  // a table out
+  const affinity = (members: ID[], occupants: ID[], tableId: ID): number => {
+    let a = 0;
+    for (const r of tableRules.get(tableId) || []) {
+      if (r.kind !== "balance" || r.bucketCount < 2) continue;
+      // Prefer adding guests to whichever bucket the table is short of
+      const counts = bucketHeads(r, occupants, heads);
+      const fewest = Math.min(...counts);
+      for (const m of members) {
+        const b = r.buckets.get(m);
+        if (b !== undefined) a += 3 * (fewest - counts[b]);
+      }
+    }
+    for (const m of members) {
+      const prefs = softMap.get(m);
+      const rules = tagMembership.get(m);
+      if (!prefs && !rules) continue;
+      for (const occ of occupants) {
+        if (prefs) a += (prefs.get(occ) ?? 0) * 10;
+        const occRules = rules && tagMembership.get(occ);
+        if (occRules) for (const r of rules!) if (occRules.has(r)) a += tagGroups[r].mode === "group" ? 3 : -3;
+      }
+    }
+    return a;
+  };
+
+  // Among equally hard groups: soft-preference groups first so their preferred tablemates are
+  // still placeable when they arrive, then tag-rule members bunched by rule so a "group" rule
+  // fills tables one tag at a time.
+  const softDegree = (gi: { members: ID[] }) =>
+    gi.members.reduce((n, m) => n + (softMap.get(m)?.size ?? 0), 0);
+  const firstTagGroup = (gi: { members: ID[] }) =>
+    gi.members.reduce((best, m) => Math.min(best, ...(tagMembership.get(m) ?? [])), Number.MAX_SAFE_INTEGER);
+  const placementTieBreak = (a: { members: ID[] }, b: { members: ID[] }) =>
+    softDegree(b) - softDegree(a) || firstTagGroup(a) - firstTagGroup(b);
+
+  // Exact solver bound: every term at its best still reachable from a partial placement.
+  // Adjacency and table balance are only known once a plan is complete, so they count as 1.
+  const guestIdSet = new Set(guests.map((g) => g.id));
+  const totalHeads = guests.reduce((n, g) => n + g.count, 0);
+  const totalCapacity = tables.reduce((n, t) => n + getCapacity(t), 0);
+  const knownSoftPairs = constr.softPairs.filter((p) => guestIdSet.has(p.a) && guestIdSet.has(p.b));
+  const softWeightTotal = knownSoftPairs.reduce((n, p) => n + Math.abs(p.weight), 0);
+  const knownTagGroups = tagGroups.map((tg) => ({
+    mode: tg.mode,
+    members: tg.members.map(String).filter((id) => guestIdSet.has(id)),
+  }));
+  const hasBalanceRules = Array.from(tableRules.values()).some((rs) =>
+    rs.some((r) => r.kind === "balance" && r.bucketCount >= 2),
+  );
+  const exactUpperBound = (state: PlacementState): number => {
+    const w = opts.weights;
+    const capUtil = totalCapacity > 0 ? totalHeads / totalCapacity : 1;
+    // Fill only grows, so a table already past the 80% target keeps at least that deviation
+    let over = 0;
+    for (const ts of state.tables) {
+      const cap = getCapacity(ts.table);
+      if (cap > 0) over += Math.max(0, (cap - ts.remaining) / cap - 0.8);
+    }
+    const balance = 1 - over / Math.max(1, state.tables.length);
+    let lost = 0;
+    for (const p of knownSoftPairs) {
+      const ta = state.placed.get(p.a),
+        tb = state.placed.get(p.b);
+      if (ta !== undefined && tb !== undefined && (ta === tb) !== p.weight > 0) lost += Math.abs(p.weight);
+    }
+    const softSat = softWeightTotal > 0 ? 1 - lost / softWeightTotal : 1;
+    let tagSum = 0;
+    for (const tg of knownTagGroups) {
+      const used = new Set<ID>();
+      let placedCount = 0;
+      for (const id of tg.members) {
+        const tid = state.placed.get(id);
+        if (tid === undefined) continue;
+        used.add(tid);
+        placedCount++;
+      }
+      const n = tg.members.length;
+      if (tg.mode === "group") tagSum += n > 1 ? (n - Math.max(1, used.size)) / (n - 1) : 1;
+      else {
+        const best = Math.min(n, usableTables);
+        const reachable = Math.min(best, used.size + (n - placedCount));
+        tagSum += best > 1 ? (reachable - 1) / (best - 1) : 1;
+      }
+    }
+    const softWeight = knownSoftPairs.length > 0 ? w.soft : 0;
+    const tagWeight = tagGroups.length > 0 ? w.tags : 0;
+    const sum = w.adj + w.util * capUtil + w.balance * balance + softWeight * softSat +
+      tagWeight * (tagGroups.length > 0 ? tagSum / tagGroups.length : 0);
+    const weightSum = w.adj + w.util + w.balance + softWeight + tagWeight;
+    const without = weightSum > 0 ? sum / weightSum : 0;
+    // Whether a balance term joins the mean depends on the final plan: take the better case
+    return hasBalanceRules ? Math.max(without, (sum + w.tags) / (weightSum + w.tags)) : without;
+  };
 
   const initialErrors = [...gErr, ...tErr];
 
@@ -818,6 +1783,8 @@ export async function generateSeatingPlans(
     adj,
     appAssignments,
     isPremium,
+    placementTieBreak,
+    tableRules,
   );
 
   const allErrors = [...initialErrors, ...vErr];
@@ -832,11 +1799,17 @@ export async function generateSeatingPlans(
     return { plans: [], errors: fatal };
   }
 
-  const rngBase = new RNG(defaults.seed);
-  const deadline = start + defaults.timeBudgetMs;
+  const rngBase = new RNG(opts.seed);
+  const deadline = start + opts.timeBudgetMs;
+  const usableTables = tables.filter((t) => getCapacity(t) > 0).length;
 
   const bestByKey = new Map<number, SeatingPlanOut>();
-  const maxRuns = Math.max(defaults.targetPlans * defaults.runsMultiplier, defaults.targetPlans + 5);
+  const isReplay = typeof options.replaySeed === "number" && Number.isFinite(options.replaySeed);
+  const replaySteps =
+    isReplay && typeof options.replaySteps === "number" && options.replaySteps >= 0
+      ? Math.floor(options.replaySteps)
+      : undefined;
+  const maxRuns = isReplay ? 1 : Math.max(opts.targetPlans * opts.runsMultiplier, opts.targetPlans + 5);
 
   const hashOccupants = (byTable: Map<ID, ID[]>): number => {
     let h = 0;
@@ -850,12 +1823,165 @@ export async function generateSeatingPlans(
     return h | 0;
   };
 
-  for (let run = 0; run < maxRuns; run++) {
-    if (Date.now() > deadline || bestByKey.size >= defaults.targetPlans) break;
+  const scorePlacement = (state: PlacementState): { key: number; plan: SeatingPlanOut } => {
+    const { planTables, adjSat, capUtil, balance, byTable } = buildPlanTables(
+      state,
+      tables,
+      ctx.idToGuest as any,
+      adjMap,
+    );
+    const soft = softPreferenceStats(constr.softPairs, state.placed);
+    const tagSat = tagGroupSatisfaction(tagGroups, state.placed, usableTables);
+    const tableBalance = tableBalanceSatisfaction(tableRules, byTable, heads);
+    const w = opts.weights;
+    // Weighted mean; the soft and tag terms only count when the event has preferences or
+    // rules, so plain events keep their existing scores. Balance table rules share the tag weight.
+    const softWeight = soft.total > 0 ? w.soft : 0;
+    const tagWeight = tagSat !== undefined ? w.tags : 0;
+    const tableWeight = tableBalance !== undefined ? w.tags : 0;
+    const weightSum = w.adj + w.util + w.balance + softWeight + tagWeight + tableWeight;
+    const score = weightSum > 0
+      ? (w.adj * adjSat + w.util * capUtil + w.balance * balance + softWeight * soft.satisfaction +
+          tagWeight * (tagSat ?? 0) + tableWeight * (tableBalance ?? 0)) / weightSum
+      : 0;
+    return {
+      key: hashOccupants(byTable),
+      plan: {
+        tables: planTables,
+        score,
+        adjacencySatisfaction: adjSat,
+        capacityUtilization: capUtil,
+        balance,
+        softSatisfaction: soft.satisfaction,
+        softPreferencesHonoured: soft.honoured,
+        softPreferencesTotal: soft.total,
+        tagRuleSatisfaction: tagSat,
+        tableBalance,
+      },
+    };
+  };
+
+  let bestScore: number | null = null;
+  const reportProgress = (runsCompleted: number, runsPlanned: number = maxRuns) => {
+    if (!hooks.onProgress) return;
+    hooks.onProgress({
+      runsCompleted,
+      maxRuns: Math.ceil(runsPlanned),
+      plansFound: bestByKey.size,
+      targetPlans: isReplay ? 1 : opts.targetPlans,
+      bestScore,
+      elapsedMs: Date.now() - start,
+      timeBudgetMs: opts.timeBudgetMs,
+    });
+  };
+
+  // Keep the targetPlans best complete placements seen, ranked by value (the score unless
+  // repairing)
+  const planValue = new Map<number, number>();
+  const keepIfBest = (key: number, plan: SeatingPlanOut, value: number): boolean => {
+    if (bestByKey.has(key)) {
+      if ((planValue.get(key) ?? -Infinity) >= value) return false;
+    } else if (bestByKey.size >= opts.targetPlans) {
+      let worstKey: number | undefined;
+      let worst = Infinity;
+      for (const [k, v] of planValue) if (v < worst) { worst = v; worstKey = k; }
+      if (value <= worst) return false;
+      bestByKey.delete(worstKey!);
+      planValue.delete(worstKey!);
+    }
+    bestByKey.set(key, plan);
+    planValue.set(key, value);
+    return true;
+  };
+
+  // Repair: stay as close as possible to a baseline plan. Fewer moved heads always wins; the
+  // usual score only separates plans that move the same number of people.
+  const baseline = options.baseline && !isReplay
+    ? new Map(Object.entries(options.baseline).map(([gid, tid]) => [String(gid), String(tid)]))
+    : undefined;
+  const movedHeads = (state: PlacementState): number => {
+    let n = 0;
+    for (const [gid, tid] of state.placed) {
+      const was = baseline?.get(gid);
+      if (was !== undefined && was !== String(tid)) n += heads.get(gid) ?? 1;
+    }
+    return n;
+  };
+  const repairValue = (state: PlacementState, score: number) => -movedHeads(state) + REPAIR_SCORE_WEIGHT * score;
+  const repairAffinity = (members: ID[], occupants: ID[], tableId: ID): number =>
+    members.reduce((n, m) => n + (baseline?.get(m) === tableId ? 1000 : 0), 0) + affinity(members, occupants, tableId);
+
+  let exactProven: boolean | undefined;
+  if (baseline) {
+    exactProven = solveExact(
+      groups,
+      tables,
+      cantMap,
+      adjMap,
+      // Leave time for the heuristic fallback if the search finds nothing
+      start + Math.floor(opts.timeBudgetMs * 0.6),
+      repairAffinity,
+      tableRules,
+      // Moves only grow as groups are placed
+      (state) => -movedHeads(state) + REPAIR_SCORE_WEIGHT,
+      (state) => {
+        const { key, plan } = scorePlacement(state);
+        const value = repairValue(state, plan.score ?? 0);
+        if (keepIfBest(key, { ...plan, solver: "repair" }, value) && (bestScore === null || (plan.score ?? 0) > bestScore)) {
+          bestScore = plan.score ?? 0;
+          reportProgress(0, 1);
+        }
+        return value;
+      },
+      new Set(baseline.values()),
+    ).proven;
+    if (bestByKey.size === 0 && !exactProven) exactProven = undefined;
+  } else if (opts.solver === "exact" && !isReplay) {
+    if (guests.length > EXACT_SOLVER_MAX_GUESTS) {
+      allErrors.push({
+        kind: "exact_solver_too_large",
+        message: `Exact mode handles up to ${EXACT_SOLVER_MAX_GUESTS} guest entries; used the standard search instead.`,
+      });
+    } else {
+      exactProven = solveExact(
+        groups,
+        tables,
+        cantMap,
+        adjMap,
+        // Same split as repair: keep the rest of the budget for the heuristic
+        start + Math.floor(opts.timeBudgetMs * 0.6),
+        affinity,
+        tableRules,
+        exactUpperBound,
+        (state) => {
+          const { key, plan } = scorePlacement(state);
+          const score = plan.score ?? 0;
+          if (!keepIfBest(key, { ...plan, solver: "exact" }, score)) return score;
+          if (bestScore === null || score > bestScore) {
+            bestScore = score;
+            reportProgress(0, 1);
+          }
+          return score;
+        },
+      ).proven;
+      if (bestByKey.size === 0 && !exactProven) exactProven = undefined;
+    }
+  }
+
+  let runsCompleted = 0;
+  for (let run = 0; exactProven === undefined && run < maxRuns; run++) {
+    // A repair keeps searching for fewer moves until the deadline
+    if (Date.now() > deadline || (!baseline && bestByKey.size >= opts.targetPlans)) break;
+    if (runsCompleted > 0) reportProgress(runsCompleted);
+    runsCompleted++;
 
-    const seedOffset = rngBase.nextU32();
+    // Replay gets the whole budget: the original run finished inside its slice, so the
+    // same seed walks the same search path and a longer deadline cannot change the result.
+    const seedOffset = isReplay ? options.replaySeed! >>> 0 : rngBase.nextU32();
     const rng = new RNG(seedOffset);
-    const runDeadline = Math.min(deadline, Date.now() + Math.max(60, Math.floor(defaults.timeBudgetMs / maxRuns)));
+    const runDeadline = isReplay
+      ? deadline
+      : Math.min(deadline, Date.now() + Math.max(60, Math.floor(opts.timeBudgetMs / maxRuns)));
 
     const { success, state, attempts } = placeGroups(
       groups,
@@ -863,38 +1989,75 @@ export async function generateSeatingPlans(
       cantMap,
       adjMap,
       rng,
-      defaults.maxAttemptsPerRun,
+      opts.maxAttemptsPerRun,
       runDeadline,
+      baseline ? repairAffinity : affinity,
+      tableRules,
     );
 
     if (!success) continue;
 
-    const { planTables, adjSat, capUtil, balance, byTable } = buildPlanTables(
-      state as any,
-      tables,
-      ctx.idToGuest as any,
-      adjMap,
-    );
-
-    const key = hashOccupants(byTable);
-    const score = defaults.weights.adj * adjSat + defaults.weights.util * capUtil + defaults.weights.balance * balance;
+    // A replay repeats the recorded number of steps instead of racing the clock
+    const improvementSteps = opts.localSearch
+      ? improvePlacement(
+          state,
+          groups,
+          cantMap,
+          (s) => scorePlacement(s).plan.score ?? 0,
+          opts.maxAttemptsPerRun,
+          replaySteps !== undefined
+            ? Infinity
+            : // An even share of the budget so one large event still yields several plans
+              Math.min(deadline, Date.now() + Math.floor(opts.timeBudgetMs / opts.targetPlans)),
+          replaySteps,
+        )
+      : undefined;
+
+    const { key, plan } = scorePlacement(state);
+    const score = plan.score ?? 0;
+
+    if (baseline) {
+      // No seedUsed: a replay runs without the baseline, so it would not rebuild this plan
+      if (keepIfBest(key, { ...plan, solver: "repair", attemptsUsed: attempts }, repairValue(state, score)))
+        if (bestScore === null || score > bestScore) bestScore = score;
+      continue;
+    }
 
     const prev = bestByKey.get(key);
     if (prev && (prev.score ?? 0) >= score) continue;
 
+    if (bestScore === null || score > bestScore) bestScore = score;
     bestByKey.set(key, {
-      tables: planTables,
-      score,
-      adjacencySatisfaction: adjSat,
-      capacityUtilization: capUtil,
-      balance,
+      ...plan,
       seedUsed: seedOffset,
       attemptsUsed: attempts,
+      ...(improvementSteps !== undefined && { improvementSteps }),
     });
   }
 
-  const plans = Array.from(bestByKey.values()).sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
-  return { plans, errors: allErrors };
+  const rank = (key: number, plan: SeatingPlanOut) => planValue.get(key) ?? plan.score ?? 0;
+  const plans = Array.from(bestByKey.entries())
+    .sort(([ka, a], [kb, b]) => rank(kb, b) - rank(ka, a))
+    .map(([, plan]) => plan);
+  if (exactProven !== undefined) {
+    if (plans.length > 0) plans[0].provenOptimal = exactProven;
+    reportProgress(1, 1);
+  } else {
+    reportProgress(runsCompleted);
+  }
+  if (plans.length > 0 || isReplay) return { plans, errors: allErrors };
+
+  // Every run failed without a validation error: find which hard rules collide
+  const infeasibility = explainInfeasibility(
+    guests,
+    tables,
+    constr,
+    adj,
+    appAssignments,
+    opts.maxAttemptsPerRun,
+    Date.now() + Math.min(3000, Math.max(500, opts.timeBudgetMs)),
+  );
+  return { plans, errors: allErrors, infeasibility };
 }
 
 export function detectConstraintConflicts(
@@ -908,10 +2071,109 @@ export function detectConstraintConflicts(
   const { tables, errors: tErr } = normalizeTables(tablesIn);
   const constrPairs = toPairsFromConstraints(constraints);
   const adjPairs = toPairsFromAdj(adjacents);
-  const { errors: vErr } = validateAndGroup(guests, tables, constrPairs, adjPairs, assignments);
+  const { errors: vErr } = validateAndGroup(
+    guests,
+    tables,
+    constrPairs,
+    adjPairs,
+    assignments,
+    false,
+    undefined,
+    compileTableRules(tables, guests),
+  );
   return [...gErr, ...tErr, ...vErr];
 }
 
+/**
+ * Conflicts in a finished seating, e.g. one edited by hand. `seating` maps table id → guest
+ * ids in seat order. Runs the pre-generation validation with every guest pinned to the
+ * table they sit at (so split MUST / adjacent groups surface as assignment_conflict), then
+ * the checks placement normally guarantees: capacity, CANNOT pairs, max/only table rules
+ * and adjacent pairs seated side by side.
+ */
+export function detectSeatingConflicts(
+  guestsIn: GuestUnit[],
+  tablesIn: TableIn[],
+  constraints: ConstraintsMap,
+  adjacents: AdjRecord,
+  seating: Record<string, string[]>,
+): ValidationError[] {
+  const { guests, errors: gErr } = normalizeGuests(guestsIn);
+  const { tables, errors: tErr } = normalizeTables(tablesIn);
+  const constrPairs = toPairsFromConstraints(constraints);
+  const adjPairs = toPairsFromAdj(adjacents);
+  const tableRules = compileTableRules(tables, guests);
+  const tableIds = new Set(tables.map((t) => t.id));
+
+  const pinned: AssignmentsIn = {};
+  for (const [tid, ids] of Object.entries(seating)) {
+    if (!tableIds.has(String(tid))) continue;
+    for (const id of ids) pinned[String(id)] = String(tid);
+  }
+
+  const { errors: vErr } = validateAndGroup(guests, tables, constrPairs, adjPairs, pinned, false, undefined, tableRules, true);
+  // Table rules are checked per table below, against everyone seated there
+  const errors: ValidationError[] = [...gErr, ...tErr, ...vErr.filter((e) => e.kind !== "table_rule_conflict")];
+
+  const counts = new Map(guests.map((g) => [g.id, g.count]));
+  for (const t of tables) {
+    const ids = (seating[t.id] ?? []).map(String).filter((id) => counts.has(id));
+    const heads = ids.reduce((sum, id) => sum + (counts.get(id) ?? 0), 0);
+    if (heads > t.capacity)
+      errors.push({
+        kind: "table_over_capacity",
+        message: `${t.name} has ${heads} guests for ${t.capacity} seats`,
+        details: { table: t.id, heads, capacity: t.capacity },
+      });
+    const rules = tableRules.get(t.id);
+    if (rules && ids.length > 0 && !tableRulesAllow(rules, ids, []))
+      errors.push({
+        kind: "table_rule_conflict",
+        message: `${t.name} breaks one of its table rules`,
+        details: { table: t.id, group: ids },
+      });
+  }
+
+  const pairKey = (a: ID, b: ID) => (String(a) < String(b) ? `${a}|${b}` : `${b}|${a}`);
+  const reported = new Set<string>();
+  for (const [a, b] of constrPairs.cantPairs.map((p) => [p[0], p[1]])) {
+    if (reported.has(`cant|${pairKey(a, b)}`)) continue;
+    reported.add(`cant|${pairKey(a, b)}`);
+    if (pinned[a] !== undefined && pinned[a] === pinned[b])
+      errors.push({
+        kind: "cant_seated_together",
+        message: `CANNOT pair seated together: ${a}-${b}`,
+        details: { guests: [a, b], table: pinned[a] },
+      });
+  }
+
+  const neighboursByTable = new Map<ID, Set<string>>();
+  for (const t of tables)
+    neighboursByTable.set(
+      t.id,
+      seatedNeighbourPairs((seating[t.id] ?? []).map(String), counts, t.shape, t.capacity),
+    );
+  for (const [a, b] of adjPairs.pairs.map((p) => [p[0], p[1]])) {
+    const tid = pinned[a];
+    if (tid === undefined || tid !== pinned[b]) continue; // split pairs are reported as assignment conflicts
+    const key = pairKey(a, b);
+    if (reported.has(`adj|${key}`)) continue;
+    reported.add(`adj|${key}`);
+    if (!neighboursByTable.get(String(tid))?.has(key))
+      errors.push({
+        kind: "adjacent_not_side_by_side",
+        message: `Adjacent pair not seated side by side: ${a}-${b}`,
+        details: { guests: [a, b], table: tid },
+      });
+  }
+
+  for (const g of guests)
+    if (pinned[g.id] === undefined)
+      errors.push({ kind: "guest_not_seated", message: `Guest not seated: ${g.id}`, details: { guests: [g.id] } });
+
+  return errors;
+}
+
 export function detectAdjacentPairingConflicts(
   guests: GuestUnit[],
   adjacents: AdjRecord,
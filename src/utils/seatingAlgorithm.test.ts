@@ -3,17 +3,25 @@
  * Tests the axiomatic logic as specified in the SSoT
  */
 
-import { detectAdjacentPairingConflicts, detectConstraintConflicts } from './seatingAlgorithm';
-import { Guest, Table } from '../types';
-
-// Mock data for testing
-const createTestTables = (seats: number[]): Table[] => {
-  return seats.map((seats, index) => ({ id: index + 1, seats }));
-};
-
-const createTestGuests = (names: string[], counts: number[]): Guest[] => {
-  return names.map((name, index) => ({ name, count: counts[index] || 1 }));
-};
+import { detectAdjacentPairingConflicts, detectConstraintConflicts, detectPlanConflicts, generateSeatingPlans, getDefaultGenerationOptions } from './seatingAlgorithm';
+import { sanitizeGenerationOptions } from './persistence';
+import { resolveTagRuleMembers } from './guestTags';
+import { describeTableRule, sanitizeTableRules } from './tableRules';
+import { EXACT_SOLVER_MAX_GUESTS } from './seatingAlgorithm.engine';
+import { testPlanMetrics } from './planMetrics.test';
+import { testPlanDiff } from './planDiff.test';
+import { testPrintCards } from './printCards.test';
+import { testPdfExport } from './pdfExport.test';
+import { testGuestLookup } from './guestLookup.test';
+import { testSettingsImport } from './importSettings.test';
+import { testGuestImport } from './guestImport.test';
+import { testXlsx } from './xlsx.test';
+import { testBulkGuestTags } from './guestTags.test';
+import { testHistory } from './history.test';
+import { testFloorPlan } from './floorPlan.test';
+import { testSeatingWorker } from '../workers/seatingWorker.test';
+import { Constraints, SeatingPlan } from '../types';
+import { createSolverGuests, createTestGuests, createTestTables, planOf, setPair, tableOf } from './testFixtures';
 
 // Test suite for detectAdjacentPairingConflicts - Axiom Tests
 const testAxiomTests = () => {
@@ -156,12 +164,421 @@ const testSelfReferenceBugFix = () => {
   console.log('✅ Self-reference bug fix test passed!');
 };
 
+const createSolverFixture = (guestCount: number) => {
+  const guests = createSolverGuests(guestCount);
+  const constraints: Constraints = {};
+  setPair(constraints, 'g1', 'g2', 'prefer');
+  setPair(constraints, 'g2', 'g7', 'prefer');
+  setPair(constraints, 'g3', 'g4', 'avoid');
+  setPair(constraints, 'g5', 'g6', 'cannot');
+  return {
+    guests,
+    tables: createTestTables([6, 6, 6]),
+    constraints,
+    adjacents: { g1: ['g8'], g8: ['g1'] },
+    assignments: {},
+    isPremium: false,
+    tagRules: [{ id: 'rule-1', tag: 'side:', mode: 'group' as const }],
+  };
+};
+
+// Guest names per table, for comparing two plans seat by seat
+const seatingOf = (plan: SeatingPlan) => JSON.stringify(plan.tables.map(t => t.seats.map(s => s.name)));
+
+// Test that generation options and score weights reach the engine
+const testGenerationOptions = async () => {
+  const guests = createSolverGuests(12);
+  const constraints: Constraints = {};
+  setPair(constraints, 'g5', 'g6', 'cannot');
+  const input = { guests, tables: createTestTables([6, 6, 6]), constraints, adjacents: { g1: ['g8'], g8: ['g1'] }, assignments: {}, isPremium: false };
+  const options = { seed: 5, timeBudgetMs: 500, targetPlans: 3 };
+  const first = await generateSeatingPlans({ ...input, options });
+  const again = await generateSeatingPlans({ ...input, options });
+  console.assert(first.plans.length > 0 && first.plans.length <= 3, 'targetPlans should cap the plans returned');
+  console.assert(first.plans.map(seatingOf).join() === again.plans.map(seatingOf).join(), 'The same seed should give the same plans');
+  console.assert(first.plans.every((p, i) => i === 0 || (first.plans[i - 1].score ?? 0) >= (p.score ?? 0)), 'Plans should be ranked by score');
+
+  // With only balance weighted, the score is the balance
+  const balanced = await generateSeatingPlans({ ...input, options: { ...options, weights: { adj: 0, util: 0, balance: 1 } } });
+  console.assert(balanced.plans.every(p => p.score !== undefined && Math.abs(p.score - (p.balance ?? 0)) < 1e-9), 'Weights should decide the score');
+
+  const free = getDefaultGenerationOptions(false);
+  const premium = getDefaultGenerationOptions(true);
+  console.assert(premium.timeBudgetMs >= free.timeBudgetMs && premium.targetPlans >= free.targetPlans, 'Premium defaults should not be smaller');
+  const stored = sanitizeGenerationOptions({ seed: -1, timeBudgetMs: 800, weights: { adj: 1, util: 2, balance: 0, soft: -3, tags: 4 }, solver: 'magic' });
+  console.assert(stored.seed === undefined && stored.timeBudgetMs === 800 && stored.solver === undefined, 'Stored options should drop invalid values');
+  console.assert(stored.weights?.util === 2 && stored.weights.soft === undefined && stored.weights.tags === 4, 'Stored weights should keep only valid terms');
+  console.assert(sanitizeGenerationOptions({ weights: { adj: 1, util: -2, balance: 1 } }).weights === undefined, 'Weights need every base term');
+
+  console.log('✅ Generation option tests passed!');
+};
+
+// Test that each plan records the seed that rebuilds it
+const testSeedReplay = async () => {
+  const guests = createSolverGuests(12);
+  const constraints: Constraints = {};
+  setPair(constraints, 'g5', 'g6', 'cannot');
+  const input = { guests, tables: createTestTables([6, 6, 6]), constraints, adjacents: { g1: ['g8'], g8: ['g1'] }, assignments: {}, isPremium: false };
+  const { plans } = await generateSeatingPlans({ ...input, options: { seed: 9, timeBudgetMs: 500, targetPlans: 4 } });
+  console.assert(plans.length > 1 && plans.every(p => typeof p.seedUsed === 'number' && typeof p.attemptsUsed === 'number'), 'Plans should carry their seed and attempts');
+  console.assert(new Set(plans.map(p => p.seedUsed)).size === plans.length, 'Each plan should have its own seed');
+  for (const plan of plans) {
+    const replay = await generateSeatingPlans({ ...input, options: { seed: 1, timeBudgetMs: 500, replaySeed: plan.seedUsed } });
+    console.assert(replay.plans.length === 1 && seatingOf(replay.plans[0]) === seatingOf(plan), 'Replaying a seed should rebuild the plan whatever the base seed');
+    console.assert(replay.plans[0].seedUsed === plan.seedUsed, 'A replayed plan should keep its seed');
+  }
+
+  console.log('✅ Seed replay tests passed!');
+};
+
+// Test that prefer / avoid pairs are scored by their strength
+const testSoftConstraints = async () => {
+  const guests = createSolverGuests(4).map(g => ({ ...g, count: 1 }));
+  const constraints: Constraints = {};
+  setPair(constraints, 'g1', 'g2', 'prefer');
+  setPair(constraints, 'g1', 'g3', 'prefer');
+  const input = { guests, tables: createTestTables([2, 2]), constraints, adjacents: {}, assignments: {}, isPremium: false, options: { timeBudgetMs: 300 } };
+  const preferenceWeights = { g1: { g2: 3 }, g2: { g1: 3 } };
+
+  // Guest 1 can sit with only one of them: pin each choice and compare
+  const strong = (await generateSeatingPlans({ ...input, preferenceWeights, assignments: { g1: '1', g2: '1' } })).plans[0];
+  const weak = (await generateSeatingPlans({ ...input, preferenceWeights, assignments: { g1: '1', g3: '1' } })).plans[0];
+  console.assert(tableOf(strong, 'Guest 1') === tableOf(strong, 'Guest 2') && tableOf(weak, 'Guest 1') === tableOf(weak, 'Guest 3'), 'Pinned guests should share a table');
+  console.assert(strong.softPreferencesHonoured === 1 && strong.softPreferencesTotal === 2, 'Honoured preferences should be counted');
+  console.assert(Math.abs((strong.softSatisfaction ?? 0) - 0.75) < 1e-9 && Math.abs((weak.softSatisfaction ?? 0) - 0.25) < 1e-9, 'Satisfaction should be weighted by strength');
+  console.assert((strong.score ?? 0) > (weak.score ?? 0), 'The stronger preference should score higher');
+
+  const apart: Constraints = {};
+  setPair(apart, 'g1', 'g2', 'avoid');
+  const { plans } = await generateSeatingPlans({ ...input, constraints: apart });
+  console.assert(tableOf(plans[0], 'Guest 1') !== tableOf(plans[0], 'Guest 2') && plans[0].softSatisfaction === 1, 'The best plan should keep an avoided pair apart');
+
+  console.log('✅ Soft constraint tests passed!');
+};
+
+// Test "seat together" / "spread out" tag rules
+const testTagRules = async () => {
+  const guests = createSolverGuests(6).map((g, i) => ({ ...g, count: 1, ...(i % 2 === 0 && { tags: ['VIP'] }) }));
+  console.assert(resolveTagRuleMembers({ id: 'r', tag: 'vip', mode: 'group' }, guests).join() === 'g1,g3,g5', 'A tag rule should cover the guests carrying the tag');
+  console.assert(resolveTagRuleMembers({ id: 'r', tag: 'side:', mode: 'group' }, guests).length === 2, 'A dimension rule should cover each value separately');
+
+  const input = { guests, tables: createTestTables([3, 3]), constraints: {}, adjacents: {}, assignments: {}, isPremium: false, options: { timeBudgetMs: 300 } };
+  const grouped = await generateSeatingPlans({ ...input, tagRules: [{ id: 'r', tag: 'vip', mode: 'group' }] });
+  const best = grouped.plans[0];
+  console.assert(tableOf(best, 'Guest 1') === tableOf(best, 'Guest 3') && tableOf(best, 'Guest 3') === tableOf(best, 'Guest 5'), 'Grouped VIPs should share a table');
+  console.assert(best.tagRuleSatisfaction === 1, 'A fully grouped tag should score 1');
+
+  const mixed = await generateSeatingPlans({ ...input, tagRules: [{ id: 'r', tag: 'vip', mode: 'mix' }] });
+  const spread = new Set(['Guest 1', 'Guest 3', 'Guest 5'].map(name => tableOf(mixed.plans[0], name)));
+  console.assert(spread.size === 2 && mixed.plans[0].tagRuleSatisfaction === 1, 'Mixed VIPs should use every table');
+
+  const untagged = await generateSeatingPlans(input);
+  console.assert(untagged.plans[0].tagRuleSatisfaction === undefined, 'Without tag rules there is nothing to score');
+
+  console.log('✅ Tag rule tests passed!');
+};
+
+// Test table quotas, tag-only tables and balance rules
+const testTableRules = async () => {
+  // Guests 1-3 are children; sides alternate groom / bride
+  const guests = createSolverGuests(8).map((g, i) => ({ ...g, count: 1, attributes: { ...g.attributes, ageGroup: i < 3 ? 'child' as const : 'adult' as const } }));
+  const tables = createTestTables([3, 3, 3]);
+  tables[0].rules = [{ kind: 'max', tag: 'age:child', limit: 1 }];
+  tables[1].rules = [{ kind: 'only', tag: 'age:child' }];
+  const input = { guests, tables, constraints: {}, adjacents: {}, assignments: {}, isPremium: false, options: { timeBudgetMs: 300 } };
+  const { plans } = await generateSeatingPlans(input);
+  const children = new Set(['Guest 1', 'Guest 2', 'Guest 3']);
+  console.assert(plans.length > 0, 'Seatable table rules should still give plans');
+  for (const plan of plans) {
+    const [first, second] = plan.tables;
+    console.assert(first.seats.filter(s => children.has(s.name)).length <= 1, 'A quota should cap the tagged guests at its table');
+    console.assert(second.seats.every(s => children.has(s.name)), 'An only-rule table should seat tagged guests only');
+  }
+
+  // Four groom and four bride guests at two tables of four: an even split scores 1, a lopsided one less
+  const sides = createTestTables([4, 4]).map(t => ({ ...t, rules: [{ kind: 'balance' as const, tag: 'side:' }] }));
+  const seatSides = async (table1: string[]) => (await generateSeatingPlans({ ...input, tables: sides, assignments: Object.fromEntries(guests.map(g => [g.id, table1.includes(g.id) ? '1' : '2'])) })).plans[0];
+  const even = await seatSides(['g1', 'g2', 'g3', 'g4']);
+  const lopsided = await seatSides(['g1', 'g3', 'g5', 'g7']);
+  console.assert(even.tableBalance === 1 && (lopsided.tableBalance ?? 1) < 1, 'Balance rules should favour an even mix');
+  console.assert((even.score ?? 0) > (lopsided.score ?? 0), 'An even mix should score higher');
+  console.assert(plans[0].tableBalance === undefined, 'Without balance rules there is no table balance');
+
+  console.assert(describeTableRule({ kind: 'max', tag: 'age:child', limit: 1 }) === 'At most 1 "Age: child" guest', 'Quotas should read naturally');
+  const stored = sanitizeTableRules([{ kind: 'balance', tag: 'vip' }, { kind: 'max', tag: 'VIP', limit: 2.7 }, { kind: 'seat', tag: 'x' }]);
+  console.assert(stored?.length === 1 && stored[0].tag === 'vip' && stored[0].limit === 2, 'Stored table rules should drop invalid ones');
+
+  console.log('✅ Table rule tests passed!');
+};
+
+// Test the exact branch-and-bound mode against the heuristic
+const testExactSolver = async () => {
+  for (const guestCount of [8, 10, 12]) {
+    const fixture = createSolverFixture(guestCount);
+    const heuristic = await generateSeatingPlans({ ...fixture, options: { seed: 7, timeBudgetMs: 1000 } });
+    const exact = await generateSeatingPlans({ ...fixture, options: { timeBudgetMs: 5000, solver: 'exact' } });
+    const best = exact.plans[0];
+
+    console.assert(heuristic.plans.length > 0 && !!best, `${guestCount} guests: both modes should find a plan`);
+    console.assert(best.solver === 'exact' && best.provenOptimal === true, `${guestCount} guests: exact mode should prove optimality`);
+    console.assert(
+      (best.score ?? 0) >= (heuristic.plans[0].score ?? 0) - 1e-9,
+      `${guestCount} guests: exact score should be at least the heuristic's best`
+    );
+    console.assert(tableOf(best, 'Guest 5') !== tableOf(best, 'Guest 6'), `${guestCount} guests: exact plan must honour CANNOT`);
+    console.assert(tableOf(best, 'Guest 1') === tableOf(best, 'Guest 8'), `${guestCount} guests: exact plan must keep adjacent pairs together`);
+  }
+
+  // Deterministic: the same input gives the same best plan
+  const fixture = createSolverFixture(8);
+  const a = await generateSeatingPlans({ ...fixture, options: { solver: 'exact' } });
+  const b = await generateSeatingPlans({ ...fixture, options: { solver: 'exact' } });
+  console.assert(JSON.stringify(a.plans[0]?.tables) === JSON.stringify(b.plans[0]?.tables), 'Exact mode should be deterministic');
+
+  // Exact mode tries table 1 first for the VIP party, which strands the VIP-only table; it runs
+  // out of time refuting that, so the heuristic (which picks between tied tables at random) takes over
+  const vips = [{ id: 'x', name: 'VIP party', count: 4, tags: ['vip'] }, { id: 'v', name: 'VIP', count: 1, tags: ['vip'] }];
+  const trapTables = createTestTables([5, 7, 7, 7, 5]);
+  trapTables[4].rules = [{ kind: 'only', tag: 'vip' }];
+  const trap = {
+    guests: [...vips, ...createSolverGuests(26).map(g => ({ ...g, count: 1 }))],
+    tables: trapTables,
+    constraints: {},
+    adjacents: {},
+    assignments: {},
+    isPremium: false,
+  };
+  const timedOut = await generateSeatingPlans({ ...trap, options: { solver: 'exact', timeBudgetMs: 500 } });
+  console.assert(timedOut.plans.length > 0 && timedOut.plans[0].solver === undefined, 'A timed-out exact search should fall back to the heuristic');
+
+  // Too many guest entries: warns and falls back to the heuristic
+  const large = { ...createSolverFixture(81), tables: createTestTables(Array(20).fill(8)) };
+  const fallback = await generateSeatingPlans({ ...large, options: { solver: 'exact', timeBudgetMs: 1000 } });
+  console.assert(fallback.plans.length > 0 && fallback.plans[0].solver === undefined, 'Large events should fall back to the heuristic');
+  console.assert(fallback.errors.some(e => e.type === 'warn' && /Exact mode/.test(e.message)), 'Fallback should be reported as a warning');
+
+  console.log('✅ Exact solver tests passed!');
+};
+
+// Test the move/swap improvement pass on top of the randomized search
+const testLocalSearch = async () => {
+  const fixture = { ...createSolverFixture(40), tables: createTestTables(Array(8).fill(8)) };
+  const plain = await generateSeatingPlans({ ...fixture, options: { seed: 7, timeBudgetMs: 1500 } });
+  const improved = await generateSeatingPlans({ ...fixture, options: { seed: 7, timeBudgetMs: 1500, localSearch: true } });
+
+  console.assert(plain.plans.length > 0 && improved.plans.length > 0, 'Both modes should find plans');
+  console.assert(
+    (improved.plans[0].score ?? 0) >= (plain.plans[0].score ?? 0) - 1e-9,
+    'Local search should not lower the best score'
+  );
+  for (const plan of improved.plans) {
+    console.assert(tableOf(plan, 'Guest 5') !== tableOf(plan, 'Guest 6'), 'Local search must honour CANNOT');
+    console.assert(tableOf(plan, 'Guest 1') === tableOf(plan, 'Guest 8'), 'Local search must keep adjacent pairs together');
+    console.assert(plan.tables.every(t => t.seats.length <= 8), 'Local search must respect table capacity');
+  }
+
+  // A tight budget cuts the search short; replay repeats the recorded steps rather than the clock
+  const rushed = await generateSeatingPlans({ ...fixture, options: { seed: 7, timeBudgetMs: 40, localSearch: true } });
+  for (const plan of [...improved.plans, ...rushed.plans]) {
+    console.assert(typeof plan.improvementSteps === 'number', 'Local search plans should record their steps');
+    const replay = await generateSeatingPlans({
+      ...fixture,
+      options: { timeBudgetMs: 1500, localSearch: true, replaySeed: plan.seedUsed, replaySteps: plan.improvementSteps },
+    });
+    console.assert(replay.plans.length === 1 && seatingOf(replay.plans[0]) === seatingOf(plan), 'Replay should rebuild identical seats');
+  }
+
+  console.log('✅ Local search tests passed!');
+};
+
+// Test that adjacency on head and rectangular tables follows their seat layout
+const testTableShapes = async () => {
+  const guests = createSolverGuests(6).map(g => ({ ...g, count: 1 }));
+  const adjacents = { g1: ['g2'], g2: ['g1', 'g3'], g3: ['g2', 'g4'], g4: ['g3'] };
+  for (const shape of ['head', 'rectangle', 'u-shape'] as const) {
+    const tables = [{ ...createTestTables([8])[0], shape }];
+    const result = await generateSeatingPlans({ guests, tables, constraints: {}, adjacents, assignments: {}, isPremium: false, options: { timeBudgetMs: 500 } });
+    const plan = result.plans[0];
+    console.assert(!!plan && plan.adjacencySatisfaction === 1, `${shape}: every adjacent pair should sit side by side`);
+    const order = plan.tables[0].seats.map(s => s.name);
+    const gap = (a: string, b: string) => Math.abs(order.indexOf(a) - order.indexOf(b));
+    // Seats are numbered along the row, so neighbours must be consecutive rather than wrapping around
+    console.assert(gap('Guest 1', 'Guest 2') === 1 && gap('Guest 2', 'Guest 3') === 1 && gap('Guest 3', 'Guest 4') === 1, `${shape}: chain should run along the seats`);
+  }
+
+  console.log('✅ Table shape tests passed!');
+};
+
+// Test per-seat pins
+const testSeatPins = async () => {
+  // g1 is a party of two; g3 should sit beside g5, who is pinned across the table
+  const guests = createSolverGuests(6);
+  const adjacents = { g3: ['g5'], g5: ['g3'] };
+  for (const shape of [undefined, 'rectangle'] as const) {
+    const tables = [{ ...createTestTables([10])[0], ...(shape && { shape }) }, ...createTestTables([10]).map(t => ({ ...t, id: 2 }))];
+    const seatPins = { 1: { 0: 'g1', 6: 'g5' }, 2: { 3: 'g2' } };
+    const result = await generateSeatingPlans({ guests, tables, constraints: {}, adjacents, assignments: {}, seatPins, isPremium: false, options: { timeBudgetMs: 500 } });
+    const label = shape ?? 'round';
+    console.assert(result.plans.length > 0, `${label}: pinned guests should still get plans`);
+    for (const plan of result.plans) {
+      const at = (tableId: number, seat: number) => plan.tables.find(t => t.id === tableId)?.seats.find(s => s.seat === seat);
+      console.assert(at(1, 0)?.id === 'g1' && at(1, 0)?.partyIndex === 0 && at(1, 1)?.id === 'g1', `${label}: g1's party should start at seat 1`);
+      console.assert(at(1, 6)?.id === 'g5', `${label}: g5 should sit in pinned seat 7`);
+      console.assert(at(2, 3)?.id === 'g2', `${label}: g2 should be moved to its pinned table and seat`);
+      const g3 = plan.tables[0].seats.find(s => s.id === 'g3');
+      console.assert(g3?.seat === 5 || g3?.seat === 7, `${label}: g3 should sit beside pinned g5`);
+    }
+  }
+
+  console.log('✅ Seat pin tests passed!');
+};
+
+// Test partial table locks: locked guests stay, the rest of the table is refilled
+const testPartialLocks = async () => {
+  const guests = createSolverGuests(12).map(g => ({ ...g, count: 1 }));
+  const tables = createTestTables([6, 6]);
+  const lockedTableAssignments = { 1: ['g7', 'g12'] };
+  const result = await generateSeatingPlans({ guests, tables, constraints: {}, adjacents: {}, assignments: {}, lockedTableAssignments, isPremium: false, options: { timeBudgetMs: 500 } });
+  console.assert(result.plans.length > 0, 'Partially locked tables should still get plans');
+  for (const plan of result.plans) {
+    const table1 = plan.tables.find(t => t.id === 1)!;
+    const ids = table1.seats.map(s => s.id);
+    console.assert(ids.includes('g7') && ids.includes('g12'), 'Locked guests should keep their table');
+    console.assert(table1.seats.length === 6, 'Unlocked seats at a partially locked table should be refilled');
+  }
+
+  console.log('✅ Partial lock tests passed!');
+};
+
+// Test conflict detection on a hand-edited plan
+const testRepairMode = async () => {
+  const guests = createSolverGuests(12).map(g => ({ ...g, count: 1 }));
+  const tables = createTestTables([4, 4, 4]);
+  const baseline = planOf(guests, [['g1', 'g2', 'g3', 'g4'], ['g5', 'g6', 'g7', 'g8'], ['g9', 'g10', 'g11', 'g12']], 4);
+  // A new CANNOT breaks table 1; full tables mean the cheapest repair is one swap
+  const constraints: Constraints = {};
+  setPair(constraints, 'g1', 'g2', 'cannot');
+  const result = await generateSeatingPlans({ guests, tables, constraints, adjacents: {}, assignments: {}, isPremium: false, repairBaseline: baseline, options: { timeBudgetMs: 1000 } });
+  const best = result.plans[0];
+  console.assert(!!best, 'Repair should find a plan');
+  console.assert(best.solver === 'repair', 'Repaired plans should be marked as repairs');
+  console.assert(best.moves?.length === 2, 'The best repair should move exactly two guests');
+  console.assert(best.moves!.some(m => m.guestId === 'g1' || m.guestId === 'g2'), 'One of the CANNOT pair should move');
+  const moved = new Set(best.moves!.map(m => m.guestId));
+  for (const g of guests) {
+    if (moved.has(g.id)) continue;
+    console.assert(tableOf(best, g.name) === tableOf(baseline, g.name), `${g.id} was not reported as moved, so it should keep its table`);
+  }
+
+  console.log('✅ Repair mode tests passed!');
+};
+
+const testPlanConflicts = () => {
+  const guests = createSolverGuests(6).map(g => ({ ...g, count: 1 }));
+  const tables = createTestTables([3, 3]);
+  const constraints: Constraints = {};
+  setPair(constraints, 'g1', 'g2', 'must');
+  setPair(constraints, 'g3', 'g4', 'cannot');
+  const adjacents = { g5: ['g6'], g6: ['g5'] };
+
+  const valid = detectPlanConflicts(planOf(guests, [['g1', 'g2', 'g3'], ['g4', 'g5', 'g6']]), guests, tables, constraints, adjacents);
+  console.assert(valid.length === 0, 'A plan that follows every rule should have no conflicts');
+
+  const broken = detectPlanConflicts(planOf(guests, [['g1', 'g3', 'g4', 'g5'], ['g2', 'g6']]), guests, tables, constraints, adjacents);
+  const messages = broken.map(e => e.message);
+  console.assert(messages.includes('Guest 1 and Guest 2 must sit at the same table'), 'Split MUST pair should be reported by name');
+  console.assert(messages.includes('Guest 3 and Guest 4 cannot sit at the same table'), 'CANNOT pair together should be reported');
+  console.assert(messages.some(m => /4 guests for 3 seats/.test(m)), 'Over-full table should be reported');
+  console.assert(broken.every(e => e.type === 'error'), 'These conflicts are all errors');
+
+  const unseated = detectPlanConflicts(planOf(guests, [['g1', 'g2', 'g3'], ['g4', 'g5']]), guests, tables, constraints, adjacents);
+  console.assert(unseated.some(e => e.type === 'warn' && e.message === 'Guest 6 has no seat'), 'Unseated guests should be a warning');
+
+  // Runs on every drag, so it must neither log nor swap out the global console
+  const log = Object.getOwnPropertyDescriptor(console, 'log')!;
+  let logged = 0;
+  let replaced = 0;
+  Object.defineProperty(console, 'log', { configurable: true, get: () => () => { logged++; }, set: () => { replaced++; } });
+  detectPlanConflicts(planOf(guests, [['g1', 'g2', 'g3'], ['g4', 'g5', 'g6']]), guests, tables, constraints, adjacents);
+  Object.defineProperty(console, 'log', log);
+  console.assert(logged === 0 && replaced === 0, 'Plan conflict checks should run silently');
+
+  console.log('✅ Plan conflict tests passed!');
+};
+
+// Test the explanation of plans that cannot be seated
+const testInfeasibility = async () => {
+  // Three guests who must all sit apart cannot share two tables; the other rules are beside the point
+  const guests = createSolverGuests(6).map(g => ({ ...g, count: 1 }));
+  const constraints: Constraints = {};
+  setPair(constraints, 'g1', 'g2', 'cannot');
+  setPair(constraints, 'g2', 'g3', 'cannot');
+  setPair(constraints, 'g1', 'g3', 'cannot');
+  setPair(constraints, 'g4', 'g5', 'cannot');
+  setPair(constraints, 'g5', 'g6', 'must');
+  const input = { guests, tables: createTestTables([3, 3]), constraints, adjacents: {}, assignments: {}, isPremium: false, options: { timeBudgetMs: 300 } };
+  const result = await generateSeatingPlans(input);
+  const report = result.infeasibility;
+  const pairs = (report?.rules ?? []).map(r => `${r.kind}:${[...r.guestIds].sort().join('-')}`).sort();
+  console.assert(result.plans.length === 0 && !!report, 'An unseatable event should be explained');
+  console.assert(pairs.join() === 'cannot:g1-g2,cannot:g1-g3,cannot:g2-g3', 'Only the rules that collide should be reported');
+  console.assert(report?.minimal === true, 'Exact checks on a small event should prove the set minimal');
+
+  // Beyond the exact solver a failed check proves nothing, so the set is not claimed minimal
+  const crowd = createSolverGuests(EXACT_SOLVER_MAX_GUESTS + 1).map(g => ({ ...g, count: 1 }));
+  const large = await generateSeatingPlans({ ...input, guests: crowd, tables: createTestTables([60, 60]) });
+  console.assert(!!large.infeasibility && large.infeasibility.minimal === false, 'Heuristic checks should not claim a minimal set');
+
+  console.log('✅ Infeasibility tests passed!');
+};
+
 // Run all test suites
-export const runAllTests = () => {
+export const runAllTests = async () => {
   console.log('🧪 Running comprehensive adjacency logic tests...');
-  testAxiomTests();
-  testEnhancedAdjacencyLogic();
-  testMinCapacityBugFix();
-  testSelfReferenceBugFix();
+  // Each suite runs on its own, so one that throws does not hide the results of the rest
+  const suites: (() => unknown)[] = [
+    testAxiomTests,
+    testEnhancedAdjacencyLogic,
+    testMinCapacityBugFix,
+    testSelfReferenceBugFix,
+    testGenerationOptions,
+    testSeedReplay,
+    testSoftConstraints,
+    testTagRules,
+    testTableRules,
+    testExactSolver,
+    testLocalSearch,
+    testTableShapes,
+    testSeatPins,
+    testPartialLocks,
+    testRepairMode,
+    testPlanConflicts,
+    testInfeasibility,
+    testPlanMetrics,
+    testPlanDiff,
+    testPrintCards,
+    testPdfExport,
+    testGuestLookup,
+    testSettingsImport,
+    testGuestImport,
+    testXlsx,
+    testBulkGuestTags,
+    testHistory,
+    testFloorPlan,
+    testSeatingWorker,
+  ];
+  const failed: string[] = [];
+  for (const suite of suites) {
+    try {
+      await suite();
+    } catch (err) {
+      failed.push(suite.name);
+      console.error(`❌ ${suite.name} threw:`, err);
+    }
+  }
+  if (failed.length > 0) {
+    console.error(`❌ ${failed.length} of ${suites.length} test suites threw: ${failed.join(', ')}`);
+    return;
+  }
   console.log('🎉 All tests completed successfully!');
 };
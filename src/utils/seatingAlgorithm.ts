@@ -13,13 +13,25 @@ import {
   Assignments,
   GuestID,
   LockedTableAssignments,
+  SeatPins,
+  PreferenceWeights,
+  TagRule,
+  GenerationOptions,
+  GenerationWeights,
+  GenerationProgress,
+  ConflictRule,
+  InfeasibilityReport,
+  PlanMove,
 } from "../types";
 import * as Engine from "./seatingAlgorithm.engine";
 import { normalizeAssignmentInputToIdsWithWarnings, parseAssignmentIds } from "./assignments";
 import { getCapacity } from "./tables";
 import { countHeads } from "./guestCount";
+import { resolveTagRuleMembers } from "./guestTags";
+import { describeTableRule, resolveTableRule } from "./tableRules";
+import { pinnedGuestsByTable } from "./seatPins";
 
-export type AdapterResult = { plans: SeatingPlan[]; errors: ValidationError[] };
+export type AdapterResult = { plans: SeatingPlan[]; errors: ValidationError[]; infeasibility?: InfeasibilityReport };
 
 export async function generateSeatingPlans(...args: any[]): Promise<AdapterResult> {
   console.time("SeatingGeneration");
@@ -34,6 +46,12 @@ export async function generateSeatingPlans(...args: any[]): Promise<AdapterResul
             assignments: (args[0].assignments ?? {}) as Assignments,
             lockedTableAssignments: (args[0].lockedTableAssignments ?? {}) as LockedTableAssignments,
             isPremium: !!args[0].isPremium,
+            options: (args[0].options ?? {}) as GenerationOptions,
+            onProgress: args[0].onProgress as ((p: GenerationProgress) => void) | undefined,
+            preferenceWeights: (args[0].preferenceWeights ?? {}) as PreferenceWeights,
+            tagRules: (args[0].tagRules ?? []) as TagRule[],
+            seatPins: (args[0].seatPins ?? {}) as SeatPins,
+            repairBaseline: args[0].repairBaseline as SeatingPlan | undefined,
           }
         : {
             guests: (args[0] ?? []) as Guest[],
@@ -43,9 +61,15 @@ export async function generateSeatingPlans(...args: any[]): Promise<AdapterResul
             assignments: (args[4] ?? {}) as Assignments,
             lockedTableAssignments: (args[5] ?? {}) as LockedTableAssignments,
             isPremium: !!args[6],
+            options: (args[7] ?? {}) as GenerationOptions,
+            onProgress: args[8] as ((p: GenerationProgress) => void) | undefined,
+            preferenceWeights: (args[9] ?? {}) as PreferenceWeights,
+            tagRules: (args[10] ?? []) as TagRule[],
+            seatPins: (args[11] ?? {}) as SeatPins,
+            repairBaseline: args[12] as SeatingPlan | undefined,
           };
 
-    const { guests, tables, constraints, adjacents, assignments, lockedTableAssignments, isPremium } = params;
+    const { guests, tables, constraints, adjacents, assignments, lockedTableAssignments, isPremium, options, onProgress, preferenceWeights, tagRules, seatPins, repairBaseline } = params;
 
     // ADAPTER GUARD: Drop locks to non-existent tables before engine invocation
     // This is defense-in-depth: even if reducer cleanup misses a lock, we catch it here
@@ -83,10 +107,29 @@ export async function generateSeatingPlans(...args: any[]): Promise<AdapterResul
       engineConstraints[id1] = {};
       Object.entries(cons ?? {}).forEach(([k2, v]) => {
         const id2 = toId(k2);
-        if (id2 && id2 !== id1) engineConstraints[id1][id2] = v as "must" | "cannot" | "";
+        if (id2 && id2 !== id1) engineConstraints[id1][id2] = v as Engine.ConstraintsMap[string][string];
       });
     });
 
+    const enginePreferenceWeights: Engine.PreferenceWeightsMap = {};
+    Object.entries(preferenceWeights ?? {}).forEach(([k1, row]) => {
+      const id1 = toId(k1);
+      if (!id1 || !row) return;
+      Object.entries(row).forEach(([k2, w]) => {
+        const id2 = toId(k2);
+        if (!id2 || id2 === id1) return;
+        if (!enginePreferenceWeights[id1]) enginePreferenceWeights[id1] = {};
+        enginePreferenceWeights[id1][id2] = Number(w);
+      });
+    });
+
+    const engineTagGroups: Engine.TagGroupIn[] = [];
+    for (const rule of tagRules ?? []) {
+      for (const members of resolveTagRuleMembers(rule, guests)) {
+        engineTagGroups.push({ members: members.map(String), mode: rule.mode });
+      }
+    }
+
     const engineAdj: Engine.AdjRecord = {};
     Object.entries(adjacents ?? {}).forEach(([k1, list]) => {
       const id1 = toId(k1);
@@ -131,6 +174,15 @@ export async function generateSeatingPlans(...args: any[]): Promise<AdapterResul
       }
     }
 
+    // 3) Seat pins fix the table as well as the seat, so they act as locks too
+    const safeSeatPins: SeatPins = Object.fromEntries(
+      Object.entries(seatPins || {}).filter(([tid]) => validTableIds.has(Number(tid)))
+    );
+    const pinLocks = pinnedGuestsByTable(safeSeatPins);
+    for (const [tableId, guestIds] of Object.entries(pinLocks)) {
+      for (const guestId of guestIds) engineAssignments[guestId] = tableId;
+    }
+
     const allowedTablesByGuest: Record<string, number[]> = {};
     Object.entries(engineAssignments).forEach(([gid, csv]) => {
       allowedTablesByGuest[gid] = parseAssignmentIds(String(csv));
@@ -147,15 +199,33 @@ export async function generateSeatingPlans(...args: any[]): Promise<AdapterResul
       name: t.name ?? undefined,
       seats: Array.isArray(t.seats) ? t.seats : [],
       capacity: getCapacity(t),
+      rules: (t.rules ?? []).map((r) => resolveTableRule(r, guests)),
+      shape: t.shape,
+      pins: safeSeatPins[t.id],
     }));
 
-    const { plans: enginePlans, errors: engineErrors } = await Engine.generateSeatingPlans(
+    // Repair mode: the table each guest sits at in the baseline plan, for guests and tables that still exist
+    const baselineSeating = repairBaseline ? planSeating(repairBaseline, guests) : null;
+    const engineBaseline: Record<string, string> = {};
+    for (const [tableId, ids] of Object.entries(baselineSeating ?? {})) {
+      if (!validTableIds.has(Number(tableId))) continue;
+      for (const id of ids) if (idToName.has(id)) engineBaseline[String(id)] = tableId;
+    }
+
+    const { plans: enginePlans, errors: engineErrors, infeasibility: engineInfeasibility } = await Engine.generateSeatingPlans(
       engineGuests as any,
       engineTables as any,
       engineConstraints,
       engineAdj,
       engineAssignments,
       isPremium,
+      {
+        ...options,
+        preferenceWeights: enginePreferenceWeights,
+        tagGroups: engineTagGroups,
+        ...(baselineSeating && { baseline: engineBaseline }),
+      },
+      { onProgress },
     );
 
     const plans: SeatingPlan[] = enginePlans
@@ -171,8 +241,23 @@ export async function generateSeatingPlans(...args: any[]): Promise<AdapterResul
             };
           })
           .sort((a, b) => a.id - b.id),
+        seedUsed: p.seedUsed,
+        attemptsUsed: p.attemptsUsed,
+        ...(p.improvementSteps !== undefined && { improvementSteps: p.improvementSteps }),
+        score: p.score,
+        adjacencySatisfaction: p.adjacencySatisfaction,
+        capacityUtilization: p.capacityUtilization,
+        balance: p.balance,
+        softSatisfaction: p.softSatisfaction,
+        softPreferencesHonoured: p.softPreferencesHonoured,
+        softPreferencesTotal: p.softPreferencesTotal,
+        tagRuleSatisfaction: p.tagRuleSatisfaction,
+        tableBalance: p.tableBalance,
+        ...(p.solver && { solver: p.solver }),
+        ...(p.provenOptimal !== undefined && { provenOptimal: p.provenOptimal }),
       }))
-      .sort((a, b) => a.id - b.id);
+      .sort((a, b) => a.id - b.id)
+      .map((plan) => (repairBaseline ? { ...plan, moves: planMoves(repairBaseline, plan, guests) } : plan));
 
     const errors = [
       ...unknownErrors,
@@ -183,7 +268,11 @@ export async function generateSeatingPlans(...args: any[]): Promise<AdapterResul
       })),
     ];
 
-    return { plans, errors };
+    const infeasibility = engineInfeasibility
+      ? describeInfeasibility(engineInfeasibility, tables, idToName, mergeLocks(safeLockedAssignments, pinLocks))
+      : undefined;
+
+    return { plans, errors, ...(infeasibility && { infeasibility }) };
   } catch (e: unknown) {
     const err: ValidationError = { type: "error", message: "Failed to generate seating plans." };
     if (import.meta?.env?.DEV && e instanceof Error) {
@@ -197,31 +286,89 @@ export async function generateSeatingPlans(...args: any[]): Promise<AdapterResul
   }
 }
 
-export function detectConstraintConflicts(
+function mergeLocks(...sources: Record<string, GuestID[]>[]): Record<string, GuestID[]> {
+  const out: Record<string, GuestID[]> = {};
+  for (const src of sources)
+    for (const [tid, ids] of Object.entries(src)) out[tid] = [...(out[tid] ?? []), ...(ids ?? [])];
+  return out;
+}
+
+function describeInfeasibility(
+  explanation: Engine.InfeasibilityExplanation,
+  tables: Table[],
+  idToName: Map<GuestID, string>,
+  locks: Record<string, GuestID[]>,
+): InfeasibilityReport {
+  const guestName = (id: string) => idToName.get(id) ?? id;
+  const tableName = (id: number) => {
+    const t = tables.find((x) => x.id === id);
+    return t?.name || `Table ${id}`;
+  };
+  const rules = explanation.items.map((item): ConflictRule => {
+    const guestIds = item.guests.map(String);
+    const tableIds = (item.tables ?? []).map(Number).filter(Number.isFinite);
+    const [a, b] = guestIds.map(guestName);
+    switch (item.kind) {
+      case "must":
+        return { kind: "must", guestIds, tableIds, description: `${a} and ${b} must sit together` };
+      case "adjacent":
+        return { kind: "adjacent", guestIds, tableIds, description: `${a} and ${b} must sit next to each other` };
+      case "cannot":
+        return { kind: "cannot", guestIds, tableIds, description: `${a} and ${b} cannot sit together` };
+      case "table_rule": {
+        const rule = tables.find((t) => t.id === tableIds[0])?.rules?.[item.ruleIndex ?? -1];
+        return {
+          kind: "table_rule",
+          guestIds,
+          tableIds,
+          ruleIndex: item.ruleIndex,
+          description: `${tableName(tableIds[0])}: ${rule ? describeTableRule(rule) : "table rule"}`,
+        };
+      }
+      case "assignment": {
+        // Locks reach the engine as single-table assignments
+        const locked = tableIds.length === 1 && (locks[String(tableIds[0])] ?? []).includes(guestIds[0]);
+        return locked
+          ? { kind: "lock", guestIds, tableIds, description: `${a} is locked to ${tableName(tableIds[0])}` }
+          : { kind: "assignment", guestIds, tableIds, description: `${a} is assigned to ${tableIds.map(tableName).join(" or ")}` };
+      }
+    }
+  });
+  return { rules, minimal: explanation.minimal };
+}
+
+export function getDefaultGenerationOptions(
+  isPremium: boolean,
+): Required<Omit<GenerationOptions, "replaySeed" | "replaySteps">> & { weights: Required<GenerationWeights> } {
+  return Engine.getDefaultEngineOptions(isPremium);
+}
+
+// Shared input mapping for the validation-only entry points
+function toEngineValidationInputs(
   guests: Guest[] | null,
   tables: Table[] | null,
   constraints: Constraints | null,
-  _checkAdjacency: boolean = false,
-  adjacents: Adjacents | null = {},
-): ValidationError[] {
+  adjacents: Adjacents | null,
+) {
   const engineGuests = (guests ?? []).map((g) => ({
     ...g,
     id: String(g.id),
     name: g.name ?? `Guest ${g.id}`,
     count: Math.max(1, Math.floor(Number(g.count ?? countHeads(g.name)) || 1)),
   }));
-  const engineTables = (tables ?? []).map((t) => ({
+  const engineTables: Engine.TableIn[] = (tables ?? []).map((t) => ({
     id: t.id,
     name: t.name ?? undefined,
-    seats: Array.isArray(t.seats) ? t.seats : [],
     capacity: getCapacity(t),
+    rules: (t.rules ?? []).map((r) => resolveTableRule(r, guests ?? [])),
+    shape: t.shape,
   }));
   const engineConstraints: Engine.ConstraintsMap = {};
   Object.entries(constraints ?? {}).forEach(([gid, row]) => {
     if (!row) return;
     engineConstraints[gid] = {};
     Object.entries(row).forEach(([other, v]) => {
-      if (other !== gid) engineConstraints[gid][other] = v as "must" | "cannot" | "";
+      if (other !== gid) engineConstraints[gid][other] = v as Engine.ConstraintsMap[string][string];
     });
   });
   const engineAdj: Engine.AdjRecord = {};
@@ -229,7 +376,17 @@ export function detectConstraintConflicts(
     if (!list) return;
     engineAdj[gid] = (list as string[]).filter((id) => id !== gid);
   });
+  return { engineGuests, engineTables, engineConstraints, engineAdj };
+}
 
+export function detectConstraintConflicts(
+  guests: Guest[] | null,
+  tables: Table[] | null,
+  constraints: Constraints | null,
+  _checkAdjacency: boolean = false,
+  adjacents: Adjacents | null = {},
+): ValidationError[] {
+  const { engineGuests, engineTables, engineConstraints, engineAdj } = toEngineValidationInputs(guests, tables, constraints, adjacents);
   const errs = Engine.detectConstraintConflicts(engineGuests as any, engineTables as any, engineConstraints, engineAdj, {});
   return errs.map((e) => ({
     type: mapErrorType(e.kind),
@@ -238,6 +395,96 @@ export function detectConstraintConflicts(
   }));
 }
 
+/**
+ * Guest ids of each plan table in seat order (one entry per party)
+ */
+export function planSeating(plan: SeatingPlan, guests: Guest[]): Record<string, GuestID[]> {
+  const nameToId = new Map(guests.map((g) => [g.name, g.id]));
+  const seating: Record<string, GuestID[]> = {};
+  for (const t of plan.tables) {
+    const ids: GuestID[] = [];
+    for (const seat of t.seats) {
+      const id = seat.id ?? nameToId.get(seat.name);
+      if (id && !ids.includes(id)) ids.push(id);
+    }
+    seating[String(t.id)] = ids;
+  }
+  return seating;
+}
+
+/**
+ * Guests seated at a different table in `plan` than in `baseline`, in guest list order.
+ * Guests missing from the baseline count as moved from nowhere.
+ */
+export function planMoves(baseline: SeatingPlan, plan: SeatingPlan, guests: Guest[]): PlanMove[] {
+  const tableOf = (seating: Record<string, GuestID[]>) => {
+    const at = new Map<string, number>();
+    for (const [tableId, ids] of Object.entries(seating)) ids.forEach((id) => at.set(String(id), Number(tableId)));
+    return at;
+  };
+  const before = tableOf(planSeating(baseline, guests));
+  const after = tableOf(planSeating(plan, guests));
+  const moves: PlanMove[] = [];
+  for (const g of guests) {
+    const to = after.get(String(g.id));
+    if (to === undefined) continue;
+    const from = before.get(String(g.id)) ?? null;
+    if (from !== to) moves.push({ guestId: g.id, fromTableId: from, toTableId: to });
+  }
+  return moves;
+}
+
+/**
+ * Problems with a plan as it stands (typically one edited by hand), worded with guest names:
+ * MUST / adjacent partners at different tables, CANNOT pairs together, over-full tables,
+ * broken table rules, adjacent pairs apart at their table, and guests left without a seat.
+ */
+export function detectPlanConflicts(
+  plan: SeatingPlan,
+  guests: Guest[],
+  tables: Table[],
+  constraints: Constraints | null,
+  adjacents: Adjacents | null,
+): ValidationError[] {
+  const { engineGuests, engineTables, engineConstraints, engineAdj } = toEngineValidationInputs(guests, tables, constraints, adjacents);
+  const errs = Engine.detectSeatingConflicts(
+    engineGuests,
+    engineTables,
+    engineConstraints,
+    engineAdj,
+    planSeating(plan, guests),
+  );
+  const nameOf = new Map(guests.map((g) => [String(g.id), g.name]));
+  const names = (ids: unknown): string[] =>
+    (Array.isArray(ids) ? ids : []).map((id) => nameOf.get(String(id)) ?? String(id));
+  const listNames = (ids: unknown) => {
+    const list = names(ids);
+    return list.length <= 2 ? list.join(" and ") : `${list.slice(0, -1).join(", ")} and ${list[list.length - 1]}`;
+  };
+  return errs.map((e) => {
+    let message = e.message;
+    switch (e.kind) {
+      case "assignment_conflict":
+        message = `${listNames(e.details?.group)} must sit at the same table`;
+        break;
+      case "cant_seated_together":
+        message = `${listNames(e.details?.guests)} cannot sit at the same table`;
+        break;
+      case "adjacent_not_side_by_side":
+        message = `${listNames(e.details?.guests)} should sit side by side`;
+        break;
+      case "guest_not_seated":
+        message = `${listNames(e.details?.guests)} has no seat`;
+        break;
+    }
+    return {
+      type: mapErrorType(e.kind),
+      message,
+      ...(import.meta?.env?.DEV && { _originalKind: e.kind, _details: e.details }),
+    };
+  });
+}
+
 export function detectAdjacentPairingConflicts(
   guests: Guest[] | null,
   adjacents: Adjacents | null,
@@ -282,11 +529,15 @@ function mapErrorType(kind: Engine.ConflictKind): "error" | "warn" {
     case "assignment_conflict":
     case "cant_within_must_group":
     case "group_too_big_for_any_table":
+    case "table_rule_conflict":
     case "unknown_guest":
     case "adjacency_closed_loop_not_exact":
       return "error";
     case "adjacency_degree_violation":
     case "adjacency_closed_loop_too_big":
+    case "exact_solver_too_large":
+    case "adjacent_not_side_by_side":
+    case "guest_not_seated":
       return "warn";
     default:
       return "error";
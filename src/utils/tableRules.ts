@@ -0,0 +1,78 @@
+// src/utils/tableRules.ts
+import type { Guest, GuestID, TableRule, TableRuleKind } from '../types';
+import { formatTag, getGuestTags, isTagDimension, normalizeTag } from './guestTags';
+
+export const TABLE_RULE_KINDS: TableRuleKind[] = ['max', 'only', 'balance'];
+
+/**
+ * max/only restrict who may sit at a table; balance only affects the score
+ */
+export const isHardTableRule = (rule: TableRule): boolean => rule.kind !== 'balance';
+
+/**
+ * Engine form of a rule: guest ids instead of tags. `buckets` holds one id list per
+ * dimension value for balance rules.
+ */
+export interface ResolvedTableRule {
+  kind: TableRuleKind;
+  members: GuestID[];
+  limit?: number;
+  buckets?: GuestID[][];
+}
+
+export function resolveTableRule(rule: TableRule, guests: Guest[]): ResolvedTableRule {
+  const tag = normalizeTag(rule.tag);
+  if (rule.kind === 'balance') {
+    const byValue = new Map<string, GuestID[]>();
+    for (const g of guests) {
+      for (const t of getGuestTags(g)) {
+        if (!t.startsWith(tag)) continue;
+        if (!byValue.has(t)) byValue.set(t, []);
+        byValue.get(t)!.push(g.id);
+      }
+    }
+    const buckets = Array.from(byValue.values());
+    return { kind: 'balance', members: buckets.flat(), buckets };
+  }
+  const matches = (g: Guest) => {
+    const tags = getGuestTags(g);
+    return isTagDimension(tag) ? tags.some(t => t.startsWith(tag)) : tags.includes(tag);
+  };
+  const members = guests.filter(matches).map(g => g.id);
+  return rule.kind === 'max' ? { kind: 'max', members, limit: rule.limit ?? 0 } : { kind: 'only', members };
+}
+
+export function describeTableRule(rule: TableRule): string {
+  const tag = normalizeTag(rule.tag);
+  const label = isTagDimension(tag) ? formatTag(tag).replace(/^Any /, '') : `"${formatTag(tag)}"`;
+  switch (rule.kind) {
+    case 'max': return `At most ${rule.limit ?? 0} ${label} ${rule.limit === 1 ? 'guest' : 'guests'}`;
+    case 'only': return `${label} guests only`;
+    case 'balance': return `Balance ${label} values`;
+  }
+}
+
+export function sanitizeTableRules(incoming: unknown): TableRule[] | undefined {
+  if (!Array.isArray(incoming)) return undefined;
+  const out: TableRule[] = [];
+  for (const r of incoming) {
+    if (!r || typeof r !== 'object') continue;
+    const src = r as Record<string, unknown>;
+    const kind = src.kind as TableRuleKind;
+    const tag = typeof src.tag === 'string' ? normalizeTag(src.tag) : '';
+    if (!tag || !TABLE_RULE_KINDS.includes(kind)) continue;
+    // Balance needs a dimension to compare values of
+    if (kind === 'balance' && !isTagDimension(tag)) continue;
+    // One rule per kind and tag; the later one wins
+    const existing = out.findIndex(x => x.kind === kind && x.tag === tag);
+    if (existing >= 0) out.splice(existing, 1);
+    if (kind === 'max') {
+      const limit = Math.max(0, Math.floor(Number(src.limit)));
+      if (!Number.isFinite(limit)) continue;
+      out.push({ kind, tag, limit });
+    } else {
+      out.push({ kind, tag });
+    }
+  }
+  return out.length ? out : undefined;
+}
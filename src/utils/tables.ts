@@ -1,6 +1,21 @@
 /**
  * Utility functions for table management
  */
+import type { TableShape } from '../types';
+
+export const TABLE_SHAPES: { value: TableShape; label: string }[] = [
+  { value: 'round', label: 'Round' },
+  { value: 'rectangle', label: 'Rectangular' },
+  { value: 'head', label: 'Head table' },
+  { value: 'u-shape', label: 'U-shape' },
+];
+
+/**
+ * Known non-round shape, or undefined (round is the default and is not stored)
+ */
+export function sanitizeTableShape(incoming: unknown): TableShape | undefined {
+  return TABLE_SHAPES.some(s => s.value === incoming) && incoming !== 'round' ? (incoming as TableShape) : undefined;
+}
 
 /**
  * Back-compatible capacity reader: number or array supported.
@@ -14,6 +29,35 @@ export const getCapacity = (t: { seats?: number | any[]; capacity?: number }) =>
       ? Number(t.seats)
       : Number(t.capacity ?? 0);
 
+/**
+ * Seats held by guests locked to a table (whole parties). The rest of the table stays open
+ * to the engine when it regenerates.
+ */
+export function lockedSeatCount(lockedGuestIds: string[] | undefined, guests: { id: string; count: number }[]): number {
+  const ids = new Set((lockedGuestIds ?? []).map(String));
+  return guests.reduce((sum, g) => sum + (ids.has(String(g.id)) ? Math.max(1, g.count) : 0), 0);
+}
+
+/**
+ * "Table #N" by position in the table list, with the table's own name when it has one
+ */
+export const displayTableLabel = (table: { id: number; name?: string | null }, index: number): string => {
+  const displayNumber = index + 1;
+  const baseLabel = `Table #${displayNumber}`;
+  if (!table.name || table.name.trim() === '' || table.name.trim().toLowerCase() === `table ${displayNumber}`) {
+    return baseLabel;
+  }
+  return `Table #${displayNumber} (${table.name.trim()})`;
+};
+
+/**
+ * Label of a table by id; ids no longer in the list fall back to their number
+ */
+export function tableLabelById(tables: { id: number; name?: string | null }[], tableId: number): string {
+  const index = tables.findIndex(t => t.id === tableId);
+  return displayTableLabel({ id: tableId, name: tables[index]?.name }, index >= 0 ? index : tableId - 1);
+}
+
 /**
  * Calculate the minimum number of tables needed for a given number of guests
  * @param guests Guest list array
@@ -0,0 +1,46 @@
+// src/utils/testFixtures.ts
+import type { Constraints, Guest, SeatingPlan, Table } from '../types';
+
+/*
+ * Shared fixtures for the console.assert test suites
+ */
+
+export const createTestTables = (seats: number[]): Table[] => {
+  return seats.map((seats, index) => ({ id: index + 1, seats }));
+};
+
+// Guests without ids, as the adjacency/constraint checks take them
+export const createTestGuests = (names: string[], counts: number[]): Guest[] => {
+  return names.map((name, index) => ({ name, count: counts[index] || 1 })) as Guest[];
+};
+
+/**
+ * Guests g1..gN named "Guest 1".."Guest N"; every third one is a party of two and sides
+ * alternate between groom and bride
+ */
+export const createSolverGuests = (count: number): Guest[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `g${i + 1}`,
+    name: `Guest ${i + 1}`,
+    count: i % 3 === 0 ? 2 : 1,
+    attributes: { side: i % 2 ? 'bride' : 'groom' },
+  }));
+
+export const setPair = (constraints: Constraints, a: string, b: string, value: 'must' | 'cannot' | 'prefer' | 'avoid') => {
+  (constraints[a] ||= {})[b] = value;
+  (constraints[b] ||= {})[a] = value;
+};
+
+/**
+ * A plan seating the given guest ids table by table (tables 1, 2, ...), one seat each
+ */
+export const planOf = (guests: Guest[], seating: string[][], capacity = 3): SeatingPlan => ({
+  id: 1,
+  tables: seating.map((ids, i) => ({
+    id: i + 1,
+    capacity,
+    seats: ids.map(id => ({ name: guests.find(g => g.id === id)!.name, partyIndex: 0, id })),
+  })),
+});
+
+export const tableOf = (plan: SeatingPlan, name: string) => plan.tables.find(t => t.seats.some(s => s.name === name))?.id;
@@ -0,0 +1,42 @@
+/**
+ * Tests for writing and reading .xlsx workbooks (and the ZIP container under them)
+ */
+
+import { buildWorkbookSheets, columnIndex, columnLetters, readXlsx, writeXlsx } from './xlsx';
+import { Guest, SeatingPlan, Table } from '../types';
+
+export const testXlsx = async () => {
+  console.assert([0, 25, 27, 701, 702].map(columnLetters).join() === 'A,Z,AB,ZZ,AAA', 'Column letters should count like Excel');
+  console.assert(columnIndex('AB') === 27 && columnIndex('AAA') === 702, 'Column letters should parse back');
+
+  const guests: Guest[] = [
+    { id: 'a', name: 'Ann <&> Lee', count: 1, tags: ['band'] },
+    { id: 'b', name: 'Bob Ray + 1', count: 2, notes: 'Late arrival' },
+    { id: 'c', name: 'Cy Norr', count: 1 },
+  ];
+  const tables: Table[] = [{ id: 1, seats: 4, name: 'Head' }, { id: 2, seats: 4 }];
+  const plan: SeatingPlan = {
+    id: 1,
+    tables: [
+      { id: 1, capacity: 4, seats: [{ name: 'Bob Ray + 1', partyIndex: 0, id: 'b' }, { name: 'Bob Ray + 1', partyIndex: 1, id: 'b' }] },
+      { id: 2, capacity: 4, seats: [{ name: 'Ann <&> Lee', partyIndex: 0, id: 'a' }, { name: 'Cy Norr', partyIndex: 0, id: 'c' }] },
+    ],
+  };
+  const sheets = buildWorkbookSheets({
+    guests, tables, plan, planLabel: 'Plan 1',
+    constraints: { a: { b: 'cannot', c: 'prefer' }, b: { a: 'cannot' }, c: { a: 'prefer' } },
+    adjacents: { b: ['c'], c: ['b'] },
+    assignments: { b: '1' },
+    preferenceWeights: { a: { c: 2 }, c: { a: 2 } },
+  });
+  const read = await readXlsx(writeXlsx(sheets));
+  console.assert(read.map(s => s.name).join() === 'Guests,Tables,Constraints,Plan 1', 'Every sheet should be written');
+  const [guestSheet, tableSheet, ruleSheet, planSheet] = read;
+  console.assert(guestSheet.rows[1].join('|') === 'Ann <&> Lee|1|band', 'Text should survive XML escaping');
+  console.assert(guestSheet.rows[2].join('|') === 'Bob Ray + 1|2||1|Late arrival', 'Assignments and notes should be exported');
+  console.assert(tableSheet.rows[1].join('|') === '1|Head|4' && tableSheet.rows.length === 3, 'Tables should be exported');
+  console.assert(ruleSheet.rows.length === 4 && ruleSheet.rows.some(r => r[2] === 'Prefer together' && r[3] === '2'), 'Each pair should be one row');
+  console.assert(planSheet.rows[2].join('|') === 'Table #1 (Head)|2|Guest of Bob Ray|Bob Ray + 1', 'Plan rows should name each seat');
+
+  console.log('✅ XLSX tests passed!');
+};
@@ -0,0 +1,300 @@
+// src/utils/xlsx.ts
+import type { Adjacents, Assignments, Constraints, Guest, PreferenceWeights, SeatingPlan, Table } from '../types';
+import { createZip, readZip } from './zip';
+import { getPreferenceWeight } from './constraints';
+import { formatTag, getGuestTags } from './guestTags';
+import { seatsByIndex } from './seatPins';
+import { seatCardName } from './printCards';
+import { tableLabelById } from './tables';
+
+/*
+ * Minimal SpreadsheetML (.xlsx) reading and writing: plain cell values only, no formulas,
+ * formats or merged cells. Written workbooks use inline strings and a bold header row.
+ */
+
+export type XlsxCell = string | number | null;
+
+export interface XlsxSheet {
+  name: string;
+  rows: XlsxCell[][];
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const SHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const MAX_SHEET_NAME = 31;
+
+// Control characters other than tab and line breaks are not allowed in XML 1.0
+const isXmlChar = (ch: string) => ch >= ' ' || ch === '\t' || ch === '\n' || ch === '\r';
+
+const escapeXml = (text: string) =>
+  Array.from(text).filter(isXmlChar).join('')
+    .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const unescapeXml = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (lower === 'amp') return '&';
+    if (lower === 'lt') return '<';
+    if (lower === 'gt') return '>';
+    if (lower === 'quot') return '"';
+    if (lower === 'apos') return "'";
+    const code = lower.startsWith('#x') ? parseInt(lower.slice(2), 16) : parseInt(lower.slice(1), 10);
+    return String.fromCodePoint(code);
+  });
+
+/**
+ * "A" → 0, "AB" → 27
+ */
+export function columnIndex(letters: string): number {
+  let n = 0;
+  for (const ch of letters.toUpperCase()) n = n * 26 + (ch.charCodeAt(0) - 64);
+  return n - 1;
+}
+
+export function columnLetters(index: number): string {
+  let s = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) s = String.fromCharCode(65 + ((n - 1) % 26)) + s;
+  return s;
+}
+
+// Excel forbids []:*?/\ in sheet names and caps them at 31 characters; names must be unique
+function sheetNames(sheets: XlsxSheet[]): string[] {
+  const used = new Set<string>();
+  return sheets.map((sheet, i) => {
+    const base = (sheet.name.replace(/[[\]:*?/\\]/g, ' ').trim() || `Sheet${i + 1}`).slice(0, MAX_SHEET_NAME);
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base.slice(0, MAX_SHEET_NAME - String(n).length - 1)} ${n}`;
+    used.add(name.toLowerCase());
+    return name;
+  });
+}
+
+function worksheetXml(rows: XlsxCell[][]): string {
+  const body = rows.map((row, r) => {
+    const cells = row.map((value, c) => {
+      const ref = `${columnLetters(c)}${r + 1}`;
+      const style = r === 0 ? ' s="1"' : '';
+      if (value === null || value === undefined || value === '') return '';
+      if (typeof value === 'number' && Number.isFinite(value)) return `<c r="${ref}"${style}><v>${value}</v></c>`;
+      return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+    }).join('');
+    return `<row r="${r + 1}">${cells}</row>`;
+  }).join('');
+  // Freeze the header row
+  const views = '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>';
+  return `${XML_HEADER}<worksheet xmlns="${SHEET_NS}">${rows.length > 1 ? views : ''}<sheetData>${body}</sheetData></worksheet>`;
+}
+
+/**
+ * Workbook with one worksheet per sheet; the first row of each is styled as a header
+ */
+export function writeXlsx(sheets: XlsxSheet[]): ArrayBuffer {
+  const encoder = new TextEncoder();
+  const names = sheetNames(sheets);
+  const file = (name: string, xml: string) => ({ name, data: encoder.encode(xml) });
+
+  const contentTypes = `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('') +
+    '</Types>';
+  const rootRels = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>';
+  const workbook = `${XML_HEADER}<workbook xmlns="${SHEET_NS}" xmlns:r="${REL_NS}"><sheets>` +
+    names.map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('') +
+    '</sheets></workbook>';
+  const workbookRels = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('') +
+    `<Relationship Id="rId${sheets.length + 1}" Type="${REL_NS}/styles" Target="styles.xml"/>` +
+    '</Relationships>';
+  const styles = `${XML_HEADER}<styleSheet xmlns="${SHEET_NS}">` +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+    '</styleSheet>';
+
+  return createZip([
+    file('[Content_Types].xml', contentTypes),
+    file('_rels/.rels', rootRels),
+    file('xl/workbook.xml', workbook),
+    file('xl/_rels/workbook.xml.rels', workbookRels),
+    file('xl/styles.xml', styles),
+    ...sheets.map((sheet, i) => file(`xl/worksheets/sheet${i + 1}.xml`, worksheetXml(sheet.rows))),
+  ]);
+}
+
+const attr = (tag: string, name: string): string | undefined => {
+  const m = new RegExp(`\\s${name}="([^"]*)"`).exec(tag);
+  return m ? unescapeXml(m[1]) : undefined;
+};
+
+// Text of every <t> in a string item, which covers rich text runs
+const itemText = (xml: string) =>
+  Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g), m => unescapeXml(m[1])).join('');
+
+const resolvePath = (base: string, target: string) =>
+  target.startsWith('/') ? target.slice(1) : `${base}${target}`.replace(/[^/]+\/\.\.\//g, '');
+
+/**
+ * Every worksheet's cell values, in workbook order. Cells hold strings; numbers and
+ * booleans come back as their text.
+ */
+export async function readXlsx(buffer: ArrayBuffer): Promise<XlsxSheet[]> {
+  const entries = await readZip(buffer);
+  const decoder = new TextDecoder();
+  const text = (path: string) => {
+    const data = entries.get(path);
+    return data ? decoder.decode(data) : '';
+  };
+
+  const workbook = text('xl/workbook.xml');
+  if (!workbook) throw new Error('Not an Excel workbook');
+
+  const targets = new Map<string, string>();
+  for (const m of text('xl/_rels/workbook.xml.rels').matchAll(/<Relationship\b[^>]*>/g)) {
+    const id = attr(m[0], 'Id');
+    const target = attr(m[0], 'Target');
+    if (id && target) targets.set(id, resolvePath('xl/', target));
+  }
+
+  const shared = Array.from(text('xl/sharedStrings.xml').matchAll(/<si>([\s\S]*?)<\/si>/g), m => itemText(m[1]));
+
+  const sheets: XlsxSheet[] = [];
+  for (const m of workbook.matchAll(/<sheet\b[^>]*>/g)) {
+    const name = attr(m[0], 'name') ?? `Sheet${sheets.length + 1}`;
+    const rid = attr(m[0], 'r:id');
+    const xml = rid ? text(targets.get(rid) ?? '') : '';
+    const rows: XlsxCell[][] = [];
+    for (const rowMatch of xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+      const rowNumber = Number(attr(rowMatch[1], 'r')) || rows.length + 1;
+      const row: XlsxCell[] = [];
+      let next = 0;
+      for (const c of (rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+        const ref = attr(c[1], 'r');
+        const col = ref ? columnIndex(ref.replace(/\d+$/, '')) : next;
+        next = col + 1;
+        const inner = c[2] ?? '';
+        const type = attr(c[1], 't');
+        const v = /<v>([\s\S]*?)<\/v>/.exec(inner);
+        let value = '';
+        if (type === 's') value = shared[Number(v?.[1])] ?? '';
+        else if (type === 'inlineStr') value = itemText(inner);
+        else if (type === 'b') value = v?.[1] === '1' ? 'TRUE' : 'FALSE';
+        else value = v ? unescapeXml(v[1]) : '';
+        while (row.length < col) row.push('');
+        row[col] = value;
+      }
+      while (rows.length < rowNumber - 1) rows.push([]);
+      rows[rowNumber - 1] = row;
+    }
+    sheets.push({ name, rows });
+  }
+  return sheets;
+}
+
+export interface WorkbookData {
+  guests: Guest[];
+  tables: Table[];
+  constraints: Constraints;
+  adjacents: Adjacents;
+  assignments: Assignments;
+  preferenceWeights?: PreferenceWeights;
+  plan?: SeatingPlan | null;
+  planLabel?: string;
+}
+
+const RULE_LABELS: Record<string, string> = {
+  must: 'Must sit together',
+  cannot: 'Cannot sit together',
+  prefer: 'Prefer together',
+  avoid: 'Prefer apart',
+};
+
+/**
+ * Sheets for Guests, Tables, Constraints (one row per pair) and, when there is one,
+ * the seating plan (one row per seat)
+ */
+export function buildWorkbookSheets(data: WorkbookData): XlsxSheet[] {
+  const nameById = new Map(data.guests.map(g => [g.id, g.name]));
+  const tableLabel = (id: number) => tableLabelById(data.tables, id);
+  const sortedGuests = [...data.guests].sort((a, b) => a.name.localeCompare(b.name));
+
+  const guests: XlsxSheet = {
+    name: 'Guests',
+    rows: [
+      ['Guest Name', 'Party Size', 'Tags', 'Table Assignment', 'Notes'], // table ids, as the guest import reads them
+      ...sortedGuests.map(g => [
+        g.name,
+        g.count,
+        getGuestTags(g).map(formatTag).join('; '),
+        (data.assignments[g.id] || '').split(',').map(id => id.trim()).filter(Boolean).join(', '),
+        g.notes ?? '',
+      ]),
+    ],
+  };
+
+  const tables: XlsxSheet = {
+    name: 'Tables',
+    rows: [
+      ['Table ID', 'Table Name', 'Seats'],
+      ...[...data.tables].sort((a, b) => a.id - b.id).map(t => [t.id, t.name || '', t.seats]),
+    ],
+  };
+
+  // Each pair once, in guest-list order
+  const order = new Map(sortedGuests.map((g, i) => [g.id, i]));
+  const pairRows: XlsxCell[][] = [];
+  const first = (a: string, b: string) => (order.get(a) ?? 0) < (order.get(b) ?? 0);
+  for (const [a, row] of Object.entries(data.constraints || {})) {
+    for (const [b, value] of Object.entries(row || {})) {
+      if (!value || !first(a, b) || !nameById.has(a) || !nameById.has(b)) continue;
+      const soft = value === 'prefer' || value === 'avoid';
+      pairRows.push([nameById.get(a)!, nameById.get(b)!, RULE_LABELS[value] ?? value, soft ? getPreferenceWeight(data.preferenceWeights, a, b) : null]);
+    }
+  }
+  for (const [a, list] of Object.entries(data.adjacents || {})) {
+    for (const b of list || []) {
+      if (!first(a, b) || !nameById.has(a) || !nameById.has(b)) continue;
+      pairRows.push([nameById.get(a)!, nameById.get(b)!, 'Sit side by side', null]);
+    }
+  }
+  pairRows.sort((x, y) => String(x[0]).localeCompare(String(y[0])) || String(x[1]).localeCompare(String(y[1])));
+  const constraints: XlsxSheet = { name: 'Constraints', rows: [['Guest', 'Other Guest', 'Rule', 'Strength'], ...pairRows] };
+
+  const sheets = [guests, tables, constraints];
+  if (data.plan) {
+    const seats: XlsxCell[][] = [];
+    for (const t of data.plan.tables) {
+      seatsByIndex(t.seats).forEach((seat, i) => {
+        if (seat) seats.push([tableLabel(t.id), i + 1, seatCardName(seat.name, seat.partyIndex), seat.name]);
+      });
+    }
+    sheets.push({ name: data.planLabel || 'Seating Plan', rows: [['Table', 'Seat', 'Guest', 'Party'], ...seats] });
+  }
+  return sheets;
+}
+
+/**
+ * Triggers a download of the workbook
+ */
+export function downloadXLSX(content: ArrayBuffer, filename: string): void {
+  const blob = new Blob([content], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+  const link = document.createElement('a');
+  const url = URL.createObjectURL(blob);
+
+  link.setAttribute('href', url);
+  link.setAttribute('download', filename);
+  link.style.visibility = 'hidden';
+
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
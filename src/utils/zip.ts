@@ -0,0 +1,138 @@
+// src/utils/zip.ts
+
+/*
+ * Just enough ZIP for Office files: writing stores entries uncompressed; reading handles
+ * stored and deflated entries, inflating with the browser's DecompressionStream.
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * ZIP archive with every entry stored (no compression); names are UTF-8
+ */
+export function createZip(entries: ZipEntry[]): ArrayBuffer {
+  const encoder = new TextEncoder();
+  const records = entries.map(entry => ({ ...entry, nameBytes: encoder.encode(entry.name), crc: crc32(entry.data) }));
+  const localSize = records.reduce((sum, r) => sum + 30 + r.nameBytes.length + r.data.length, 0);
+  const centralSize = records.reduce((sum, r) => sum + 46 + r.nameBytes.length, 0);
+  const buffer = new ArrayBuffer(localSize + centralSize + 22);
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+
+  // 1980-01-01 00:00, the earliest DOS timestamp, keeps output reproducible
+  const dosTime = 0;
+  const dosDate = (1 << 5) | 1;
+
+  let offset = 0;
+  const offsets: number[] = [];
+  for (const r of records) {
+    offsets.push(offset);
+    view.setUint32(offset, 0x04034b50, true);
+    view.setUint16(offset + 4, 20, true);          // version needed
+    view.setUint16(offset + 6, 0x0800, true);      // UTF-8 names
+    view.setUint16(offset + 8, 0, true);           // stored
+    view.setUint16(offset + 10, dosTime, true);
+    view.setUint16(offset + 12, dosDate, true);
+    view.setUint32(offset + 14, r.crc, true);
+    view.setUint32(offset + 18, r.data.length, true);
+    view.setUint32(offset + 22, r.data.length, true);
+    view.setUint16(offset + 26, r.nameBytes.length, true);
+    view.setUint16(offset + 28, 0, true);
+    bytes.set(r.nameBytes, offset + 30);
+    bytes.set(r.data, offset + 30 + r.nameBytes.length);
+    offset += 30 + r.nameBytes.length + r.data.length;
+  }
+
+  const centralStart = offset;
+  records.forEach((r, i) => {
+    view.setUint32(offset, 0x02014b50, true);
+    view.setUint16(offset + 4, 20, true);          // version made by
+    view.setUint16(offset + 6, 20, true);
+    view.setUint16(offset + 8, 0x0800, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, dosTime, true);
+    view.setUint16(offset + 14, dosDate, true);
+    view.setUint32(offset + 16, r.crc, true);
+    view.setUint32(offset + 20, r.data.length, true);
+    view.setUint32(offset + 24, r.data.length, true);
+    view.setUint16(offset + 28, r.nameBytes.length, true);
+    // extra, comment, disk, internal and external attributes stay 0
+    view.setUint32(offset + 42, offsets[i], true);
+    bytes.set(r.nameBytes, offset + 46);
+    offset += 46 + r.nameBytes.length;
+  });
+
+  view.setUint32(offset, 0x06054b50, true);
+  view.setUint16(offset + 8, records.length, true);
+  view.setUint16(offset + 10, records.length, true);
+  view.setUint32(offset + 12, offset - centralStart, true);
+  view.setUint32(offset + 16, centralStart, true);
+  return buffer;
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  if (typeof DecompressionStream === 'undefined') {
+    throw new Error('This browser cannot read compressed files. Please update it or save the file as CSV.');
+  }
+  const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Entries of a ZIP archive by name, found through the central directory
+ */
+export async function readZip(buffer: ArrayBuffer): Promise<Map<string, Uint8Array>> {
+  const view = new DataView(buffer);
+  const bytes = new Uint8Array(buffer);
+  let end = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('Not a ZIP archive');
+
+  const decoder = new TextDecoder();
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const entries = new Map<string, Uint8Array>();
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error('Damaged ZIP directory');
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Local header lengths can differ from the directory's, so read them there
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const raw = bytes.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) entries.set(name, raw);
+    else if (method === 8) entries.set(name, await inflateRaw(raw));
+    else throw new Error(`Unsupported ZIP compression in ${name}`);
+  }
+  return entries;
+}
@@ -0,0 +1,43 @@
+/*
+ * Message protocol between the app and the seating generation worker.
+ * Cancellation is done by terminating the worker, so there is no cancel message.
+ */
+
+import type {
+  Guest,
+  Table,
+  Constraints,
+  Adjacents,
+  Assignments,
+  LockedTableAssignments,
+  SeatPins,
+  PreferenceWeights,
+  TagRule,
+  GenerationOptions,
+  GenerationProgress,
+  SeatingPlan,
+  ValidationError,
+  InfeasibilityReport,
+} from "../types";
+
+export interface GenerateInput {
+  guests: Guest[];
+  tables: Table[];
+  constraints: Constraints;
+  adjacents: Adjacents;
+  preferenceWeights?: PreferenceWeights;
+  tagRules?: TagRule[];
+  assignments: Assignments;
+  lockedTableAssignments: LockedTableAssignments;
+  seatPins?: SeatPins;
+  repairBaseline?: SeatingPlan; // regenerate with as few moves from this plan as possible
+  isPremium: boolean;
+  options?: GenerationOptions;
+}
+
+export type WorkerRequest = { type: "generate"; requestId: number; input: GenerateInput };
+
+export type WorkerResponse =
+  | { type: "progress"; requestId: number; progress: GenerationProgress }
+  | { type: "result"; requestId: number; plans: SeatingPlan[]; errors: ValidationError[]; infeasibility?: InfeasibilityReport }
+  | { type: "error"; requestId: number; message: string };
@@ -0,0 +1,51 @@
+/**
+ * Tests for the seating worker message protocol and its main-thread client
+ */
+
+import type { GenerateInput, WorkerRequest, WorkerResponse } from './seatingWorker.protocol';
+import { generateSeatingPlansInWorker } from './seatingWorkerClient';
+import { createSolverGuests, createTestTables } from '../utils/testFixtures';
+
+export const testSeatingWorker = async () => {
+  const input: GenerateInput = {
+    guests: createSolverGuests(12),
+    tables: createTestTables([8, 8, 8]),
+    constraints: {},
+    adjacents: {},
+    assignments: {},
+    lockedTableAssignments: {},
+    isPremium: false,
+    options: { seed: 3, timeBudgetMs: 300, targetPlans: 2 },
+  };
+
+  // The worker script installs its handler on load, so give it a worker-like global first
+  const posted: WorkerResponse[] = [];
+  const scope = globalThis as unknown as { self?: { postMessage: (m: WorkerResponse) => void; onmessage?: (e: { data: unknown }) => Promise<void> } };
+  scope.self = { postMessage: m => { posted.push(m); } };
+  await import('./seatingWorker');
+  const send = (data: unknown) => scope.self!.onmessage!({ data });
+
+  await send({ type: 'cancel', requestId: 1 });
+  console.assert(posted.length === 0, 'The worker should ignore messages other than generate');
+
+  const request: WorkerRequest = { type: 'generate', requestId: 7, input };
+  await send(request);
+  const last = posted[posted.length - 1];
+  console.assert(posted.every(m => m.requestId === 7), 'Every response should carry the request id');
+  console.assert(posted.slice(0, -1).every(m => m.type === 'progress'), 'Progress should come before the result');
+  console.assert(last?.type === 'result' && last.plans.length > 0, 'The worker should finish with the plans');
+  delete scope.self;
+
+  // Without Worker support the client generates on the main thread, with the same progress and result
+  const progress: number[] = [];
+  const inline = await generateSeatingPlansInWorker(input, { onProgress: p => progress.push(p.runsCompleted) });
+  console.assert(inline.plans.length > 0 && progress.length > 0, 'The inline fallback should report progress and plans');
+  console.assert(last?.type === 'result' && JSON.stringify(inline.plans) === JSON.stringify(last.plans), 'Worker and inline runs should agree for a seed');
+
+  const controller = new AbortController();
+  controller.abort();
+  const aborted = await generateSeatingPlansInWorker(input, { signal: controller.signal }).then(() => null, (err: unknown) => err);
+  console.assert(aborted instanceof DOMException && aborted.name === 'AbortError', 'An aborted request should reject with AbortError');
+
+  console.log('✅ Seating worker tests passed!');
+};
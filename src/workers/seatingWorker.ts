@@ -0,0 +1,26 @@
+/*
+ * Seating generation worker: runs the adapter + engine off the main thread
+ * and streams progress back after every engine run.
+ */
+
+import { generateSeatingPlans } from "../utils/seatingAlgorithm";
+import type { GenerationProgress } from "../types";
+import type { WorkerRequest, WorkerResponse } from "./seatingWorker.protocol";
+
+const post = (msg: WorkerResponse) =>
+  (self as unknown as { postMessage: (m: WorkerResponse) => void }).postMessage(msg);
+
+self.onmessage = async (e: MessageEvent<WorkerRequest>) => {
+  const msg = e.data;
+  if (!msg || msg.type !== "generate") return;
+  const { requestId, input } = msg;
+  try {
+    const { plans, errors, infeasibility } = await generateSeatingPlans({
+      ...input,
+      onProgress: (progress: GenerationProgress) => post({ type: "progress", requestId, progress }),
+    });
+    post({ type: "result", requestId, plans, errors, infeasibility });
+  } catch (err) {
+    post({ type: "error", requestId, message: err instanceof Error ? err.message : "Failed to generate seating plans" });
+  }
+};
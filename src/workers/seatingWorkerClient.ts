@@ -0,0 +1,122 @@
+/*
+ * Main-thread client for the seating worker.
+ * One worker per generation: aborting terminates it, which stops the engine mid-run.
+ * Falls back to in-thread generation where workers are unavailable.
+ */
+
+import type { GenerationProgress } from "../types";
+import { generateSeatingPlans, type AdapterResult } from "../utils/seatingAlgorithm";
+import type { GenerateInput, WorkerResponse } from "./seatingWorker.protocol";
+
+export interface WorkerRunOptions {
+  onProgress?: (progress: GenerationProgress) => void;
+  signal?: AbortSignal;
+}
+
+let nextRequestId = 1;
+
+const abortError = () => new DOMException("Seating generation was cancelled", "AbortError");
+
+function createWorker(): Worker | null {
+  if (typeof Worker === "undefined") return null;
+  try {
+    return new Worker(new URL("./seatingWorker.ts", import.meta.url), { type: "module" });
+  } catch (err) {
+    console.warn("[SeatingWorker] Could not start worker, generating on main thread:", err);
+    return null;
+  }
+}
+
+async function runInline(input: GenerateInput, { onProgress, signal }: WorkerRunOptions): Promise<AdapterResult> {
+  if (signal?.aborted) throw abortError();
+  const result = await generateSeatingPlans({ ...input, onProgress });
+  if (signal?.aborted) throw abortError();
+  return result;
+}
+
+export function generateSeatingPlansInWorker(input: GenerateInput, opts: WorkerRunOptions = {}): Promise<AdapterResult> {
+  const { onProgress, signal } = opts;
+  if (signal?.aborted) return Promise.reject(abortError());
+
+  const worker = createWorker();
+  if (!worker) return runInline(input, opts);
+
+  const requestId = nextRequestId++;
+
+  return new Promise<AdapterResult>((resolve, reject) => {
+    let settled = false;
+    let started = false;
+
+    const finish = () => {
+      settled = true;
+      worker.terminate();
+      signal?.removeEventListener("abort", onAbort);
+    };
+
+    const onAbort = () => {
+      if (settled) return;
+      finish();
+      reject(abortError());
+    };
+
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      const msg = e.data;
+      if (settled || !msg || msg.requestId !== requestId) return;
+      started = true;
+      if (msg.type === "progress") {
+        onProgress?.(msg.progress);
+      } else if (msg.type === "result") {
+        finish();
+        resolve({ plans: msg.plans, errors: msg.errors, infeasibility: msg.infeasibility });
+      } else if (msg.type === "error") {
+        finish();
+        reject(new Error(msg.message));
+      }
+    };
+
+    worker.onerror = (e: ErrorEvent) => {
+      if (settled) return;
+      finish();
+      // Script failed to load (e.g. unsupported module workers): degrade to the main thread
+      if (!started) {
+        console.warn("[SeatingWorker] Worker failed to load, generating on main thread:", e.message);
+        runInline(input, opts).then(resolve, reject);
+        return;
+      }
+      reject(new Error(e.message || "Seating worker crashed"));
+    };
+
+    signal?.addEventListener("abort", onAbort);
+    worker.postMessage({ type: "generate", requestId, input });
+  });
+}
+
+export interface GenerationRun {
+  id: number;
+  signal: AbortSignal;
+}
+
+/**
+ * Which generation may still deliver its result. Starting a run supersedes the previous
+ * one; stopping supersedes them all. Superseded runs are aborted.
+ */
+export function createGenerationTracker() {
+  let current = 0;
+  let controller: AbortController | null = null;
+
+  const stop = () => {
+    current++;
+    controller?.abort();
+    controller = null;
+  };
+
+  return {
+    start(): GenerationRun {
+      stop();
+      controller = new AbortController();
+      return { id: current, signal: controller.signal };
+    },
+    isCurrent: (run: GenerationRun) => run.id === current,
+    stop,
+  };
+}